@@ -0,0 +1,40 @@
+// Service worker оболочки приложения: страница, бандлы и models.json берутся из сети,
+// а без сети - из Cache Storage. Веса модели кэшируются отдельно, в IndexedDB.
+const CACHE_NAME = 'yolo-shell-v1';
+const SHELL = ['./', './index.html', './models.json', './manifest.webmanifest', './vite.svg'];
+
+self.addEventListener('install', event => {
+    event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+// model.json и шарды весов не дублируем: их версии отслеживает IndexedDB-кэш по metadata.yaml
+function isModelFile(url) {
+    return /\/model\.json$|\.bin$/.test(url.pathname);
+}
+
+self.addEventListener('fetch', event => {
+    const request = event.request;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin || isModelFile(url)) return;
+
+    // Сначала сеть, чтобы после деплоя сразу получать новую версию
+    event.respondWith(
+        fetch(request)
+            .then(response => {
+                if (response.ok) {
+                    const copy = response.clone();
+                    caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+                }
+                return response;
+            })
+            .catch(() => caches.match(request, { ignoreSearch: true }).then(cached => cached ?? Response.error()))
+    );
+});
@@ -0,0 +1,47 @@
+import type { Detection, BoundingBox } from './types';
+
+// Функция для вычисления IoU (Intersection over Union)
+export function calculateIoU(box1: BoundingBox, box2: BoundingBox): number {
+    const x1 = Math.max(box1.x, box2.x);
+    const y1 = Math.max(box1.y, box2.y);
+    const x2 = Math.min(box1.x + box1.width, box2.x + box2.width);
+    const y2 = Math.min(box1.y + box1.height, box2.y + box2.height);
+
+    const intersectionWidth = Math.max(0, x2 - x1);
+    const intersectionHeight = Math.max(0, y2 - y1);
+    const intersectionArea = intersectionWidth * intersectionHeight;
+
+    const box1Area = box1.width * box1.height;
+    const box2Area = box2.width * box2.height;
+    const unionArea = box1Area + box2Area - intersectionArea;
+
+    return intersectionArea / unionArea;
+}
+
+// Non-Maximum Suppression
+export function applyNMS(detections: Detection[], iouThreshold: number = 0.5): Detection[] {
+    if (detections.length === 0) return [];
+
+    // Сортируем по score (от большего к меньшему)
+    const sorted = [...detections].sort((a, b) => b.score - a.score);
+    const selected: Detection[] = [];
+    const suppressed = new Set<number>();
+
+    for (let i = 0; i < sorted.length; i++) {
+        if (suppressed.has(i)) continue;
+
+        selected.push(sorted[i]);
+
+        // Подавляем все боксы с высоким IoU с текущим
+        for (let j = i + 1; j < sorted.length; j++) {
+            if (suppressed.has(j)) continue;
+
+            const iou = calculateIoU(sorted[i].box, sorted[j].box);
+            if (iou > iouThreshold) {
+                suppressed.add(j);
+            }
+        }
+    }
+
+    return selected;
+}
@@ -0,0 +1,20 @@
+// Часть ядра без tfjs: ее импортируют главный поток страницы и встраиваемый элемент.
+// Модули с tfjs (segmentation, ensemble, debug) регистрируют бэкенды при импорте
+// и нужны только воркеру инференса и Node, поэтому отсюда доступны лишь их типы.
+export * from './types';
+export * from './metadata';
+export * from './labels';
+export * from './options';
+export * from './boxes';
+export * from './masks';
+export * from './contours';
+export * from './geometry';
+export * from './export';
+export * from './zip';
+export * from './tracker';
+export * from './evaluate';
+export * from './registry';
+export * from './tiling';
+export * from './edit';
+export * from './redact';
+export type { AnchorGrid, DebugCandidate, DebugInfo, PrototypeTiles } from './debug';
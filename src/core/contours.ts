@@ -0,0 +1,281 @@
+import type { BinaryMask, Point } from './types';
+
+// Допуск упрощения полигона (Дуглас-Пекер), px исходного изображения
+export const POLYGON_EPSILON = 1.0;
+
+// Направления обхода по ребрам пикселей: вправо, вниз, влево, вверх
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+// Внешние контуры маски в координатах исходного изображения.
+// Контур идет по границам пикселей, поэтому площадь полигона совпадает с площадью маски.
+// Дыры (например, ступица внутри диска) отбрасываются: их не поддерживают ни YOLO, ни полигоны COCO.
+export function traceContours(mask: BinaryMask, epsilon: number = POLYGON_EPSILON): Point[][] {
+    const { width, height, data } = mask;
+    const inside = (x: number, y: number) =>
+        x >= 0 && y >= 0 && x < width && y < height && data[y * width + x] === 1;
+
+    // Ребро задается вершиной-началом (угол пикселя) и направлением.
+    // Обходим каждый пиксель по часовой стрелке (в экранных координатах),
+    // тогда объект всегда справа, внешние контуры получают положительную площадь, дыры - отрицательную.
+    const stride = width + 1;
+    const edges = new Uint8Array(stride * (height + 1)); // битовая маска направлений из вершины
+    let edgeCount = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!inside(x, y)) continue;
+            if (!inside(x, y - 1)) { edges[y * stride + x] |= 1 << 0; edgeCount++; }
+            if (!inside(x + 1, y)) { edges[y * stride + x + 1] |= 1 << 1; edgeCount++; }
+            if (!inside(x, y + 1)) { edges[(y + 1) * stride + x + 1] |= 1 << 2; edgeCount++; }
+            if (!inside(x - 1, y)) { edges[(y + 1) * stride + x] |= 1 << 3; edgeCount++; }
+        }
+    }
+
+    const polygons: Point[][] = [];
+    let start = 0;
+    while (edgeCount > 0) {
+        // Ребра только удаляются, поэтому поиск следующего контура продолжаем с места прошлого
+        while (edges[start] === 0) start++;
+        let vx = start % stride;
+        let vy = Math.floor(start / stride);
+        let dir = lowestBit(edges[start]);
+        const loop: Point[] = [];
+
+        // Идем по ребрам, пока не вернемся в исходную вершину
+        for (;;) {
+            const index = vy * stride + vx;
+            edges[index] &= ~(1 << dir);
+            edgeCount--;
+            loop.push({ x: vx, y: vy });
+
+            vx += DX[dir];
+            vy += DY[dir];
+
+            const bits = edges[vy * stride + vx];
+            if (bits === 0) break;
+            // В диагональных касаниях поворачиваем направо, чтобы не склеивать компоненты
+            const right = (dir + 1) % 4;
+            dir = bits & (1 << right) ? right : (bits & (1 << dir) ? dir : lowestBit(bits));
+        }
+
+        if (signedArea(loop) <= 0) continue;
+
+        const simplified = simplifyPolygon(removeCollinear(loop), epsilon);
+        if (simplified.length >= 3) {
+            polygons.push(simplified.map(p => ({ x: p.x + mask.x, y: p.y + mask.y })));
+        }
+    }
+
+    // Самый большой контур первым - его берут форматы с одним полигоном на объект
+    return polygons.sort((a, b) => signedArea(b) - signedArea(a));
+}
+
+function lowestBit(bits: number): number {
+    for (let i = 0; i < 4; i++) {
+        if (bits & (1 << i)) return i;
+    }
+    return 0;
+}
+
+// Площадь по формуле шнурков; положительна для обхода по часовой стрелке на экране
+export function signedArea(points: Point[]): number {
+    let sum = 0;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        sum += a.x * b.y - b.x * a.y;
+    }
+    return sum / 2;
+}
+
+export function polygonPerimeter(points: Point[]): number {
+    let length = 0;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        length += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    return length;
+}
+
+function removeCollinear(points: Point[]): Point[] {
+    const n = points.length;
+    return points.filter((p, i) => {
+        const prev = points[(i + n - 1) % n];
+        const next = points[(i + 1) % n];
+        return (p.x - prev.x) * (next.y - p.y) - (p.y - prev.y) * (next.x - p.x) !== 0;
+    });
+}
+
+// Дуглас-Пекер для замкнутого контура: делим его по двум самым далеким точкам
+export function simplifyPolygon(points: Point[], epsilon: number): Point[] {
+    if (points.length <= 4 || epsilon <= 0) return points;
+
+    let far = 0;
+    let farDist = -1;
+    for (let i = 1; i < points.length; i++) {
+        const d = (points[i].x - points[0].x) ** 2 + (points[i].y - points[0].y) ** 2;
+        if (d > farDist) {
+            farDist = d;
+            far = i;
+        }
+    }
+
+    const first = simplifyChain(points.slice(0, far + 1), epsilon);
+    const second = simplifyChain([...points.slice(far), points[0]], epsilon);
+    return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+function simplifyChain(points: Point[], epsilon: number): Point[] {
+    if (points.length <= 2) return points;
+
+    const a = points[0];
+    const b = points[points.length - 1];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+
+    let maxDist = -1;
+    let index = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const p = points[i];
+        const dist = length === 0
+            ? Math.hypot(p.x - a.x, p.y - a.y)
+            : Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+        if (dist > maxDist) {
+            maxDist = dist;
+            index = i;
+        }
+    }
+
+    if (maxDist <= epsilon) return [a, b];
+
+    const left = simplifyChain(points.slice(0, index + 1), epsilon);
+    const right = simplifyChain(points.slice(index), epsilon);
+    return [...left.slice(0, -1), ...right];
+}
+
+// Несжатый RLE в формате COCO: столбцы полного изображения, начиная с серии нулей
+export function maskToRle(
+    mask: BinaryMask,
+    imageWidth: number,
+    imageHeight: number
+): { counts: number[]; size: [number, number] } {
+    const counts: number[] = [];
+    let current = 0;
+    let run = 0;
+
+    for (let x = 0; x < imageWidth; x++) {
+        for (let y = 0; y < imageHeight; y++) {
+            const mx = x - mask.x;
+            const my = y - mask.y;
+            const value = mx >= 0 && my >= 0 && mx < mask.width && my < mask.height
+                ? mask.data[my * mask.width + mx]
+                : 0;
+
+            if (value !== current) {
+                counts.push(run);
+                run = 0;
+                current = value;
+            }
+            run++;
+        }
+    }
+    counts.push(run);
+
+    return { counts, size: [imageHeight, imageWidth] };
+}
+
+// Обратное к maskToRle: RLE COCO (несжатый или сжатый строкой) -> маска в пределах ее bbox
+export function rleToMask(counts: number[] | string, imageWidth: number, imageHeight: number): BinaryMask | null {
+    const runs = typeof counts === 'string' ? decodeRleString(counts) : counts;
+
+    let minX = imageWidth, minY = imageHeight, maxX = -1, maxY = -1;
+    const full = new Uint8Array(imageWidth * imageHeight);
+    let pos = 0;
+    runs.forEach((run, i) => {
+        if (i % 2 === 1) {
+            for (let k = pos; k < pos + run && k < full.length; k++) {
+                // Порядок по столбцам: k = x * height + y
+                const x = Math.floor(k / imageHeight);
+                const y = k - x * imageHeight;
+                full[y * imageWidth + x] = 1;
+                minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+                minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+            }
+        }
+        pos += run;
+    });
+
+    if (maxX < 0) return null;
+    return cropMask(full, imageWidth, minX, minY, maxX - minX + 1, maxY - minY + 1);
+}
+
+// Сжатый RLE из pycocotools: LEB128-подобные 6-битные символы, со второй пары - разности
+function decodeRleString(text: string): number[] {
+    const counts: number[] = [];
+    let p = 0;
+    while (p < text.length) {
+        let x = 0;
+        let k = 0;
+        let more = true;
+        while (more) {
+            const c = text.charCodeAt(p) - 48;
+            x |= (c & 0x1f) << (5 * k);
+            more = (c & 0x20) !== 0;
+            p++;
+            k++;
+            if (!more && (c & 0x10)) x |= -1 << (5 * k);
+        }
+        if (counts.length > 2) x += counts[counts.length - 2];
+        counts.push(x);
+    }
+    return counts;
+}
+
+// Заливка полигонов (правило чет-нечет) по центрам пикселей, маска - в пределах их bbox
+export function rasterizePolygons(polygons: Point[][], imageWidth: number, imageHeight: number): BinaryMask | null {
+    const points = polygons.flat();
+    if (points.length < 3) return null;
+
+    const left = Math.max(0, Math.floor(Math.min(...points.map(p => p.x))));
+    const top = Math.max(0, Math.floor(Math.min(...points.map(p => p.y))));
+    const right = Math.min(imageWidth, Math.ceil(Math.max(...points.map(p => p.x))));
+    const bottom = Math.min(imageHeight, Math.ceil(Math.max(...points.map(p => p.y))));
+    const width = right - left;
+    const height = bottom - top;
+    if (width <= 0 || height <= 0) return null;
+
+    const data = new Uint8Array(width * height);
+    for (let row = 0; row < height; row++) {
+        const y = top + row + 0.5;
+
+        // Пересечения строки с ребрами всех полигонов
+        const xs: number[] = [];
+        for (const polygon of polygons) {
+            for (let i = 0; i < polygon.length; i++) {
+                const a = polygon[i];
+                const b = polygon[(i + 1) % polygon.length];
+                if ((a.y <= y) !== (b.y <= y)) {
+                    xs.push(a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y));
+                }
+            }
+        }
+        xs.sort((a, b) => a - b);
+
+        for (let i = 0; i + 1 < xs.length; i += 2) {
+            const from = Math.max(0, Math.ceil(xs[i] - 0.5 - left));
+            const to = Math.min(width, Math.ceil(xs[i + 1] - 0.5 - left));
+            data.fill(1, row * width + from, row * width + to);
+        }
+    }
+
+    return { x: left, y: top, width, height, data };
+}
+
+function cropMask(full: Uint8Array, fullWidth: number, x: number, y: number, width: number, height: number): BinaryMask {
+    const data = new Uint8Array(width * height);
+    for (let row = 0; row < height; row++) {
+        data.set(full.subarray((y + row) * fullWidth + x, (y + row) * fullWidth + x + width), row * width);
+    }
+    return { x, y, width, height, data };
+}
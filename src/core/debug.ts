@@ -0,0 +1,199 @@
+import * as tf from '@tensorflow/tfjs';
+import type { BoundingBox, ModelMetadata, PostprocessOptions } from './types';
+import { calculateIoU } from './boxes';
+import { DEFAULT_METADATA } from './metadata';
+import { DEFAULT_POSTPROCESS_OPTIONS, resolveClassThresholds } from './options';
+import { splitOutputs } from './segmentation';
+
+// Шаги сеток якорей YOLO11 (P3, P4, P5): при входе 640 это сетки 80, 40 и 20 ячеек
+export const ANCHOR_STRIDES = [8, 16, 32];
+
+// Кандидатов в отладке не больше этого: при пороге около нуля их тысячи, а смотрят на верхние
+export const MAX_DEBUG_CANDIDATES = 500;
+
+// Одна сетка якорей: якоря идут в выходе модели построчно, сетка за сеткой
+export interface AnchorGrid {
+    stride: number;
+    width: number; // ячеек по горизонтали
+    height: number;
+    offset: number; // индекс первого якоря сетки в выходе
+}
+
+export interface DebugCandidate {
+    anchor: number; // индекс якоря; у end2end-модели - номер строки выхода
+    box: BoundingBox; // в координатах исходного изображения
+    score: number;
+    class: number;
+    kept: boolean; // пережил NMS
+    suppressedBy?: number; // индекс подавившего кандидата в списке; нет - отсечен лимитом maxDetections
+    // У подавленного - IoU с подавившим, у выжившего - наибольший IoU с выжившими раньше:
+    // насколько он был близок к подавлению
+    iou?: number;
+}
+
+// Прототипы масок, каналы первыми: [count, height, width]
+export interface PrototypeTiles {
+    count: number;
+    width: number;
+    height: number;
+    data: Float32Array;
+}
+
+// Промежуточные данные постобработки для панели отладки
+export interface DebugInfo {
+    inputSize: [number, number]; // [высота, ширина] входа модели
+    numClasses: number;
+    grids: AnchorGrid[]; // пусто у end2end-модели: поякорного выхода у нее нет
+    scores: Float32Array; // [якорей, numClasses] - score каждого класса на каждом якоре
+    candidates: DebugCandidate[]; // по убыванию score
+    totalCandidates: number; // сколько прошло пороги до обрезки MAX_DEBUG_CANDIDATES
+    prototypes: PrototypeTiles | null;
+}
+
+// Сетки якорей для входа модели; null - якорей в выходе не столько, сколько дают шаги
+export function anchorGrids(inputSize: [number, number], numAnchors: number, strides: number[] = ANCHOR_STRIDES): AnchorGrid[] | null {
+    const [inputH, inputW] = inputSize;
+    const grids: AnchorGrid[] = [];
+    let offset = 0;
+    for (const stride of strides) {
+        const width = Math.ceil(inputW / stride);
+        const height = Math.ceil(inputH / stride);
+        grids.push({ stride, width, height, offset });
+        offset += width * height;
+    }
+    return offset === numAnchors ? grids : null;
+}
+
+// Жадный NMS как у tf.image.nonMaxSuppression (подавление при IoU >= порога), но с объяснением:
+// для каждого кандидата - кто его подавил и с каким IoU. Классы не смешиваются, если не agnostic.
+export function explainNms(
+    candidates: Omit<DebugCandidate, 'kept' | 'suppressedBy' | 'iou'>[],
+    iouThreshold: number,
+    maxDetections: number,
+    agnostic: boolean = false
+): DebugCandidate[] {
+    const sorted: DebugCandidate[] = [...candidates]
+        .sort((a, b) => b.score - a.score)
+        .map(candidate => ({ ...candidate, kept: false }));
+    const kept: number[] = [];
+
+    sorted.forEach((candidate, index) => {
+        let best = 0;
+        for (const other of kept) {
+            if (!agnostic && sorted[other].class !== candidate.class) continue;
+            const iou = calculateIoU(candidate.box, sorted[other].box);
+            if (iou >= iouThreshold) {
+                candidate.suppressedBy = other;
+                candidate.iou = iou;
+                return;
+            }
+            best = Math.max(best, iou);
+        }
+        if (kept.length >= maxDetections) return;
+        candidate.kept = true;
+        candidate.iou = best;
+        kept.push(index);
+    });
+    return sorted;
+}
+
+// Прототипы бывают [1, 32, 160, 160] и [1, 160, 160, 32]; приводим к каналам первыми
+async function readPrototypes(maskProtos: tf.Tensor, numMasks: number): Promise<PrototypeTiles> {
+    const [d0, d1, d2] = maskProtos.shape.slice(1);
+    const channelsLast = d2 === numMasks || d2 < d0;
+    const protos = tf.tidy(() => {
+        const squeezed = maskProtos.squeeze([0]);
+        return channelsLast ? squeezed.transpose([2, 0, 1]) : squeezed;
+    });
+    const data = await protos.data() as Float32Array;
+    protos.dispose();
+    return channelsLast
+        ? { count: d2, height: d0, width: d1, data }
+        : { count: d0, height: d1, width: d2, data };
+}
+
+// Разбирает тот же выход, что и processSegmentation, но ничего не отбрасывает молча:
+// score всех якорей, кандидаты до NMS с причиной отсева и прототипы масок.
+// Скачивает из GPU весь выход, поэтому вызывается только при включенной отладке.
+export async function collectDebugInfo(
+    output: tf.Tensor | tf.Tensor[],
+    scale: number,
+    padL: number,
+    padT: number,
+    options: PostprocessOptions = DEFAULT_POSTPROCESS_OPTIONS,
+    metadata: ModelMetadata = DEFAULT_METADATA
+): Promise<DebugInfo> {
+    const segment = metadata.task === 'segment';
+    const { boxesOut, maskProtos } = splitOutputs(output, segment);
+    const numClasses = metadata.names.length;
+    const limits = resolveClassThresholds(options, numClasses);
+    const toImage = (x1: number, y1: number, x2: number, y2: number): BoundingBox => ({
+        x: (x1 - padL) / scale,
+        y: (y1 - padT) / scale,
+        width: (x2 - x1) / scale,
+        height: (y2 - y1) / scale
+    });
+
+    let info: Omit<DebugInfo, 'prototypes'>;
+    let numMasks: number;
+    if (metadata.nms) {
+        // End2end: NMS уже внутри модели, видны только ее итоговые строки [N, 6 + nm]
+        const squeezed = boxesOut.squeeze([0]);
+        const rows = await squeezed.array() as number[][];
+        squeezed.dispose();
+        numMasks = Math.max(0, (rows[0]?.length ?? 6) - 6);
+        const candidates = rows
+            .map(([x1, y1, x2, y2, score, classId], anchor) => ({
+                anchor, box: toImage(x1, y1, x2, y2), score, class: Math.round(classId)
+            }))
+            .filter(candidate => candidate.score >= (limits[candidate.class] ?? Infinity))
+            .sort((a, b) => b.score - a.score);
+        info = {
+            inputSize: metadata.imgsz,
+            numClasses,
+            grids: [],
+            scores: new Float32Array(0),
+            candidates: candidates.map((candidate, index) => ({ ...candidate, kept: index < options.maxDetections })),
+            totalCandidates: candidates.length
+        };
+    } else {
+        const [, channels, numAnchors] = boxesOut.shape as [number, number, number];
+        numMasks = channels - 4 - numClasses;
+        const preds = tf.tidy(() => boxesOut.squeeze([0]).slice([0, 0], [4 + numClasses, -1]).transpose());
+        const data = await preds.data() as Float32Array;
+        preds.dispose();
+
+        const stride = 4 + numClasses;
+        const scores = new Float32Array(numAnchors * numClasses);
+        const candidates: Omit<DebugCandidate, 'kept' | 'suppressedBy' | 'iou'>[] = [];
+        for (let anchor = 0; anchor < numAnchors; anchor++) {
+            const row = anchor * stride;
+            let best = 0;
+            for (let c = 0; c < numClasses; c++) {
+                const score = data[row + 4 + c];
+                scores[anchor * numClasses + c] = score;
+                if (score > data[row + 4 + best]) best = c;
+            }
+            const score = data[row + 4 + best];
+            if (score < limits[best]) continue;
+            const [xc, yc, w, h] = data.subarray(row, row + 4);
+            candidates.push({ anchor, box: toImage(xc - w / 2, yc - h / 2, xc + w / 2, yc + h / 2), score, class: best });
+        }
+
+        // NMS идет по убыванию score, поэтому для верхних кандидатов итог тот же, что и над всеми
+        candidates.sort((a, b) => b.score - a.score);
+        info = {
+            inputSize: metadata.imgsz,
+            numClasses,
+            grids: anchorGrids(metadata.imgsz, numAnchors) ?? [],
+            scores,
+            candidates: explainNms(candidates.slice(0, MAX_DEBUG_CANDIDATES), options.iouThreshold, options.maxDetections, options.agnosticNms),
+            totalCandidates: candidates.length
+        };
+    }
+
+    return {
+        ...info,
+        prototypes: maskProtos && numMasks > 0 ? await readPrototypes(maskProtos, numMasks) : null
+    };
+}
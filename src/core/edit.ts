@@ -0,0 +1,216 @@
+import type { BinaryMask, BoundingBox, Detection, Point } from './types';
+import { rasterizePolygons } from './contours';
+
+// Правка результатов детекции вручную: все операции меняют Detection на месте,
+// координаты - в пикселях исходного изображения
+
+export function cloneDetection(det: Detection): Detection {
+    return {
+        ...det,
+        box: { ...det.box },
+        mask: det.mask ? { ...det.mask, data: det.mask.data.slice() } : undefined,
+        maskCoeffs: det.maskCoeffs?.slice(),
+        measurements: det.measurements ? structuredClone(det.measurements) : undefined
+    };
+}
+
+export function cloneDetections(detections: Detection[]): Detection[] {
+    return detections.map(cloneDetection);
+}
+
+// Индекс объекта под точкой: попадание в маску важнее попадания только в бокс,
+// из равных - самый маленький, чтобы вложенный объект можно было выбрать поверх большого
+export function hitTest(detections: Detection[], x: number, y: number): number {
+    let best = -1;
+    let bestRank = Infinity;
+    detections.forEach((det, index) => {
+        const { box, mask } = det;
+        const inBox = x >= box.x && x < box.x + box.width && y >= box.y && y < box.y + box.height;
+        const inMask = mask !== undefined && maskAt(mask, x, y);
+        if (!inBox && !inMask) return;
+
+        const area = box.width * box.height;
+        const rank = inMask ? area : area + Number.MAX_SAFE_INTEGER / 2;
+        if (rank < bestRank) {
+            best = index;
+            bestRank = rank;
+        }
+    });
+    return best;
+}
+
+function maskAt(mask: BinaryMask, x: number, y: number): boolean {
+    const mx = Math.floor(x) - mask.x;
+    const my = Math.floor(y) - mask.y;
+    return mx >= 0 && my >= 0 && mx < mask.width && my < mask.height && mask.data[my * mask.width + mx] === 1;
+}
+
+// Сдвиг округляется до целых пикселей: маска живет на целочисленной сетке и не должна отставать от бокса
+export function translateDetection(det: Detection, dx: number, dy: number): void {
+    const sx = Math.round(dx);
+    const sy = Math.round(dy);
+    det.box = { ...det.box, x: det.box.x + sx, y: det.box.y + sy };
+    if (det.mask) {
+        det.mask = { ...det.mask, x: det.mask.x + sx, y: det.mask.y + sy };
+    }
+}
+
+// Новый бокс; маска обрезается по нему, чтобы не выходить за рамку
+export function resizeDetection(det: Detection, box: BoundingBox): void {
+    det.box = normalizeBox(box);
+    if (det.mask) {
+        det.mask = cropMaskToBox(det.mask, det.box);
+    }
+}
+
+// Бокс с положительными размерами, даже если ручку протащили за противоположный угол
+export function normalizeBox(box: BoundingBox): BoundingBox {
+    const x = Math.min(box.x, box.x + box.width);
+    const y = Math.min(box.y, box.y + box.height);
+    return { x, y, width: Math.abs(box.width), height: Math.abs(box.height) };
+}
+
+function cropMaskToBox(mask: BinaryMask, box: BoundingBox): BinaryMask {
+    const x0 = Math.max(mask.x, Math.floor(box.x));
+    const y0 = Math.max(mask.y, Math.floor(box.y));
+    const x1 = Math.min(mask.x + mask.width, Math.ceil(box.x + box.width));
+    const y1 = Math.min(mask.y + mask.height, Math.ceil(box.y + box.height));
+    const width = Math.max(0, x1 - x0);
+    const height = Math.max(0, y1 - y0);
+
+    const data = new Uint8Array(width * height);
+    for (let row = 0; row < height; row++) {
+        const src = (y0 - mask.y + row) * mask.width + (x0 - mask.x);
+        data.set(mask.data.subarray(src, src + width), row * width);
+    }
+    return { x: x0, y: y0, width, height, data };
+}
+
+// Переносит маску в область побольше (или такую же), пиксели вне старой области - фон
+function growMask(mask: BinaryMask | undefined, region: BoundingBox): BinaryMask {
+    const data = new Uint8Array(region.width * region.height);
+    if (mask) {
+        for (let row = 0; row < mask.height; row++) {
+            const dst = (mask.y - region.y + row) * region.width + (mask.x - region.x);
+            data.set(mask.data.subarray(row * mask.width, (row + 1) * mask.width), dst);
+        }
+    }
+    return { x: region.x, y: region.y, width: region.width, height: region.height, data };
+}
+
+function unionRegion(a: BoundingBox, b: BoundingBox): BoundingBox {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+}
+
+// Кисть (value = 1) или ластик (value = 0) радиуса radius. Кисть расширяет маску и бокс,
+// если мазок выходит за них; ластик бокс не трогает.
+export function paintMask(
+    det: Detection,
+    cx: number,
+    cy: number,
+    radius: number,
+    value: 0 | 1,
+    imageWidth: number,
+    imageHeight: number
+): void {
+    if (value === 0 && !det.mask) return;
+
+    const x0 = Math.max(0, Math.floor(cx - radius));
+    const y0 = Math.max(0, Math.floor(cy - radius));
+    const x1 = Math.min(imageWidth, Math.ceil(cx + radius));
+    const y1 = Math.min(imageHeight, Math.ceil(cy + radius));
+    if (x1 <= x0 || y1 <= y0) return;
+    const stroke = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+
+    if (value === 1) {
+        const current = det.mask ?? { x: stroke.x, y: stroke.y, width: 0, height: 0, data: new Uint8Array(0) };
+        const region = det.mask ? unionRegion(current, stroke) : stroke;
+        if (region.width !== current.width || region.height !== current.height || region.x !== current.x || region.y !== current.y) {
+            det.mask = growMask(det.mask, region);
+        }
+        det.box = unionRegion(det.box, stroke);
+    }
+
+    const mask = det.mask!;
+    const r2 = radius * radius;
+    for (let y = Math.max(y0, mask.y); y < Math.min(y1, mask.y + mask.height); y++) {
+        for (let x = Math.max(x0, mask.x); x < Math.min(x1, mask.x + mask.width); x++) {
+            const dx = x + 0.5 - cx;
+            const dy = y + 0.5 - cy;
+            if (dx * dx + dy * dy <= r2) {
+                mask.data[(y - mask.y) * mask.width + (x - mask.x)] = value;
+            }
+        }
+    }
+}
+
+// Объект, обведенный вручную: маска по полигону, бокс по его крайним точкам.
+// score 1 - объект подтвержден человеком.
+export function detectionFromPolygon(
+    polygon: Point[],
+    classId: number,
+    imageWidth: number,
+    imageHeight: number
+): Detection | null {
+    const mask = rasterizePolygons([polygon], imageWidth, imageHeight);
+    if (!mask) return null;
+
+    const xs = polygon.map(p => Math.min(imageWidth, Math.max(0, p.x)));
+    const ys = polygon.map(p => Math.min(imageHeight, Math.max(0, p.y)));
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return {
+        box: { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y },
+        score: 1,
+        class: classId,
+        mask
+    };
+}
+
+// История правок на снимках: перед каждой правкой кладется копия всего списка
+export class EditHistory {
+    private undoStack: Detection[][] = [];
+    private redoStack: Detection[][] = [];
+    private limit: number;
+
+    constructor(limit: number = 50) {
+        this.limit = limit;
+    }
+
+    // Запоминает состояние до правки; новая правка делает redo невозможным
+    record(detections: Detection[]): void {
+        this.undoStack.push(cloneDetections(detections));
+        if (this.undoStack.length > this.limit) this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    // Возвращает предыдущее состояние, текущее уходит в redo
+    undo(current: Detection[]): Detection[] | null {
+        const previous = this.undoStack.pop();
+        if (!previous) return null;
+        this.redoStack.push(cloneDetections(current));
+        return previous;
+    }
+
+    redo(current: Detection[]): Detection[] | null {
+        const next = this.redoStack.pop();
+        if (!next) return null;
+        this.undoStack.push(cloneDetections(current));
+        return next;
+    }
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
@@ -0,0 +1,166 @@
+import * as tf from '@tensorflow/tfjs';
+import type { BinaryMask, BoundingBox, Detection, ModelMetadata, PostprocessOptions } from './types';
+import { calculateIoU } from './boxes';
+import { letterbox, processSegmentation } from './segmentation';
+import { DEFAULT_TTA_OPTIONS } from './options';
+import type { TtaOptions } from './options';
+
+export interface TtaPass {
+    scale: number;
+    flip: boolean;
+}
+
+export function ttaPasses(options: TtaOptions = DEFAULT_TTA_OPTIONS): TtaPass[] {
+    const scales = options.scales.length > 0 ? options.scales : [1];
+    return scales.flatMap(scale => options.flip ? [{ scale, flip: false }, { scale, flip: true }] : [{ scale, flip: false }]);
+}
+
+// Отражает детекцию по горизонтали в кадре шириной width; повторный вызов возвращает исходную
+export function flipDetection(detection: Detection, width: number): Detection {
+    const { box, mask } = detection;
+    let flippedMask: BinaryMask | undefined;
+    if (mask) {
+        const data = new Uint8Array(mask.data.length);
+        for (let y = 0; y < mask.height; y++) {
+            const row = y * mask.width;
+            for (let x = 0; x < mask.width; x++) {
+                data[row + x] = mask.data[row + mask.width - 1 - x];
+            }
+        }
+        flippedMask = { ...mask, x: width - mask.x - mask.width, data };
+    }
+    return { ...detection, box: { ...box, x: width - box.x - box.width }, mask: flippedMask };
+}
+
+// Один прогон TTA: отражение и уменьшение через letterbox, декодирование обычным processSegmentation.
+// Детекции возвращаются в координатах исходного изображения.
+export async function detectAugmented(
+    model: tf.GraphModel,
+    metadata: ModelMetadata,
+    image: tf.Tensor3D,
+    pass: TtaPass,
+    options: PostprocessOptions
+): Promise<Detection[]> {
+    const [height, width] = image.shape;
+    const source = pass.flip ? tf.reverse(image, 1) : image;
+    const { tensor, scale, padL, padT } = letterbox(source, metadata.imgsz, pass.scale);
+    if (source !== image) source.dispose();
+
+    let predictions: tf.Tensor | tf.Tensor[] | null = null;
+    try {
+        predictions = await model.executeAsync(tensor) as tf.Tensor | tf.Tensor[];
+        const detections = await processSegmentation(predictions, width, height, scale, padL, padT, options, metadata);
+        return pass.flip ? detections.map(det => flipDetection(det, width)) : detections;
+    } finally {
+        tf.dispose(predictions ? [tensor, predictions] : tensor);
+    }
+}
+
+interface Cluster {
+    members: Detection[];
+    box: BoundingBox; // средний бокс участников с весами по score
+    class: number;
+}
+
+function weightedBox(members: Detection[]): BoundingBox {
+    let total = 0;
+    let x1 = 0;
+    let y1 = 0;
+    let x2 = 0;
+    let y2 = 0;
+    for (const { box, score } of members) {
+        total += score;
+        x1 += box.x * score;
+        y1 += box.y * score;
+        x2 += (box.x + box.width) * score;
+        y2 += (box.y + box.height) * score;
+    }
+    return { x: x1 / total, y: y1 / total, width: (x2 - x1) / total, height: (y2 - y1) / total };
+}
+
+// Усреднение масок: пиксель в маске, если за него больше половины суммарного score участников.
+// Результат хранится в пределах слитого бокса, как и маски из processSegmentation.
+function averageMasks(members: Detection[], box: BoundingBox, width: number, height: number): BinaryMask | undefined {
+    // В ансамбле с detect-моделью голосуют только участники с масками
+    const masked = members.filter(det => det.mask);
+    if (masked.length === 0) return undefined;
+
+    const x0 = Math.max(0, Math.floor(box.x));
+    const y0 = Math.max(0, Math.floor(box.y));
+    const x1 = Math.min(width, Math.ceil(box.x + box.width));
+    const y1 = Math.min(height, Math.ceil(box.y + box.height));
+    const mw = Math.max(0, x1 - x0);
+    const mh = Math.max(0, y1 - y0);
+
+    const votes = new Float32Array(mw * mh);
+    let total = 0;
+    for (const { mask, score } of masked) {
+        total += score;
+        const m = mask!;
+        const left = Math.max(x0, m.x);
+        const top = Math.max(y0, m.y);
+        const right = Math.min(x1, m.x + m.width);
+        const bottom = Math.min(y1, m.y + m.height);
+        for (let y = top; y < bottom; y++) {
+            const src = (y - m.y) * m.width - m.x;
+            const dst = (y - y0) * mw - x0;
+            for (let x = left; x < right; x++) {
+                if (m.data[src + x]) votes[dst + x] += score;
+            }
+        }
+    }
+
+    const data = new Uint8Array(mw * mh);
+    for (let i = 0; i < votes.length; i++) {
+        data[i] = votes[i] > total / 2 ? 1 : 0;
+    }
+    return { x: x0, y: y0, width: mw, height: mh, data };
+}
+
+// Weighted Boxes Fusion (Solovyev et al., 2019): боксы всех прогонов группируются по IoU
+// с текущим средним боксом группы, координаты усредняются с весами по score. Score - средний
+// по группе, пониженный для объектов, которые нашлись не во всех прогонах.
+export function weightedBoxFusion(
+    sets: Detection[][],
+    width: number,
+    height: number,
+    iouThreshold: number = DEFAULT_TTA_OPTIONS.iouThreshold
+): Detection[] {
+    const all = sets.flat().sort((a, b) => b.score - a.score);
+    const clusters: Cluster[] = [];
+
+    for (const det of all) {
+        let best: Cluster | null = null;
+        let bestIoU = iouThreshold;
+        for (const cluster of clusters) {
+            if (cluster.class !== det.class) continue;
+            const iou = calculateIoU(cluster.box, det.box);
+            if (iou > bestIoU) {
+                best = cluster;
+                bestIoU = iou;
+            }
+        }
+        if (best) {
+            best.members.push(det);
+            best.box = weightedBox(best.members);
+        } else {
+            clusters.push({ members: [det], box: det.box, class: det.class });
+        }
+    }
+
+    const runs = Math.max(1, sets.length);
+    return clusters
+        .map(({ members, box }) => {
+            const mean = members.reduce((sum, det) => sum + det.score, 0) / members.length;
+            const fused: Detection = {
+                box,
+                score: mean * Math.min(members.length, runs) / runs,
+                class: members[0].class,
+                maskCoeffs: members[0].maskCoeffs
+            };
+            const mask = averageMasks(members, box, width, height);
+            if (mask) fused.mask = mask;
+            return fused;
+        })
+        .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,258 @@
+import type { BinaryMask, BoundingBox, Detection } from './types';
+import { calculateIoU } from './boxes';
+import { maskIoU } from './masks';
+
+// Разметка одного объекта из датасета
+export interface GroundTruthObject {
+    class: number;
+    box: BoundingBox;
+    mask?: BinaryMask;
+}
+
+export interface EvaluationSample {
+    fileName: string;
+    width: number;
+    height: number;
+    groundTruth: GroundTruthObject[];
+    predictions: Detection[];
+}
+
+export interface EvaluationOptions {
+    errorConfidence: number; // порог, при котором ищем ложные срабатывания и пропуски
+    maxErrors: number; // сколько худших FP и FN показывать
+}
+
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+    errorConfidence: 0.25,
+    maxErrors: 20
+};
+
+// Пороги IoU для mAP@0.5:0.95, как в COCO и Ultralytics
+export const IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => Number((0.5 + i * 0.05).toFixed(2)));
+
+export interface ClassAp {
+    class: number;
+    instances: number;
+    ap50: number;
+    ap50_95: number;
+}
+
+// Точка кривой precision/recall при IoU 0.5
+export interface PrPoint {
+    confidence: number;
+    precision: number;
+    recall: number;
+    f1: number;
+}
+
+export interface ApMetrics {
+    map50: number;
+    map50_95: number;
+    perClass: ClassAp[];
+    curve: PrPoint[];
+}
+
+export interface ErrorCase {
+    fileName: string;
+    class: number;
+    box: BoundingBox;
+    score?: number; // только у ложных срабатываний
+    bestIoU: number; // лучший IoU с объектом другой стороны: близко к 0.5 - ошибка локализации
+}
+
+export interface EvaluationReport {
+    images: number;
+    instances: number;
+    box: ApMetrics;
+    mask: ApMetrics | null; // null, если в разметке нет масок
+    falsePositives: ErrorCase[];
+    falseNegatives: ErrorCase[];
+}
+
+// Результат сопоставления одного предсказания для всех порогов IoU
+interface MatchRecord {
+    score: number;
+    class: number;
+    tp: boolean[];
+}
+
+type IouFn = (pred: Detection, gt: GroundTruthObject) => number;
+
+const boxIoU: IouFn = (pred, gt) => calculateIoU(pred.box, gt.box);
+const segmentIoU: IouFn = (pred, gt) => (pred.mask && gt.mask ? maskIoU(pred.mask, gt.mask) : 0);
+
+// Сопоставление как в Ultralytics (match_predictions): для каждого порога пары одного класса
+// берутся жадно по убыванию IoU, каждое предсказание и каждый объект - не больше одного раза.
+// Возвращает индекс найденного объекта для каждого предсказания и порога, -1 - не найден.
+function matchPredictions(
+    predictions: Detection[],
+    groundTruth: GroundTruthObject[],
+    iou: IouFn,
+    thresholds: number[]
+): number[][] {
+    const pairs: { pred: number; gt: number; iou: number }[] = [];
+    predictions.forEach((pred, p) => {
+        groundTruth.forEach((gt, g) => {
+            if (pred.class !== gt.class) return;
+            const value = iou(pred, gt);
+            if (value > 0) pairs.push({ pred: p, gt: g, iou: value });
+        });
+    });
+    pairs.sort((a, b) => b.iou - a.iou);
+
+    const matches = predictions.map(() => thresholds.map(() => -1));
+    thresholds.forEach((threshold, t) => {
+        const usedPred = new Set<number>();
+        const usedGt = new Set<number>();
+        for (const pair of pairs) {
+            if (pair.iou < threshold) break;
+            if (usedPred.has(pair.pred) || usedGt.has(pair.gt)) continue;
+            usedPred.add(pair.pred);
+            usedGt.add(pair.gt);
+            matches[pair.pred][t] = pair.gt;
+        }
+    });
+    return matches;
+}
+
+// AP по 101 точке с огибающей precision, как compute_ap в Ultralytics
+export function computeAp(recall: number[], precision: number[]): number {
+    const mrec = [0, ...recall, 1];
+    const mpre = [1, ...precision, 0];
+    for (let i = mpre.length - 2; i >= 0; i--) {
+        mpre[i] = Math.max(mpre[i], mpre[i + 1]);
+    }
+
+    // Линейная интерполяция как np.interp: берется последний узел с mrec <= x
+    const interp = (x: number): number => {
+        let j = 0;
+        while (j + 1 < mrec.length && mrec[j + 1] <= x) j++;
+        if (j === mrec.length - 1) return mpre[j];
+        return mpre[j] + (mpre[j + 1] - mpre[j]) * (x - mrec[j]) / (mrec[j + 1] - mrec[j]);
+    };
+
+    let ap = 0;
+    let prev = interp(0);
+    for (let i = 1; i <= 100; i++) {
+        const value = interp(i / 100);
+        ap += (prev + value) / 2 / 100;
+        prev = value;
+    }
+    return ap;
+}
+
+function apMetrics(records: MatchRecord[], instancesPerClass: Map<number, number>): ApMetrics {
+    const perClass: ClassAp[] = [];
+
+    // Как в Ultralytics, учитываются только классы, присутствующие в разметке
+    for (const [classId, instances] of [...instancesPerClass].sort((a, b) => a[0] - b[0])) {
+        const sorted = records.filter(r => r.class === classId).sort((a, b) => b.score - a.score);
+        // Без предсказаний класс получает AP 0, как в ap_per_class; computeAp на пустой кривой дал бы 0.5
+        const aps = IOU_THRESHOLDS.map((_, t) => {
+            if (sorted.length === 0) return 0;
+            let tpCount = 0;
+            const recall: number[] = [];
+            const precision: number[] = [];
+            sorted.forEach((record, i) => {
+                if (record.tp[t]) tpCount++;
+                recall.push(tpCount / instances);
+                precision.push(tpCount / (i + 1));
+            });
+            return computeAp(recall, precision);
+        });
+        perClass.push({
+            class: classId,
+            instances,
+            ap50: aps[0],
+            ap50_95: aps.reduce((sum, ap) => sum + ap, 0) / aps.length
+        });
+    }
+
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    const totalInstances = [...instancesPerClass.values()].reduce((a, b) => a + b, 0);
+
+    return {
+        map50: mean(perClass.map(c => c.ap50)),
+        map50_95: mean(perClass.map(c => c.ap50_95)),
+        perClass,
+        curve: prCurve(records, totalInstances)
+    };
+}
+
+// Precision/recall по всем классам для порогов уверенности 0.05..0.95
+function prCurve(records: MatchRecord[], totalInstances: number): PrPoint[] {
+    const curve: PrPoint[] = [];
+    for (let i = 1; i < 20; i++) {
+        const confidence = i / 20;
+        const kept = records.filter(r => r.score >= confidence);
+        const tp = kept.filter(r => r.tp[0]).length;
+        const precision = kept.length > 0 ? tp / kept.length : 1;
+        const recall = totalInstances > 0 ? tp / totalInstances : 0;
+        const f1 = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0;
+        curve.push({ confidence, precision, recall, f1 });
+    }
+    return curve;
+}
+
+// Сравнивает предсказания с разметкой: mAP боксов и масок, кривые PR и худшие ошибки
+export function evaluate(
+    samples: EvaluationSample[],
+    options: EvaluationOptions = DEFAULT_EVALUATION_OPTIONS
+): EvaluationReport {
+    const boxRecords: MatchRecord[] = [];
+    const maskRecords: MatchRecord[] = [];
+    const instancesPerClass = new Map<number, number>();
+    const falsePositives: ErrorCase[] = [];
+    const falseNegatives: ErrorCase[] = [];
+    let hasMasks = false;
+
+    for (const sample of samples) {
+        const { predictions, groundTruth } = sample;
+        groundTruth.forEach(gt => instancesPerClass.set(gt.class, (instancesPerClass.get(gt.class) ?? 0) + 1));
+        hasMasks ||= groundTruth.some(gt => gt.mask);
+
+        const boxTp = matchPredictions(predictions, groundTruth, boxIoU, IOU_THRESHOLDS);
+        const maskTp = matchPredictions(predictions, groundTruth, segmentIoU, IOU_THRESHOLDS);
+        predictions.forEach((pred, i) => {
+            boxRecords.push({ score: pred.score, class: pred.class, tp: boxTp[i].map(g => g >= 0) });
+            maskRecords.push({ score: pred.score, class: pred.class, tp: maskTp[i].map(g => g >= 0) });
+        });
+
+        // Ошибки смотрим при рабочем пороге уверенности, а не при почти нулевом пороге mAP
+        const confident = predictions.filter(pred => pred.score >= options.errorConfidence);
+        const matched = matchPredictions(confident, groundTruth, boxIoU, [0.5]);
+        const matchedGt = new Set(matched.map(m => m[0]).filter(g => g >= 0));
+        confident.forEach((pred, p) => {
+            if (matched[p][0] >= 0) return;
+            falsePositives.push({
+                fileName: sample.fileName,
+                class: pred.class,
+                box: pred.box,
+                score: pred.score,
+                bestIoU: Math.max(0, ...groundTruth.map(gt => boxIoU(pred, gt)))
+            });
+        });
+        groundTruth.forEach((gt, g) => {
+            if (matchedGt.has(g)) return;
+            falseNegatives.push({
+                fileName: sample.fileName,
+                class: gt.class,
+                box: gt.box,
+                bestIoU: Math.max(0, ...confident.map(pred => boxIoU(pred, gt)))
+            });
+        });
+    }
+
+    // Худшие FP - самые уверенные; худшие FN - те, рядом с которыми модель не нашла ничего
+    falsePositives.sort((a, b) => b.score! - a.score!);
+    falseNegatives.sort((a, b) => a.bestIoU - b.bestIoU || b.box.width * b.box.height - a.box.width * a.box.height);
+
+    return {
+        images: samples.length,
+        instances: [...instancesPerClass.values()].reduce((a, b) => a + b, 0),
+        box: apMetrics(boxRecords, instancesPerClass),
+        mask: hasMasks ? apMetrics(maskRecords, instancesPerClass) : null,
+        falsePositives: falsePositives.slice(0, options.maxErrors),
+        falseNegatives: falseNegatives.slice(0, options.maxErrors)
+    };
+}
@@ -0,0 +1,209 @@
+import type { Detection, InferenceResult, MaskMeasurements, Point } from './types';
+import { getLabel } from './labels';
+import { maskArea } from './masks';
+import { traceContours, maskToRle } from './contours';
+import { createZip } from './zip';
+
+export type ExportFormat = 'coco' | 'coco-rle' | 'yolo' | 'json';
+export type CocoSegmentation = 'polygon' | 'rle';
+
+export interface ExportImage {
+    fileName: string;
+    result: InferenceResult;
+}
+
+export interface ExportFile {
+    fileName: string;
+    data: Uint8Array | string;
+    mime: string;
+}
+
+export interface CocoAnnotation {
+    id: number;
+    image_id: number;
+    category_id: number;
+    bbox: [number, number, number, number];
+    area: number;
+    segmentation: number[][] | { counts: number[]; size: [number, number] };
+    iscrowd: 0;
+    score: number;
+    attributes?: MaskMeasurements; // геометрия маски, в стиле атрибутов CVAT
+}
+
+export interface CocoDataset {
+    info: { description: string; date_created: string };
+    images: { id: number; file_name: string; width: number; height: number }[];
+    annotations: CocoAnnotation[];
+    categories: { id: number; name: string }[];
+}
+
+// Округление координат, чтобы JSON не раздувался от 15 знаков после запятой
+const round = (value: number, digits: number = 2) => Number(value.toFixed(digits));
+
+// Без маски (режим детекции) объект описывается прямоугольником бокса
+function boxPolygon(det: Detection): Point[] {
+    const { x, y, width, height } = det.box;
+    return [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height }
+    ];
+}
+
+export function detectionPolygons(det: Detection): Point[][] {
+    const polygons = det.mask ? traceContours(det.mask) : [];
+    return polygons.length > 0 ? polygons : [boxPolygon(det)];
+}
+
+// Id категорий COCO начинаются с 1, поэтому class + 1
+export function toCoco(
+    images: ExportImage[],
+    labels: string[],
+    segmentation: CocoSegmentation = 'polygon'
+): CocoDataset {
+    const dataset: CocoDataset = {
+        info: { description: 'YOLO11 rim segmentation', date_created: new Date().toISOString() },
+        images: [],
+        annotations: [],
+        categories: labels.map((name, classId) => ({ id: classId + 1, name }))
+    };
+
+    let annotationId = 1;
+    images.forEach(({ fileName, result }, index) => {
+        const imageId = index + 1;
+        dataset.images.push({ id: imageId, file_name: fileName, width: result.width, height: result.height });
+
+        for (const det of result.detections) {
+            const mask = det.mask;
+            const { x, y, width, height } = det.box;
+
+            let seg: CocoAnnotation['segmentation'];
+            if (segmentation === 'rle' && mask) {
+                seg = maskToRle(mask, result.width, result.height);
+            } else {
+                seg = detectionPolygons(det)
+                    .map(polygon => polygon.flatMap(p => [round(p.x), round(p.y)]));
+            }
+
+            dataset.annotations.push({
+                id: annotationId++,
+                image_id: imageId,
+                category_id: det.class + 1,
+                bbox: [round(x), round(y), round(width), round(height)],
+                area: mask ? maskArea(mask) : round(width * height),
+                segmentation: seg,
+                iscrowd: 0,
+                score: round(det.score, 4),
+                attributes: det.measurements
+            });
+        }
+    });
+
+    return dataset;
+}
+
+// Строки Ultralytics YOLO-seg: class x1 y1 x2 y2 ... с нормировкой на размер исходного изображения
+export function toYoloSeg(result: InferenceResult): string {
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+    return result.detections.map(det => {
+        const [polygon] = detectionPolygons(det);
+        const coords = polygon.flatMap(p => [
+            clamp(p.x / result.width).toFixed(6),
+            clamp(p.y / result.height).toFixed(6)
+        ]);
+        return `${det.class} ${coords.join(' ')}`;
+    }).join('\n') + (result.detections.length > 0 ? '\n' : '');
+}
+
+// Простой дамп Detection[]: вместо бинарной маски сохраняем ее полигоны
+export function toDetectionsJson(
+    images: ExportImage[],
+    labels: string[]
+): object[] {
+    return images.map(({ fileName, result }) => ({
+        file: fileName,
+        width: result.width,
+        height: result.height,
+        detections: result.detections.map(det => ({
+            box: det.box,
+            score: det.score,
+            class: det.class,
+            label: getLabel(labels, det.class),
+            trackId: det.trackId,
+            maskCoeffs: det.maskCoeffs,
+            measurements: det.measurements,
+            polygons: det.mask
+                ? detectionPolygons(det).map(polygon => polygon.map(p => [round(p.x), round(p.y)]))
+                : undefined
+        }))
+    }));
+}
+
+function baseName(fileName: string): string {
+    const name = fileName.split('/').pop() ?? fileName;
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(0, dot) : name;
+}
+
+// Готовит файл для скачивания; YOLO для нескольких изображений упаковывается в zip
+export function buildExport(
+    format: ExportFormat,
+    images: ExportImage[],
+    labels: string[]
+): ExportFile {
+    const stem = images.length === 1 ? baseName(images[0].fileName) : 'batch';
+
+    switch (format) {
+        case 'coco':
+        case 'coco-rle':
+            return {
+                fileName: `${stem}_coco.json`,
+                data: JSON.stringify(toCoco(images, labels, format === 'coco-rle' ? 'rle' : 'polygon'), null, 2),
+                mime: 'application/json'
+            };
+        case 'json':
+            return {
+                fileName: `${stem}_detections.json`,
+                data: JSON.stringify(toDetectionsJson(images, labels), null, 2),
+                mime: 'application/json'
+            };
+        case 'yolo': {
+            if (images.length === 1) {
+                return {
+                    fileName: `${stem}.txt`,
+                    data: toYoloSeg(images[0].result),
+                    mime: 'text/plain'
+                };
+            }
+            const entries = images.map(({ fileName, result }) => ({
+                name: `labels/${baseName(fileName)}.txt`,
+                data: toYoloSeg(result)
+            }));
+            entries.push({ name: 'classes.txt', data: labels.join('\n') + '\n' });
+            return { fileName: 'batch_yolo.zip', data: createZip(entries), mime: 'application/zip' };
+        }
+    }
+}
+
+export interface TrainingImage extends ExportImage {
+    image: Uint8Array; // исходный файл изображения как есть
+}
+
+// Датасет в раскладке Ultralytics: images/ и labels/ с одинаковыми именами плюс data.yaml.
+// Проверенные вручную разметки годятся и для train, и для val - разделить можно позже.
+export function buildTrainingSet(images: TrainingImage[], labels: string[]): ExportFile {
+    const entries = images.flatMap(({ fileName, result, image }) => {
+        const name = fileName.split('/').pop() ?? fileName;
+        return [
+            { name: `images/${name}`, data: image },
+            { name: `labels/${baseName(name)}.txt`, data: toYoloSeg(result) }
+        ];
+    });
+    const names = labels.map((label, index) => `  ${index}: ${JSON.stringify(label)}`).join('\n');
+    entries.push({ name: 'data.yaml', data: `path: .\ntrain: images\nval: images\nnames:\n${names}\n` });
+
+    const stem = images.length === 1 ? baseName(images[0].fileName) : 'batch';
+    return { fileName: `${stem}_dataset.zip`, data: createZip(entries), mime: 'application/zip' };
+}
@@ -0,0 +1,143 @@
+import type { BinaryMask, Detection, InferenceResult, MaskMeasurements } from './types';
+import { traceContours, polygonPerimeter } from './contours';
+
+// Дыра в маске считается ступицей, если занимает хотя бы такую долю диска
+const MIN_HUB_FRACTION = 0.005;
+
+// Геометрия маски диска: площадь, периметр, эллипс по моментам и смещение ступицы
+export function measureMask(mask: BinaryMask, imageWidth: number, imageHeight: number): MaskMeasurements | null {
+    const filled = fillHoles(mask);
+
+    let area = 0;
+    let filledArea = 0;
+    let sumX = 0, sumY = 0;
+    let holeArea = 0, holeX = 0, holeY = 0;
+    let maskX = 0, maskY = 0;
+
+    for (let y = 0; y < mask.height; y++) {
+        for (let x = 0; x < mask.width; x++) {
+            const i = y * mask.width + x;
+            // Центры пикселей в координатах исходного изображения
+            const px = mask.x + x + 0.5;
+            const py = mask.y + y + 0.5;
+
+            if (filled[i]) {
+                filledArea++;
+                sumX += px;
+                sumY += py;
+            }
+            if (mask.data[i]) {
+                area++;
+                maskX += px;
+                maskY += py;
+            } else if (filled[i]) {
+                holeArea++;
+                holeX += px;
+                holeY += py;
+            }
+        }
+    }
+
+    if (area === 0) return null;
+
+    // Эллипс по центральным моментам второго порядка заполненной области
+    const cx = sumX / filledArea;
+    const cy = sumY / filledArea;
+    let mu20 = 0, mu02 = 0, mu11 = 0;
+    for (let y = 0; y < mask.height; y++) {
+        for (let x = 0; x < mask.width; x++) {
+            if (!filled[y * mask.width + x]) continue;
+            const dx = mask.x + x + 0.5 - cx;
+            const dy = mask.y + y + 0.5 - cy;
+            mu20 += dx * dx;
+            mu02 += dy * dy;
+            mu11 += dx * dy;
+        }
+    }
+    mu20 /= filledArea;
+    mu02 /= filledArea;
+    mu11 /= filledArea;
+
+    // Собственные значения ковариации; у сплошного эллипса дисперсия по полуоси a равна a^2 / 4
+    const common = Math.sqrt(((mu20 - mu02) / 2) ** 2 + mu11 ** 2);
+    const lambda1 = (mu20 + mu02) / 2 + common;
+    const lambda2 = Math.max(0, (mu20 + mu02) / 2 - common);
+    const majorAxis = 4 * Math.sqrt(lambda1);
+    const minorAxis = 4 * Math.sqrt(lambda2);
+    const angle = 0.5 * Math.atan2(2 * mu11, mu20 - mu02) * 180 / Math.PI;
+
+    const [outer] = traceContours(mask);
+    const perimeter = outer ? polygonPerimeter(outer) : 0;
+
+    // Ступица - дыра в маске; если ее не видно, берем центр масс самого диска
+    const hasHub = holeArea >= filledArea * MIN_HUB_FRACTION;
+    const hubX = hasHub ? holeX / holeArea : maskX / area;
+    const hubY = hasHub ? holeY / holeArea : maskY / area;
+    const distance = Math.hypot(hubX - cx, hubY - cy);
+
+    return {
+        area,
+        areaFraction: area / (imageWidth * imageHeight),
+        perimeter,
+        ellipse: { cx, cy, majorAxis, minorAxis, angle },
+        circularity: perimeter > 0 ? Math.min(1, 4 * Math.PI * filledArea / perimeter ** 2) : 0,
+        ellipticity: majorAxis > 0 ? minorAxis / majorAxis : 0,
+        hubOffset: {
+            dx: hubX - cx,
+            dy: hubY - cy,
+            distance,
+            relative: majorAxis > 0 ? distance / (majorAxis / 2) : 0,
+            detected: hasHub
+        }
+    };
+}
+
+// Заливаем все, что нельзя достичь от края bbox по фону, - это дыры внутри диска
+function fillHoles(mask: BinaryMask): Uint8Array {
+    const { width, height, data } = mask;
+    const outside = new Uint8Array(width * height);
+    const stack: number[] = [];
+
+    const push = (x: number, y: number) => {
+        const i = y * width + x;
+        if (!data[i] && !outside[i]) {
+            outside[i] = 1;
+            stack.push(i);
+        }
+    };
+
+    for (let x = 0; x < width; x++) {
+        push(x, 0);
+        push(x, height - 1);
+    }
+    for (let y = 0; y < height; y++) {
+        push(0, y);
+        push(width - 1, y);
+    }
+
+    while (stack.length > 0) {
+        const i = stack.pop()!;
+        const x = i % width;
+        const y = (i - x) / width;
+        if (x > 0) push(x - 1, y);
+        if (x < width - 1) push(x + 1, y);
+        if (y > 0) push(x, y - 1);
+        if (y < height - 1) push(x, y + 1);
+    }
+
+    const filled = new Uint8Array(width * height);
+    for (let i = 0; i < filled.length; i++) {
+        filled[i] = outside[i] ? 0 : 1;
+    }
+    return filled;
+}
+
+// Добавляет измерения всем детекциям с маской (изменяет их на месте)
+export function attachMeasurements(result: InferenceResult): void {
+    result.detections.forEach((det: Detection) => {
+        const measurements = det.mask ? measureMask(det.mask, result.width, result.height) : null;
+        if (measurements) {
+            det.measurements = measurements;
+        }
+    });
+}
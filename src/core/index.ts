@@ -0,0 +1,6 @@
+// Ядро без DOM: загрузка модели, предобработка, декодирование, NMS, маски и экспорт.
+// Используется воркером инференса и Node CLI; главный поток страницы импортирует ./browser.
+export * from './browser';
+export * from './segmentation';
+export * from './ensemble';
+export * from './debug';
@@ -0,0 +1,45 @@
+// Метки по умолчанию, если у модели нет metadata.yaml
+export const LABELS: string[] = ['rim'];
+
+// Палитра Ultralytics: те же цвета классов, что и в их визуализации
+export const COLORS: string[] = [
+    '#ff3838',
+    '#ff9d97',
+    '#ff701f',
+    '#ffb21d',
+    '#cfd231',
+    '#48f90a',
+    '#92cc17',
+    '#3ddb86',
+    '#1a9334',
+    '#00d4bb',
+    '#2c99a8',
+    '#00c2ff',
+    '#344593',
+    '#6473ff',
+    '#0018ec',
+    '#8438ff',
+    '#520085',
+    '#cb38ff',
+    '#ff95c8',
+    '#ff37c7'
+];
+
+export function getLabel(labels: string[], classId: number): string {
+    return labels[classId] ?? `class_${classId}`;
+}
+
+// Цвет для каждого класса: из metadata.yaml, если он там задан, иначе из палитры
+export function getClassColors(labels: string[], colors?: string[]): string[] {
+    return labels.map((_, classId) => colors?.[classId] ?? COLORS[classId % COLORS.length]);
+}
+
+// Вспомогательная функция для конвертации hex в RGB
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    return result ? {
+        r: parseInt(result[1], 16),
+        g: parseInt(result[2], 16),
+        b: parseInt(result[3], 16)
+    } : { r: 0, g: 255, b: 0 };
+}
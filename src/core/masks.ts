@@ -0,0 +1,52 @@
+import type { BinaryMask } from './types';
+
+// Порог вероятности маски по умолчанию, как в Ultralytics (логит > 0)
+export const MASK_THRESHOLD = 0.5;
+
+export function maskArea(mask: BinaryMask): number {
+    let area = 0;
+    for (let i = 0; i < mask.data.length; i++) {
+        area += mask.data[i];
+    }
+    return area;
+}
+
+// IoU двух масок; каждая хранится в своем bbox, поэтому считаем только на их пересечении
+export function maskIoU(a: BinaryMask, b: BinaryMask): number {
+    const left = Math.max(a.x, b.x);
+    const top = Math.max(a.y, b.y);
+    const right = Math.min(a.x + a.width, b.x + b.width);
+    const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+    let intersection = 0;
+    for (let y = top; y < bottom; y++) {
+        const rowA = (y - a.y) * a.width - a.x;
+        const rowB = (y - b.y) * b.width - b.x;
+        for (let x = left; x < right; x++) {
+            intersection += a.data[rowA + x] & b.data[rowB + x];
+        }
+    }
+
+    const union = maskArea(a) + maskArea(b) - intersection;
+    return union > 0 ? intersection / union : 0;
+}
+
+// Объединение масок: результат занимает общий bbox обеих
+export function unionMasks(a: BinaryMask, b: BinaryMask): BinaryMask {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    const width = Math.max(a.x + a.width, b.x + b.width) - x;
+    const height = Math.max(a.y + a.height, b.y + b.height) - y;
+    const data = new Uint8Array(width * height);
+
+    for (const mask of [a, b]) {
+        for (let row = 0; row < mask.height; row++) {
+            const src = row * mask.width;
+            const dst = (mask.y - y + row) * width + (mask.x - x);
+            for (let col = 0; col < mask.width; col++) {
+                data[dst + col] |= mask.data[src + col];
+            }
+        }
+    }
+    return { x, y, width, height, data };
+}
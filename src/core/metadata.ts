@@ -0,0 +1,224 @@
+import type { ModelMetadata, ModelTask } from './types';
+import { LABELS } from './labels';
+
+// Значения по умолчанию, если рядом с model.json нет metadata.yaml
+export const DEFAULT_METADATA: ModelMetadata = {
+    task: 'segment',
+    stride: 32,
+    imgsz: [640, 640],
+    names: LABELS,
+    nms: false,
+    channels: 3
+};
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+    indent: number;
+    text: string;
+}
+
+// Минимальный парсер YAML для metadata.yaml, который пишет Ultralytics при экспорте:
+// вложенные словари, блочные и строчные ([a, b]) списки и скаляры.
+export function parseYaml(text: string): Record<string, YamlValue> {
+    const lines: YamlLine[] = [];
+    for (const raw of text.split(/\r?\n/)) {
+        const stripped = stripComment(raw);
+        if (stripped.trim() === '' || stripped.trim() === '---') continue;
+        lines.push({ indent: stripped.length - stripped.trimStart().length, text: stripped.trim() });
+    }
+
+    let pos = 0;
+
+    const parseBlock = (indent: number): YamlValue => {
+        if (pos < lines.length && lines[pos].text.startsWith('- ')) {
+            const list: YamlValue[] = [];
+            while (pos < lines.length && lines[pos].indent === indent && lines[pos].text.startsWith('- ')) {
+                list.push(parseScalar(lines[pos].text.slice(2).trim()));
+                pos++;
+            }
+            return list;
+        }
+
+        const map: { [key: string]: YamlValue } = {};
+        while (pos < lines.length && lines[pos].indent === indent) {
+            const line = lines[pos];
+            const sep = findKeySeparator(line.text);
+            if (sep < 0) {
+                throw new Error(`Некорректная строка YAML: "${line.text}"`);
+            }
+
+            const key = unquote(line.text.slice(0, sep).trim());
+            const rest = line.text.slice(sep + 1).trim();
+            pos++;
+
+            if (rest !== '') {
+                map[key] = parseScalar(rest);
+            } else if (pos < lines.length && lines[pos].indent > indent) {
+                map[key] = parseBlock(lines[pos].indent);
+            } else if (pos < lines.length && lines[pos].indent === indent && lines[pos].text.startsWith('- ')) {
+                // PyYAML пишет элементы списка на том же отступе, что и ключ
+                map[key] = parseBlock(indent);
+            } else {
+                map[key] = null;
+            }
+        }
+        return map;
+    };
+
+    if (lines.length === 0) return {};
+    const root = parseBlock(lines[0].indent);
+    if (Array.isArray(root) || root === null || typeof root !== 'object') {
+        throw new Error('Ожидался словарь на верхнем уровне YAML');
+    }
+    return root;
+}
+
+function stripComment(line: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+            return line.slice(0, i);
+        }
+    }
+    return line;
+}
+
+function findKeySeparator(text: string): number {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function unquote(value: string): string {
+    if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+        return value.slice(1, -1);
+    }
+    return value;
+}
+
+function parseScalar(value: string): YamlValue {
+    if (value.startsWith('[') && value.endsWith(']')) {
+        const inner = value.slice(1, -1).trim();
+        return inner === '' ? [] : inner.split(',').map(item => parseScalar(item.trim()));
+    }
+    if (value[0] === '"' || value[0] === "'") return unquote(value);
+    if (value === 'true' || value === 'True') return true;
+    if (value === 'false' || value === 'False') return false;
+    if (value === 'null' || value === '~') return null;
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+    return value;
+}
+
+// Превращает разобранный metadata.yaml в описание модели
+export function parseModelMetadata(text: string): ModelMetadata {
+    const raw = parseYaml(text);
+
+    const names = parseNames(raw.names);
+    const args = (raw.args && typeof raw.args === 'object' && !Array.isArray(raw.args))
+        ? raw.args
+        : {};
+
+    let imgsz = DEFAULT_METADATA.imgsz;
+    if (Array.isArray(raw.imgsz) && raw.imgsz.length === 2) {
+        imgsz = [Number(raw.imgsz[0]), Number(raw.imgsz[1])];
+    } else if (typeof raw.imgsz === 'number') {
+        imgsz = [raw.imgsz, raw.imgsz];
+    }
+
+    const stride = typeof raw.stride === 'number' ? raw.stride : DEFAULT_METADATA.stride;
+    if (imgsz[0] % stride !== 0 || imgsz[1] % stride !== 0) {
+        console.warn(`imgsz ${imgsz.join('x')} не кратен stride ${stride}`);
+    }
+
+    return {
+        description: typeof raw.description === 'string' ? raw.description : undefined,
+        task: typeof raw.task === 'string' ? raw.task as ModelTask : DEFAULT_METADATA.task,
+        stride,
+        imgsz,
+        names: names.length > 0 ? names : DEFAULT_METADATA.names,
+        nms: args.nms === true,
+        channels: typeof raw.channels === 'number' ? raw.channels : DEFAULT_METADATA.channels,
+        colors: parseColors(raw.colors),
+        hash: hashText(text)
+    };
+}
+
+// FNV-1a (32 бита) - достаточно, чтобы заметить новый экспорт, и работает без crypto.subtle
+export function hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Цвета классов - наше расширение metadata.yaml: список или словарь индекс -> '#rrggbb'
+function parseColors(value: YamlValue | undefined): string[] | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+
+    const colors: string[] = [];
+    const entries = Array.isArray(value) ? value.map((color, i) => [i, color] as const) : Object.entries(value);
+    for (const [key, color] of entries) {
+        if (typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color)) {
+            colors[Number(key)] = color;
+        }
+    }
+    return colors.length > 0 ? colors : undefined;
+}
+
+// Имена классов Ultralytics: список или словарь индекс -> имя
+export function parseNames(value: YamlValue | undefined): string[] {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+    if (value && typeof value === 'object') {
+        const names: string[] = [];
+        for (const [key, name] of Object.entries(value)) {
+            names[Number(key)] = String(name);
+        }
+        // Заполняем пропуски, если индексы классов идут не подряд
+        for (let i = 0; i < names.length; i++) {
+            if (names[i] === undefined) names[i] = `class_${i}`;
+        }
+        return names;
+    }
+    return [];
+}
+
+// metadata.yaml лежит в той же папке, что и model.json
+export function metadataUrlFor(modelPath: string): string {
+    const slash = modelPath.lastIndexOf('/');
+    return `${modelPath.slice(0, slash + 1)}metadata.yaml`;
+}
+
+export async function loadModelMetadata(modelPath: string): Promise<ModelMetadata> {
+    const url = metadataUrlFor(modelPath);
+    try {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        const metadata = parseModelMetadata(await response.text());
+        console.log('Метаданные модели:', metadata);
+        return metadata;
+    } catch (error) {
+        console.warn(`Не удалось загрузить ${url}, используются значения по умолчанию:`, error);
+        return DEFAULT_METADATA;
+    }
+}
@@ -0,0 +1,34 @@
+import type { PostprocessOptions } from './types';
+import { MASK_THRESHOLD } from './masks';
+
+export const DEFAULT_POSTPROCESS_OPTIONS: PostprocessOptions = {
+    threshold: 0.5,
+    iouThreshold: 0.45,
+    maxDetections: 300,
+    enableMasks: true,
+    maskThreshold: MASK_THRESHOLD,
+    classThresholds: {},
+    classes: null,
+    agnosticNms: false
+};
+
+// Порог score для каждого класса; исключенным классам - Infinity, их не пропустит никакой score
+export function resolveClassThresholds(options: PostprocessOptions, numClasses: number): number[] {
+    return Array.from({ length: numClasses }, (_, classId) => {
+        if (options.classes && !options.classes.includes(classId)) return Infinity;
+        return options.classThresholds[classId] ?? options.threshold;
+    });
+}
+
+export interface TtaOptions {
+    flip: boolean; // добавить прогоны с отражением по горизонтали
+    scales: number[]; // масштабы изображения внутри входа модели, 1 - обычный letterbox
+    iouThreshold: number; // с какого IoU боксы разных прогонов считаются одним объектом
+}
+
+// Масштабы как у augment=True в Ultralytics
+export const DEFAULT_TTA_OPTIONS: TtaOptions = {
+    flip: true,
+    scales: [1, 0.83, 0.67],
+    iouThreshold: 0.55
+};
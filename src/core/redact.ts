@@ -0,0 +1,87 @@
+import type { Detection } from './types';
+
+// Что скрывать: все, кроме найденных объектов (номера, лица, фон), или сами объекты
+export type RedactTarget = 'background' | 'objects';
+
+// Маска объектов на весь кадр: 255 внутри любой маски, 0 снаружи.
+// Детекция без маски (режим детекции) закрывает эллипс, вписанный в бокс - диск круглый.
+function objectsMatte(detections: Detection[], width: number, height: number): Uint8Array {
+    const matte = new Uint8Array(width * height);
+    for (const { box, mask } of detections) {
+        if (mask) {
+            const left = Math.max(0, mask.x);
+            const top = Math.max(0, mask.y);
+            const right = Math.min(width, mask.x + mask.width);
+            const bottom = Math.min(height, mask.y + mask.height);
+            for (let y = top; y < bottom; y++) {
+                const src = (y - mask.y) * mask.width - mask.x;
+                const dst = y * width;
+                for (let x = left; x < right; x++) {
+                    if (mask.data[src + x]) matte[dst + x] = 255;
+                }
+            }
+            continue;
+        }
+
+        const rx = box.width / 2;
+        const ry = box.height / 2;
+        if (rx <= 0 || ry <= 0) continue;
+        const cx = box.x + rx;
+        const cy = box.y + ry;
+        for (let y = Math.max(0, Math.floor(box.y)); y < Math.min(height, Math.ceil(box.y + box.height)); y++) {
+            const dy = (y + 0.5 - cy) / ry;
+            for (let x = Math.max(0, Math.floor(box.x)); x < Math.min(width, Math.ceil(box.x + box.width)); x++) {
+                const dx = (x + 0.5 - cx) / rx;
+                if (dx * dx + dy * dy <= 1) matte[y * width + x] = 255;
+            }
+        }
+    }
+    return matte;
+}
+
+// Скользящее среднее по строкам (step = 1) или столбцам (step = width), края повторяются
+function boxBlurPass(src: Float32Array, dst: Float32Array, count: number, length: number, stride: number, step: number, radius: number): void {
+    const size = radius * 2 + 1;
+    for (let line = 0; line < count; line++) {
+        const base = line * stride;
+        const at = (i: number) => src[base + Math.min(length - 1, Math.max(0, i)) * step];
+
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) sum += at(i);
+        for (let i = 0; i < length; i++) {
+            dst[base + i * step] = sum / size;
+            sum += at(i + radius + 1) - at(i - radius);
+        }
+    }
+}
+
+// Растушевка края: три прохода box blur приближают гауссово размытие шириной около feather
+function featherMatte(matte: Uint8Array, width: number, height: number, feather: number): Float32Array {
+    const current = Float32Array.from(matte);
+    const radius = Math.ceil(feather / 3);
+    if (radius <= 0) return current;
+
+    const buffer = new Float32Array(current.length);
+    for (let pass = 0; pass < 3; pass++) {
+        boxBlurPass(current, buffer, height, width, width, 1, radius);
+        boxBlurPass(buffer, current, width, height, 1, width, radius);
+    }
+    return current;
+}
+
+// Альфа скрываемой области на весь кадр: 255 - пиксель закрывается эффектом полностью,
+// 0 - остается как есть, промежуточные значения - растушеванный край маски
+export function redactionMatte(
+    detections: Detection[],
+    width: number,
+    height: number,
+    target: RedactTarget,
+    feather: number = 0
+): Uint8ClampedArray {
+    const objects = featherMatte(objectsMatte(detections, width, height), width, height, feather);
+    const alpha = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < alpha.length; i++) {
+        alpha[i] = target === 'background' ? 255 - objects[i] : objects[i];
+    }
+    return alpha;
+}
@@ -0,0 +1,67 @@
+// Реестр моделей: public/models.json перечисляет экспорты, между которыми можно переключаться
+export interface ModelEntry {
+    id: string;
+    name: string;
+    url: string; // путь к model.json относительно страницы
+    description?: string;
+}
+
+export interface ModelManifest {
+    default: string; // id модели, загружаемой при старте
+    models: ModelEntry[];
+}
+
+export const MANIFEST_URL = './models.json';
+
+// Если манифеста нет, работаем как раньше - с единственной моделью из ./model
+export const DEFAULT_MANIFEST: ModelManifest = {
+    default: 'default',
+    models: [{ id: 'default', name: 'YOLO11n-seg', url: './model/model.json' }]
+};
+
+export function parseModelManifest(value: unknown): ModelManifest {
+    const raw = value as Partial<ModelManifest> | null;
+    if (!raw || !Array.isArray(raw.models) || raw.models.length === 0) {
+        throw new Error('В манифесте моделей нет списка models');
+    }
+
+    const ids = new Set<string>();
+    const models = raw.models.map((entry, index): ModelEntry => {
+        if (!entry || typeof entry.url !== 'string') {
+            throw new Error(`У модели #${index} в манифесте нет url`);
+        }
+        const id = typeof entry.id === 'string' ? entry.id : entry.url;
+        if (ids.has(id)) {
+            throw new Error(`Модель "${id}" повторяется в манифесте`);
+        }
+        ids.add(id);
+        return {
+            id,
+            name: typeof entry.name === 'string' ? entry.name : id,
+            url: entry.url,
+            description: typeof entry.description === 'string' ? entry.description : undefined
+        };
+    });
+
+    const defaultId = typeof raw.default === 'string' && ids.has(raw.default) ? raw.default : models[0].id;
+    return { default: defaultId, models };
+}
+
+export async function loadModelManifest(url: string = MANIFEST_URL): Promise<ModelManifest> {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        return parseModelManifest(await response.json());
+    } catch (error) {
+        console.warn(`Не удалось загрузить ${url}, используется модель по умолчанию:`, error);
+        return DEFAULT_MANIFEST;
+    }
+}
+
+export function findModel(manifest: ModelManifest, id: string | null | undefined): ModelEntry {
+    return manifest.models.find(model => model.id === id)
+        ?? manifest.models.find(model => model.id === manifest.default)
+        ?? manifest.models[0];
+}
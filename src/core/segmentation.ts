@@ -0,0 +1,358 @@
+import * as tf from '@tensorflow/tfjs';
+import type { Detection, PreprocessResult, ModelMetadata, PostprocessOptions } from './types';
+import { DEFAULT_METADATA } from './metadata';
+import { DEFAULT_POSTPROCESS_OPTIONS, resolveClassThresholds } from './options';
+
+// Сдвиг боксов по классу для class-aware NMS одним вызовом, как max_wh в Ultralytics
+const MAX_WH = 7680;
+
+// Все, что нужно, чтобы перевести маску прототипов в координаты исходного изображения
+interface MaskProjection {
+    imgWidth: number;
+    imgHeight: number;
+    scale: number;
+    padL: number;
+    padT: number;
+    inputSize: [number, number];
+    threshold: number;
+}
+
+// modelPath - URL model.json в браузере; в Node сюда передается IOHandler для локальных файлов.
+// onProgress получает долю загруженных весов 0..1.
+export async function loadModel(
+    modelPath: string | tf.io.IOHandler,
+    metadata: ModelMetadata = DEFAULT_METADATA,
+    onProgress?: (fraction: number) => void
+): Promise<tf.GraphModel> {
+    const model = await tf.loadGraphModel(modelPath, { onProgress });
+    try {
+        await warmupModel(model, metadata);
+    } catch (error) {
+        // Бэкенд может не поддерживать какую-то операцию графа - веса тогда не нужны
+        model.dispose();
+        throw error;
+    }
+    return model;
+}
+
+// Прогон на нулевом входе, возвращает время в мс. Первый прогон компилирует шейдеры,
+// повторный показывает установившуюся скорость бэкенда.
+export async function warmupModel(model: tf.GraphModel, metadata: ModelMetadata = DEFAULT_METADATA): Promise<number> {
+    const [inputH, inputW] = metadata.imgsz;
+    const dummy = tf.zeros([1, inputH, inputW, metadata.channels]);
+    const start = performance.now();
+    const output = await model.executeAsync(dummy);
+    try {
+        // executeAsync возвращает тензоры раньше, чем GPU досчитает; ждем данные
+        const outputs = Array.isArray(output) ? output : [output];
+        await Promise.all(outputs.map(tensor => tensor.data()));
+        return performance.now() - start;
+    } finally {
+        tf.dispose([dummy, output]);
+    }
+}
+
+// Letterbox RGB-тензора [h, w, 3] (0..255) во вход модели [1, inputH, inputW, 3] (0..1).
+// zoom < 1 уменьшает изображение внутри входа (масштабы TTA), остаток заполняется полем.
+export function letterbox(
+    image: tf.Tensor3D,
+    inputSize: [number, number] = DEFAULT_METADATA.imgsz,
+    zoom: number = 1
+): PreprocessResult {
+    return tf.tidy(() => {
+        const [inputH, inputW] = inputSize;
+        let tensor: tf.Tensor = image;
+        const [h, w] = tensor.shape.slice(0, 2);
+
+        const scale = Math.min(inputW / w, inputH / h) * Math.min(zoom, 1);
+        const nh = Math.round(h * scale);
+        const nw = Math.round(w * scale);
+
+        tensor = tf.image.resizeBilinear(tensor as tf.Tensor3D, [nh, nw]);
+
+        const padX = inputW - nw;
+        const padY = inputH - nh;
+        const padL = Math.floor(padX / 2);
+        const padT = Math.floor(padY / 2);
+        const padR = padX - padL;
+        const padB = padY - padT;
+
+        tensor = tf.pad(tensor, [[padT, padB], [padL, padR], [0, 0]], 114);
+        tensor = tensor.div(255.0).expandDims(0);
+
+        return { tensor, scale, padL, padT };
+    });
+}
+
+// Предобработка из сырого буфера пикселей (RGB или RGBA, построчно) - без DOM
+export function preprocessRgb(
+    data: Uint8Array | Uint8ClampedArray,
+    width: number,
+    height: number,
+    inputSize: [number, number] = DEFAULT_METADATA.imgsz
+): PreprocessResult {
+    const channels = data.length / (width * height);
+    if (channels !== 3 && channels !== 4) {
+        throw new Error(`Ожидался RGB или RGBA буфер ${width}x${height}, получено ${data.length} байт`);
+    }
+
+    const image = tf.tidy(() => {
+        // Uint8ClampedArray (ImageData.data) tfjs не принимает - смотрим на тот же буфер как на Uint8Array
+        const bytes = data instanceof Uint8Array ? data : new Uint8Array(data.buffer, data.byteOffset, data.length);
+        const pixels = tf.tensor3d(bytes, [height, width, channels], 'int32');
+        return channels === 4 ? pixels.slice([0, 0, 0], [-1, -1, 3]) as tf.Tensor3D : pixels;
+    });
+    const result = letterbox(image, inputSize);
+    image.dispose();
+    return result;
+}
+
+// Порядок выходов после конвертации не гарантирован: боксы - ранг 3, прототипы - ранг 4
+export function splitOutputs(
+    output: tf.Tensor | tf.Tensor[],
+    segment: boolean
+): { boxesOut: tf.Tensor; maskProtos: tf.Tensor | null } {
+    const outputs = Array.isArray(output) ? output : [output];
+    const boxesOut = outputs.find(t => t.rank === 3);
+    const maskProtos = segment ? outputs.find(t => t.rank === 4) ?? null : null;
+    if (!boxesOut) {
+        throw new Error(`Не найден выход с боксами среди ${outputs.map(t => `[${t.shape}]`).join(', ')}`);
+    }
+    return { boxesOut, maskProtos };
+}
+
+export async function processSegmentation(
+    output: tf.Tensor | tf.Tensor[],
+    imgWidth: number,
+    imgHeight: number,
+    scale: number,
+    padL: number,
+    padT: number,
+    options: PostprocessOptions = DEFAULT_POSTPROCESS_OPTIONS,
+    metadata: ModelMetadata = DEFAULT_METADATA
+): Promise<Detection[]> {
+    // Ветвимся по задаче из metadata.yaml: у detect-моделей один выход и нет пути масок
+    if (metadata.task !== 'segment' && metadata.task !== 'detect') {
+        throw new Error(`Задача "${metadata.task}" не поддерживается, нужна модель detect или segment`);
+    }
+    const segment = metadata.task === 'segment';
+    const { boxesOut, maskProtos } = splitOutputs(output, segment);
+
+    const numClasses = metadata.names.length;
+    const projection: MaskProjection = {
+        imgWidth, imgHeight, scale, padL, padT, inputSize: metadata.imgsz, threshold: options.maskThreshold
+    };
+
+    // Модель с встроенным NMS отдает [1, N, 6 + nm]: x1, y1, x2, y2, score, class, коэффициенты
+    const rows = metadata.nms
+        ? await selectEnd2End(boxesOut, numClasses, options, segment)
+        : await selectWithNMS(boxesOut, numClasses, options, segment);
+
+    // С GPU скачиваем только выжившие строки - десятки чисел вместо 8400 x (4 + nc + nm)
+    const data = await rows.array() as number[][];
+    rows.dispose();
+
+    const results: Detection[] = data.map(row => {
+        const [x1, y1, x2, y2, score, classId] = row;
+        const maskCoeffs = row.slice(6);
+        return {
+            box: {
+                x: (x1 - padL) / scale,
+                y: (y1 - padT) / scale,
+                width: (x2 - x1) / scale,
+                height: (y2 - y1) / scale
+            },
+            score,
+            class: Math.round(classId),
+            maskCoeffs: maskCoeffs.length > 0 ? maskCoeffs : undefined
+        };
+    });
+
+    // ИЗМЕНЕНО: Декодируем маски только если включен режим сегментации
+    if (options.enableMasks && maskProtos && results.length > 0) {
+        await decodeMasks(results, maskProtos, projection);
+    }
+
+    return results;
+}
+
+// Выход [1, 4 + nc + nm, 8400]: фильтр по score, перевод боксов и class-aware NMS тензорными
+// операциями. Возвращает [k, 6 + nm] в том же формате, что и end2end модель (nm = 0 для detect).
+async function selectWithNMS(
+    boxesOut: tf.Tensor,
+    numClasses: number,
+    options: PostprocessOptions,
+    segment: boolean
+): Promise<tf.Tensor2D> {
+    // Выход проверяем на соответствие числу классов
+    const extra = boxesOut.shape[1]! - 4 - numClasses;
+    if (extra < 0 || (!segment && extra > 0)) {
+        throw new Error(`Выход модели ${boxesOut.shape} не соответствует ${numClasses} классам из metadata.yaml`);
+    }
+    const numMasks = segment ? extra : 0;
+
+    const decoded = tf.tidy(() => {
+        const preds = boxesOut.squeeze([0]).transpose() as tf.Tensor2D; // [8400, 4 + nc + nm]
+        const [xc, yc, w, h] = tf.split(preds.slice([0, 0], [-1, 4]), 4, 1);
+        const classScores = preds.slice([0, 4], [-1, numClasses]);
+
+        // tf.image.nonMaxSuppression ждет боксы в порядке y1, x1, y2, x2
+        const halfW = w.div(2);
+        const halfH = h.div(2);
+        return {
+            boxes: tf.concat([yc.sub(halfH), xc.sub(halfW), yc.add(halfH), xc.add(halfW)], 1),
+            scores: classScores.max(1),
+            classes: classScores.argMax(1).toFloat(),
+            coeffs: preds.slice([0, 4 + numClasses], [-1, numMasks])
+        };
+    });
+
+    // Индексы якорей, прошедших порог своего класса; скачивается только маска из 8400 флагов
+    const keep = tf.tidy(() => {
+        const limits = tf.tensor1d(resolveClassThresholds(options, numClasses));
+        return decoded.scores.greaterEqual(limits.gather(decoded.classes.toInt()));
+    });
+    const found = await tf.whereAsync(keep);
+    const candidates = found.reshape([-1]) as tf.Tensor1D;
+    tf.dispose([keep, found]);
+
+    // Боксы разных классов разносим на MAX_WH, чтобы они не подавляли друг друга;
+    // в agnostic-режиме сдвига нет и NMS идет по всем классам сразу
+    const [nmsBoxes, nmsScores] = tf.tidy(() => {
+        const offset = decoded.classes.gather(candidates).expandDims(1).mul(options.agnosticNms ? 0 : MAX_WH);
+        return [
+            decoded.boxes.gather(candidates).add(offset) as tf.Tensor2D,
+            decoded.scores.gather(candidates) as tf.Tensor1D
+        ];
+    });
+    const selected = await tf.image.nonMaxSuppressionAsync(
+        nmsBoxes, nmsScores, options.maxDetections, options.iouThreshold
+    );
+
+    const rows = tf.tidy(() => {
+        const indices = candidates.gather(selected);
+        return tf.concat([
+            decoded.boxes.gather(indices).gather([1, 0, 3, 2], 1), // обратно в x1, y1, x2, y2
+            decoded.scores.gather(indices).expandDims(1),
+            decoded.classes.gather(indices).expandDims(1),
+            decoded.coeffs.gather(indices)
+        ], 1) as tf.Tensor2D;
+    });
+
+    tf.dispose([decoded.boxes, decoded.scores, decoded.classes, decoded.coeffs, candidates, nmsBoxes, nmsScores, selected]);
+    return rows;
+}
+
+// End2end выход уже прошел NMS - остается отбросить строки ниже порога их класса
+async function selectEnd2End(
+    boxesOut: tf.Tensor,
+    numClasses: number,
+    options: PostprocessOptions,
+    segment: boolean
+): Promise<tf.Tensor2D> {
+    const squeezed = boxesOut.squeeze([0]) as tf.Tensor2D; // [N, 6 + nm]
+    const preds = segment ? squeezed : squeezed.slice([0, 0], [-1, 6]);
+    const keep = tf.tidy(() => {
+        const limits = tf.tensor1d(resolveClassThresholds(options, numClasses));
+        const classes = preds.slice([0, 5], [-1, 1]).reshape([-1]).round().clipByValue(0, numClasses - 1).toInt();
+        return preds.slice([0, 4], [-1, 1]).reshape([-1]).greaterEqual(limits.gather(classes));
+    });
+    const found = await tf.whereAsync(keep);
+
+    const rows = tf.tidy(() => {
+        const indices = found.reshape([-1]);
+        const count = Math.min(indices.shape[0]!, options.maxDetections);
+        return preds.gather(indices.slice(0, count)) as tf.Tensor2D;
+    });
+
+    tf.dispose([squeezed, preds, keep, found]);
+    return rows;
+}
+
+// Функция для декодирования масок сегментации.
+// Как в Ultralytics: маска обрезается по боксу в пространстве прототипов, билинейно
+// увеличивается и переносится из letterbox в исходное изображение, затем бинаризуется.
+// Все три шага делает один tf.image.cropAndResize на GPU: он сэмплирует прототипы
+// ровно в центрах пикселей bbox исходного изображения, поэтому полноразмерный
+// промежуточный тензор 640x640 не нужен, а маска не выходит за пределы бокса.
+async function decodeMasks(
+    detections: Detection[],
+    maskProtos: tf.Tensor,
+    projection: MaskProjection
+): Promise<void> {
+    const withCoeffs = detections.filter(d => d.maskCoeffs && d.maskCoeffs.length > 0);
+    if (withCoeffs.length === 0) return;
+
+    // Число прототипов берем из длины коэффициентов (у YOLO11-seg это 32)
+    const numMasks = withCoeffs[0].maskCoeffs!.length;
+
+    // Один matMul на все детекции: [n, 32] x [32, 160 * 160] -> [n, 160, 160, 1]
+    const logits = tf.tidy(() => {
+        // maskProtos обычно [1, 32, 160, 160] или [1, 160, 160, 32]
+        const protos = maskProtos.squeeze([0]); // Убираем batch dimension
+        const coeffs = tf.tensor2d(withCoeffs.map(d => d.maskCoeffs!), [withCoeffs.length, numMasks]);
+
+        // Если [160, 160, 32] - каналы последние, транспонирование делает сам matMul
+        const [d0, d1, d2] = protos.shape;
+        const channelsLast = d2 === numMasks || d2 < d0;
+        const [maskHeight, maskWidth] = channelsLast ? [d0, d1] : [d1, d2];
+        const flat = channelsLast
+            ? tf.matMul(coeffs, protos.reshape([maskHeight * maskWidth, numMasks]), false, true)
+            : tf.matMul(coeffs, protos.reshape([numMasks, maskHeight * maskWidth]));
+
+        // Поле в одну ячейку с копией края: cropAndResize за пределами сетки подставляет 0,
+        // а интерполяция Ultralytics (align_corners=False) прижимает координаты к краю
+        return tf.mirrorPad(
+            flat.reshape([withCoeffs.length, maskHeight, maskWidth, 1]),
+            [[0, 0], [1, 1], [1, 1], [0, 0]],
+            'symmetric'
+        ) as tf.Tensor4D;
+    });
+
+    const maskHeight = logits.shape[1] - 2;
+    const maskWidth = logits.shape[2] - 2;
+    const { imgWidth, imgHeight, scale, padL, padT, inputSize, threshold } = projection;
+    const [inputH, inputW] = inputSize;
+
+    // Центр пикселя исходного изображения -> координата в сетке прототипов с полем (+1)
+    const toMaskX = (x: number) => (x * scale + padL) * maskWidth / inputW + 0.5;
+    const toMaskY = (y: number) => (y * scale + padT) * maskHeight / inputH + 0.5;
+
+    for (let i = 0; i < withCoeffs.length; i++) {
+        const det = withCoeffs[i];
+
+        // Область bbox в пикселях исходного изображения
+        const left = Math.max(0, Math.floor(det.box.x));
+        const top = Math.max(0, Math.floor(det.box.y));
+        const right = Math.min(imgWidth, Math.ceil(det.box.x + det.box.width));
+        const bottom = Math.min(imgHeight, Math.ceil(det.box.y + det.box.height));
+        const width = right - left;
+        const height = bottom - top;
+        if (width <= 0 || height <= 0) continue;
+
+        try {
+            const mask = tf.tidy(() => {
+                // cropAndResize берет крайние точки окна нормированными на (размер - 1)
+                const box = [
+                    toMaskY(top + 0.5) / (maskHeight + 1),
+                    toMaskX(left + 0.5) / (maskWidth + 1),
+                    toMaskY(bottom - 0.5) / (maskHeight + 1),
+                    toMaskX(right - 0.5) / (maskWidth + 1)
+                ];
+                const crop = tf.image.cropAndResize(logits, [box], [i], [height, width], 'bilinear');
+
+                // Применяем sigmoid и порог - получаем бинарную маску
+                return tf.sigmoid(crop).greater(threshold).reshape([height, width]);
+            });
+
+            // Сохраняем маску в detection, не блокируя поток синхронным чтением
+            const data = await mask.data() as Uint8Array;
+            det.mask = { x: left, y: top, width, height, data: new Uint8Array(data) };
+            mask.dispose();
+        } catch (error) {
+            console.error(`Error decoding mask for detection ${i}:`, error);
+        }
+    }
+
+    logits.dispose();
+}
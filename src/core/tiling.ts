@@ -0,0 +1,133 @@
+import type { BoundingBox, Detection } from './types';
+import { calculateIoU } from './boxes';
+import { unionMasks } from './masks';
+
+// Как объединять детекции соседних тайлов: 'nms' оставляет лучшую,
+// 'union' сливает совпавшие в одну (GREEDYNMM в SAHI) - объект на стыке не режется пополам
+export type TileMerge = 'nms' | 'union';
+
+// IoU или пересечение, деленное на площадь меньшего бокса (IOS в SAHI).
+// IOS находит половинку объекта с края тайла внутри целого объекта соседнего тайла.
+export type TileMatchMetric = 'iou' | 'ios';
+
+export interface TilingOptions {
+    tileSize: number; // сторона тайла в пикселях исходного изображения
+    overlap: number; // доля перекрытия соседних тайлов, 0..0.9
+    includeFull: boolean; // добавить прогон всего изображения, чтобы крупные объекты не дробились
+    merge: TileMerge;
+    matchMetric: TileMatchMetric;
+    matchThreshold: number;
+}
+
+// Значения по умолчанию как у SAHI, только тайл под вход модели
+export const DEFAULT_TILING_OPTIONS: TilingOptions = {
+    tileSize: 640,
+    overlap: 0.2,
+    includeFull: true,
+    merge: 'union',
+    matchMetric: 'ios',
+    matchThreshold: 0.5
+};
+
+// Сетка тайлов как get_slice_bboxes в SAHI: последний тайл в ряду прижимается к краю изображения
+export function computeTiles(width: number, height: number, tileSize: number, overlap: number): BoundingBox[] {
+    const size = Math.max(1, Math.round(tileSize));
+    const step = Math.max(1, Math.round(size * (1 - Math.min(Math.max(overlap, 0), 0.9))));
+
+    const starts = (length: number): number[] => {
+        if (length <= size) return [0];
+        const result: number[] = [];
+        for (let start = 0; start + size < length; start += step) {
+            result.push(start);
+        }
+        result.push(length - size);
+        return result;
+    };
+
+    const tiles: BoundingBox[] = [];
+    for (const y of starts(height)) {
+        for (const x of starts(width)) {
+            tiles.push({ x, y, width: Math.min(size, width), height: Math.min(size, height) });
+        }
+    }
+    return tiles;
+}
+
+// Переводит детекцию из координат тайла в координаты всего изображения
+export function offsetDetection(detection: Detection, tile: BoundingBox): Detection {
+    const { box, mask } = detection;
+    return {
+        ...detection,
+        box: { ...box, x: box.x + tile.x, y: box.y + tile.y },
+        mask: mask ? { ...mask, x: mask.x + tile.x, y: mask.y + tile.y } : undefined
+    };
+}
+
+function intersectionOverSmaller(a: BoundingBox, b: BoundingBox): number {
+    const w = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+    const h = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+    const smaller = Math.min(a.width * a.height, b.width * b.height);
+    return smaller > 0 ? w * h / smaller : 0;
+}
+
+function unionBoxes(a: BoundingBox, b: BoundingBox): BoundingBox {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+        x,
+        y,
+        width: Math.max(a.x + a.width, b.x + b.width) - x,
+        height: Math.max(a.y + a.height, b.y + b.height) - y
+    };
+}
+
+// Жадное объединение по убыванию score внутри каждого класса: с лучшей детекцией
+// сливаются (или подавляются) только те, что совпали именно с ней, без цепочек
+export function mergeTileDetections(detections: Detection[], options: TilingOptions = DEFAULT_TILING_OPTIONS): Detection[] {
+    const metric = options.matchMetric === 'ios' ? intersectionOverSmaller : calculateIoU;
+    const sorted = [...detections].sort((a, b) => b.score - a.score);
+    const used = new Array<boolean>(sorted.length).fill(false);
+    const merged: Detection[] = [];
+
+    for (let i = 0; i < sorted.length; i++) {
+        if (used[i]) continue;
+        const keep = sorted[i];
+        let { box, mask } = keep;
+
+        for (let j = i + 1; j < sorted.length; j++) {
+            if (used[j] || sorted[j].class !== keep.class) continue;
+            if (metric(keep.box, sorted[j].box) < options.matchThreshold) continue;
+            used[j] = true;
+
+            if (options.merge === 'union') {
+                const other = sorted[j];
+                box = unionBoxes(box, other.box);
+                if (mask && other.mask) mask = unionMasks(mask, other.mask);
+            }
+        }
+        merged.push(box === keep.box && mask === keep.mask ? keep : { ...keep, box, mask });
+    }
+    return merged;
+}
+
+// Нарезанный прогон: detectRegion получает область изображения и возвращает детекции
+// в ее координатах. Тайлы обрабатываются по очереди, чтобы не держать в памяти все сразу.
+export async function detectTiled(
+    width: number,
+    height: number,
+    options: TilingOptions,
+    detectRegion: (region: BoundingBox) => Promise<Detection[]>
+): Promise<Detection[]> {
+    const regions = computeTiles(width, height, options.tileSize, options.overlap);
+    // Если изображение влезает в один тайл, полный прогон его бы только повторил
+    if (options.includeFull && regions.length > 1) {
+        regions.push({ x: 0, y: 0, width, height });
+    }
+
+    const detections: Detection[] = [];
+    for (const region of regions) {
+        const found = await detectRegion(region);
+        detections.push(...found.map(det => offsetDetection(det, region)));
+    }
+    return mergeTileDetections(detections, options);
+}
@@ -0,0 +1,239 @@
+import type { BoundingBox, Detection } from './types';
+import { calculateIoU } from './boxes';
+
+export interface TrackerConfig {
+    // Минимальный IoU предсказанного бокса и детекции для сопоставления
+    matchIouThreshold: number;
+    // Детекции не ниже этого score участвуют в первом проходе и могут рождать треки
+    highScoreThreshold: number;
+    // Сколько подряд сопоставлений нужно, чтобы трек получил ID
+    minHits: number;
+    // Сколько кадров трек живет без сопоставлений, прежде чем умереть
+    maxAge: number;
+}
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+    matchIouThreshold: 0.3,
+    highScoreThreshold: 0.6,
+    minHits: 3,
+    maxAge: 30
+};
+
+export interface TrackerStats {
+    activeTracks: number;
+    uniqueTracks: number; // сколько разных дисков видели за все время
+}
+
+// Шумы фильтра Калмана относительно размера бокса, как в DeepSORT
+const STD_POSITION = 1 / 20;
+const STD_VELOCITY = 1 / 160;
+
+// Одномерный фильтр Калмана с постоянной скоростью: состояние [x, v]
+class Kalman1D {
+    x: number;
+    v = 0;
+    private p00: number;
+    private p01 = 0;
+    private p11: number;
+
+    constructor(value: number, size: number) {
+        this.x = value;
+        this.p00 = (2 * STD_POSITION * size) ** 2;
+        this.p11 = (10 * STD_VELOCITY * size) ** 2;
+    }
+
+    predict(size: number): void {
+        const q0 = (STD_POSITION * size) ** 2;
+        const q1 = (STD_VELOCITY * size) ** 2;
+
+        this.x += this.v;
+        // P = F P F^T + Q, F = [[1, 1], [0, 1]]
+        this.p00 += 2 * this.p01 + this.p11 + q0;
+        this.p01 += this.p11;
+        this.p11 += q1;
+    }
+
+    update(measurement: number, size: number): void {
+        const r = (STD_POSITION * size) ** 2;
+        const s = this.p00 + r;
+        const k0 = this.p00 / s;
+        const k1 = this.p01 / s;
+        const residual = measurement - this.x;
+
+        this.x += k0 * residual;
+        this.v += k1 * residual;
+
+        const p00 = this.p00;
+        const p01 = this.p01;
+        this.p00 = (1 - k0) * p00;
+        this.p01 = (1 - k0) * p01;
+        this.p11 -= k1 * p01;
+    }
+}
+
+// Трек одного объекта: независимые фильтры для центра и размеров бокса
+class Track {
+    readonly id: number;
+    classId: number;
+    score: number;
+    hits = 1;
+    age = 0; // кадров с последнего сопоставления
+    confirmed = false;
+    private cx: Kalman1D;
+    private cy: Kalman1D;
+    private w: Kalman1D;
+    private h: Kalman1D;
+
+    constructor(id: number, detection: Detection) {
+        const { x, y, width, height } = detection.box;
+        this.id = id;
+        this.classId = detection.class;
+        this.score = detection.score;
+        this.cx = new Kalman1D(x + width / 2, width);
+        this.cy = new Kalman1D(y + height / 2, height);
+        this.w = new Kalman1D(width, width);
+        this.h = new Kalman1D(height, height);
+    }
+
+    predict(): void {
+        const width = Math.max(1, this.w.x);
+        const height = Math.max(1, this.h.x);
+        this.cx.predict(width);
+        this.cy.predict(height);
+        this.w.predict(width);
+        this.h.predict(height);
+        this.age++;
+    }
+
+    update(detection: Detection): void {
+        const { x, y, width, height } = detection.box;
+        this.cx.update(x + width / 2, width);
+        this.cy.update(y + height / 2, height);
+        this.w.update(width, width);
+        this.h.update(height, height);
+        this.classId = detection.class;
+        this.score = detection.score;
+        this.hits++;
+        this.age = 0;
+    }
+
+    get box(): BoundingBox {
+        const width = Math.max(1, this.w.x);
+        const height = Math.max(1, this.h.x);
+        return {
+            x: this.cx.x - width / 2,
+            y: this.cy.x - height / 2,
+            width,
+            height
+        };
+    }
+}
+
+// Трекер в духе ByteTrack: сначала сопоставляем уверенные детекции,
+// затем слабые только с уже живыми треками, чтобы не терять диски при провалах score
+export class ObjectTracker {
+    private config: TrackerConfig;
+    private tracks: Track[] = [];
+    private nextId = 1;
+    private uniqueTracks = 0;
+
+    constructor(config: Partial<TrackerConfig> = {}) {
+        this.config = { ...DEFAULT_TRACKER_CONFIG, ...config };
+    }
+
+    // Проставляет trackId детекциям текущего кадра (изменяет их на месте)
+    update(detections: Detection[]): Detection[] {
+        const { highScoreThreshold, matchIouThreshold, minHits, maxAge } = this.config;
+
+        this.tracks.forEach(track => track.predict());
+
+        const high = detections.filter(det => det.score >= highScoreThreshold);
+        const low = detections.filter(det => det.score < highScoreThreshold);
+
+        // Первый проход: уверенные детекции со всеми треками, включая потерянные
+        const first = matchByIoU(this.tracks, high, matchIouThreshold);
+        first.matches.forEach(([track, det]) => track.update(det));
+
+        // Второй проход: слабые детекции только с треками, которые были видны на прошлом кадре
+        const recent = first.unmatchedTracks.filter(track => track.age <= 1);
+        const second = matchByIoU(recent, low, matchIouThreshold);
+        second.matches.forEach(([track, det]) => track.update(det));
+
+        // Рождение новых треков из несопоставленных уверенных детекций
+        for (const det of first.unmatchedDetections) {
+            this.tracks.push(new Track(this.nextId++, det));
+        }
+
+        for (const track of this.tracks) {
+            if (!track.confirmed && track.hits >= minHits) {
+                track.confirmed = true;
+                this.uniqueTracks++;
+            }
+        }
+
+        // Смерть треков: подтвержденные живут maxAge кадров, новые - только пока видны
+        this.tracks = this.tracks.filter(track =>
+            track.confirmed ? track.age <= maxAge : track.age === 0
+        );
+
+        for (const [track, det] of [...first.matches, ...second.matches]) {
+            if (track.confirmed) {
+                det.trackId = track.id;
+            }
+        }
+
+        return detections;
+    }
+
+    getStats(): TrackerStats {
+        return {
+            activeTracks: this.tracks.filter(track => track.confirmed && track.age === 0).length,
+            uniqueTracks: this.uniqueTracks
+        };
+    }
+
+    reset(): void {
+        this.tracks = [];
+        this.nextId = 1;
+        this.uniqueTracks = 0;
+    }
+}
+
+interface MatchResult {
+    matches: [Track, Detection][];
+    unmatchedTracks: Track[];
+    unmatchedDetections: Detection[];
+}
+
+// Жадное сопоставление по убыванию IoU между предсказанными боксами и детекциями
+function matchByIoU(tracks: Track[], detections: Detection[], minIoU: number): MatchResult {
+    const pairs: { t: number; d: number; iou: number }[] = [];
+    tracks.forEach((track, t) => {
+        const predicted = track.box;
+        detections.forEach((det, d) => {
+            if (det.class !== track.classId) return;
+            const iou = calculateIoU(predicted, det.box);
+            if (iou >= minIoU) {
+                pairs.push({ t, d, iou });
+            }
+        });
+    });
+    pairs.sort((a, b) => b.iou - a.iou);
+
+    const usedTracks = new Set<number>();
+    const usedDetections = new Set<number>();
+    const matches: [Track, Detection][] = [];
+
+    for (const { t, d } of pairs) {
+        if (usedTracks.has(t) || usedDetections.has(d)) continue;
+        usedTracks.add(t);
+        usedDetections.add(d);
+        matches.push([tracks[t], detections[d]]);
+    }
+
+    return {
+        matches,
+        unmatchedTracks: tracks.filter((_, t) => !usedTracks.has(t)),
+        unmatchedDetections: detections.filter((_, d) => !usedDetections.has(d))
+    };
+}
@@ -0,0 +1,112 @@
+import type { DebugInfo } from './debug';
+import type * as tf from '@tensorflow/tfjs';
+
+export interface Detection {
+    box: BoundingBox;
+    score: number;
+    class: number;
+    maskCoeffs?: number[];
+    mask?: BinaryMask; // маска в исходном разрешении, только в пределах bbox
+    trackId?: number; // стабильный ID объекта между кадрами видео
+    measurements?: MaskMeasurements;
+}
+
+// Геометрия маски в пикселях исходного изображения
+export interface MaskMeasurements {
+    area: number;
+    areaFraction: number; // доля от площади изображения
+    perimeter: number;
+    ellipse: {
+        cx: number;
+        cy: number;
+        majorAxis: number; // полная длина осей
+        minorAxis: number;
+        angle: number; // градусы, по часовой стрелке от оси X (экранные координаты)
+    };
+    circularity: number; // 4πS / P², 1 для идеального круга
+    ellipticity: number; // малая ось / большая ось
+    hubOffset: {
+        dx: number;
+        dy: number;
+        distance: number;
+        relative: number; // в долях большой полуоси
+        detected: boolean; // false - ступица не видна, взят центр масс маски
+    };
+}
+
+export interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Бинарная маска в координатах исходного изображения, хранится только в пределах bbox
+export interface BinaryMask {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    data: Uint8Array; // 1 - объект, 0 - фон; построчно, width * height
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface PreprocessResult {
+    tensor: tf.Tensor;
+    scale: number;
+    padL: number;
+    padT: number;
+}
+
+// Тип задачи из metadata.yaml Ultralytics
+export type ModelTask = 'detect' | 'segment' | 'classify' | 'pose' | 'obb';
+
+// Описание модели, собранное из metadata.yaml рядом с model.json
+export interface ModelMetadata {
+    description?: string;
+    task: ModelTask;
+    stride: number;
+    imgsz: [number, number]; // [высота, ширина] входа модели
+    names: string[];
+    nms: boolean; // модель экспортирована со встроенным NMS (end2end)
+    channels: number;
+    colors?: string[]; // необязательные цвета классов (#rrggbb), по индексу класса
+    hash?: string; // хэш metadata.yaml: Ultralytics пишет туда дату экспорта, так что он меняется с каждым экспортом
+}
+
+// Параметры постобработки выхода модели
+export interface PostprocessOptions {
+    threshold: number; // минимальный score детекции
+    iouThreshold: number; // IoU, выше которого NMS подавляет бокс того же класса
+    maxDetections: number;
+    enableMasks: boolean;
+    maskThreshold: number; // порог вероятности пикселя маски
+    classThresholds: Record<number, number>; // свой порог score для отдельных классов, остальным - threshold
+    classes: number[] | null; // оставить только эти классы (classes в Ultralytics), null - все
+    agnosticNms: boolean; // NMS без учета класса: бокс подавляет пересекающиеся боксы любых классов
+}
+
+// Время этапов конвейера в миллисекундах
+export interface InferenceTimings {
+    preprocess: number;
+    inference: number;
+    postprocess: number;
+    total: number;
+}
+
+// Результат обработки одного изображения вместе с параметрами letterbox
+export interface InferenceResult {
+    detections: Detection[];
+    width: number;
+    height: number;
+    scale: number;
+    padL: number;
+    padT: number;
+    timings: InferenceTimings;
+    numTensors?: number; // число живых тензоров в воркере после обработки
+    debug?: DebugInfo; // только по запросу с debug: промежуточные данные постобработки
+}
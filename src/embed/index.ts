@@ -0,0 +1,13 @@
+// Встраиваемый детектор для других приложений: программный RimDetector и элемент <rim-detector>.
+// Импорт модуля регистрирует элемент.
+import { RimDetectorElement } from './rimDetectorElement';
+
+export { RimDetector, DEFAULT_MODEL_URL, parseBackendOptions } from './rimDetector';
+export type { DetectMode, DetectOptions, DetectSource, RimDetectorEventMap } from './rimDetector';
+export { RimDetectorElement };
+export type { LoadedModelInfo } from '../worker/client';
+export type { Detection, InferenceResult, ModelMetadata } from '../core/browser';
+
+if (!customElements.get('rim-detector')) {
+    customElements.define('rim-detector', RimDetectorElement);
+}
@@ -0,0 +1,166 @@
+import { DEFAULT_MANIFEST, DEFAULT_METADATA, DEFAULT_POSTPROCESS_OPTIONS } from '../core/browser';
+import type { Detection, InferenceResult, ModelMetadata } from '../core/browser';
+import { InferenceClient } from '../worker/client';
+import type { InferHandle, LoadedModelInfo } from '../worker/client';
+import { DEFAULT_BACKEND_ORDER } from '../worker/protocol';
+import type { BackendOptions, InferOptions, InferenceStage } from '../worker/protocol';
+
+export type DetectMode = 'detection' | 'segmentation';
+
+// Все, из чего createImageBitmap умеет сделать кадр
+export type DetectSource = ImageBitmapSource;
+
+// Параметры detect: все необязательные, по умолчанию - сегментация, если модель ее умеет
+export interface DetectOptions extends Partial<Omit<InferOptions, 'enableMasks'>> {
+    mode?: DetectMode;
+}
+
+// detail событий RimDetector; события - обычные CustomEvent
+export interface RimDetectorEventMap {
+    loadprogress: CustomEvent<number>; // доля скачанных весов 0..1
+    ready: CustomEvent<LoadedModelInfo>;
+    result: CustomEvent<InferenceResult>;
+    error: CustomEvent<Error>;
+}
+
+export const DEFAULT_MODEL_URL = DEFAULT_MANIFEST.models[0].url;
+
+// 'auto', 'benchmark' или имя бэкенда. Выбранный бэкенд пробуется первым,
+// остальные остаются запасными на случай, если он не запустится.
+export function parseBackendOptions(value: string | null): BackendOptions {
+    const preferred = DEFAULT_BACKEND_ORDER.find(name => name === value);
+    if (!preferred) {
+        return { order: DEFAULT_BACKEND_ORDER, benchmark: value === 'benchmark' };
+    }
+    return { order: [preferred, ...DEFAULT_BACKEND_ORDER.filter(name => name !== preferred)], benchmark: false };
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+// Программный интерфейс детектора без привязки к разметке страницы: модель живет
+// в собственном воркере, каждый RimDetector загружает свою копию.
+export class RimDetector extends EventTarget {
+    private client = new InferenceClient();
+    private info: LoadedModelInfo | null = null;
+    private loading: Promise<LoadedModelInfo> | null = null;
+
+    get isReady(): boolean {
+        return this.info !== null;
+    }
+
+    // До загрузки - метаданные по умолчанию (классы дисков)
+    get metadata(): ModelMetadata {
+        return this.info?.metadata ?? DEFAULT_METADATA;
+    }
+
+    get backend(): string {
+        return this.info?.backend ?? '';
+    }
+
+    get pendingCount(): number {
+        return this.client.pendingCount;
+    }
+
+    // Повторный вызов заменяет модель; запросы к старой модели воркер выполнит до смены.
+    // URL разрешается относительно страницы.
+    async load(
+        modelUrl: string = DEFAULT_MODEL_URL,
+        backends: BackendOptions = parseBackendOptions('auto')
+    ): Promise<LoadedModelInfo> {
+        this.info = null;
+        const loading = this.client.load(modelUrl, backends, fraction => {
+            this.emit('loadprogress', fraction);
+        });
+        this.loading = loading;
+
+        try {
+            const info = await loading;
+            // Пока грузилась эта модель, могли попросить другую - событие отдаст последняя
+            if (this.loading !== loading) return info;
+            this.info = info;
+            this.loading = null;
+            this.emit('ready', info);
+            return info;
+        } catch (error) {
+            if (this.loading !== loading) throw toError(error);
+            this.loading = null;
+            throw this.fail(error);
+        }
+    }
+
+    // Найденные объекты на изображении, видео, canvas или Blob.
+    // Отмененный через cancel запрос возвращает пустой список.
+    async detect(source: DetectSource, options: DetectOptions = {}): Promise<Detection[]> {
+        const result = await this.detectResult(source, options);
+        return result?.detections ?? [];
+    }
+
+    // То же, что detect, но с размером кадра и временем этапов; null - запрос отменен
+    async detectResult(source: DetectSource, options: DetectOptions = {}): Promise<InferenceResult | null> {
+        let bitmap: ImageBitmap;
+        try {
+            bitmap = await createImageBitmap(source);
+        } catch (error) {
+            throw this.fail(error);
+        }
+        return this.infer(bitmap, this.inferOptions(options)).promise;
+    }
+
+    // Низкоуровневый запрос с готовыми InferOptions: id нужен для отмены сразу после вызова.
+    // Кадр передается воркеру без копирования и после вызова становится недоступен.
+    infer(image: ImageBitmap, options: InferOptions, onProgress?: (stage: InferenceStage) => void): InferHandle {
+        return this.track(this.client.infer(image, options, onProgress));
+    }
+
+    // Новые пороги к выходу последнего запроса с keepOutput, без повторного инференса
+    refilter(options: InferOptions): InferHandle {
+        return this.track(this.client.refilter(options));
+    }
+
+    cancel(id: number): void {
+        this.client.cancel(id);
+    }
+
+    // Полные InferOptions из упрощенных параметров detect
+    inferOptions(options: DetectOptions = {}): InferOptions {
+        const { mode, ...rest } = options;
+        const canSegment = this.metadata.task === 'segment';
+        return {
+            ...rest,
+            threshold: rest.threshold ?? DEFAULT_POSTPROCESS_OPTIONS.threshold,
+            enableMasks: canSegment && (mode ?? 'segmentation') === 'segmentation'
+        };
+    }
+
+    // Останавливает воркер; после этого детектор больше не работает
+    dispose(): void {
+        this.client.terminate();
+        this.info = null;
+        this.loading = null;
+    }
+
+    private track(handle: InferHandle): InferHandle {
+        const promise = handle.promise.then(
+            result => {
+                if (result) this.emit('result', result);
+                return result;
+            },
+            error => {
+                throw this.fail(error);
+            }
+        );
+        return { id: handle.id, promise };
+    }
+
+    private fail(error: unknown): Error {
+        const reason = toError(error);
+        this.emit('error', reason);
+        return reason;
+    }
+
+    private emit<K extends keyof RimDetectorEventMap>(type: K, detail: RimDetectorEventMap[K]['detail']): void {
+        this.dispatchEvent(new CustomEvent(type, { detail }));
+    }
+}
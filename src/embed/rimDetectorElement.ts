@@ -0,0 +1,257 @@
+import { getClassColors } from '../core/browser';
+import type { Detection, InferenceResult } from '../core/browser';
+import { DEFAULT_RENDER_OPTIONS, drawDetections } from '../utils/draw';
+import type { RenderOptions } from '../utils/draw';
+import type { LoadedModelInfo } from '../worker/client';
+import { DEFAULT_MODEL_URL, RimDetector, parseBackendOptions } from './rimDetector';
+import type { DetectMode, DetectOptions, DetectSource } from './rimDetector';
+
+const TEMPLATE = `
+<style>
+    :host { display: inline-block; }
+    :host([hidden]) { display: none; }
+    canvas { display: block; max-width: 100%; height: auto; }
+</style>
+<canvas part="canvas"></canvas>
+`;
+
+// События, которые элемент пробрасывает от своего RimDetector наружу
+const FORWARDED_EVENTS = ['loadprogress', 'ready', 'error'] as const;
+
+// Атрибуты, которые меняют только отрисовку, а не сами детекции
+const STYLE_ATTRIBUTES = ['hide-boxes', 'hide-scores', 'mask-style', 'mask-opacity', 'box-style', 'font-size'];
+
+function clampAttribute(value: string | null, fallback: number, min: number, max: number): number {
+    const number = value !== null && value.trim() !== '' ? Number(value) : NaN;
+    return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+}
+
+// <rim-detector model="./model/model.json" src="car.jpg" mode="segmentation" threshold="0.4">
+// Загружает модель при вставке в документ, показывает кадр с разметкой на своем canvas
+// и шлет всплывающие события loadprogress, ready, result и error.
+// Модель живет в воркере элемента; чтобы освободить память, вызовите element.detector.dispose().
+export class RimDetectorElement extends HTMLElement {
+    static observedAttributes = ['model', 'backend', 'src', 'mode', 'threshold', ...STYLE_ATTRIBUTES];
+
+    readonly detector = new RimDetector();
+    private canvas: HTMLCanvasElement;
+    private loading: Promise<LoadedModelInfo> | null = null;
+    private reloadScheduled = false;
+    private frame: ImageBitmap | null = null;
+    private lastResult: InferenceResult | null = null;
+    private lastOptions: DetectOptions = {};
+    private activeJobId: number | null = null;
+
+    constructor() {
+        super();
+        const shadow = this.attachShadow({ mode: 'open' });
+        shadow.innerHTML = TEMPLATE;
+        this.canvas = shadow.querySelector('canvas')!;
+
+        for (const type of FORWARDED_EVENTS) {
+            this.detector.addEventListener(type, event => {
+                this.emit(type, (event as CustomEvent).detail);
+            });
+        }
+    }
+
+    get model(): string {
+        return this.getAttribute('model') || DEFAULT_MODEL_URL;
+    }
+
+    set model(value: string) {
+        this.setAttribute('model', value);
+    }
+
+    // Без масок у модели режим сегментации работает как детекция
+    get mode(): DetectMode {
+        return this.getAttribute('mode') === 'detection' ? 'detection' : 'segmentation';
+    }
+
+    set mode(value: DetectMode) {
+        this.setAttribute('mode', value);
+    }
+
+    get threshold(): number | undefined {
+        const threshold = clampAttribute(this.getAttribute('threshold'), NaN, 0, 1);
+        return Number.isNaN(threshold) ? undefined : threshold;
+    }
+
+    set threshold(value: number) {
+        this.setAttribute('threshold', String(value));
+    }
+
+    // Результат последнего показанного кадра
+    get result(): InferenceResult | null {
+        return this.lastResult;
+    }
+
+    get detections(): Detection[] {
+        return this.lastResult?.detections ?? [];
+    }
+
+    connectedCallback(): void {
+        if (!this.loading) {
+            this.load();
+        }
+        if (this.hasAttribute('src') && !this.frame) {
+            this.detectSrc();
+        }
+    }
+
+    disconnectedCallback(): void {
+        this.cancelActiveJob();
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, value: string | null): void {
+        if (oldValue === value || !this.isConnected) return;
+
+        if (name === 'model' || name === 'backend') {
+            this.scheduleLoad();
+        } else if (name === 'src') {
+            this.detectSrc();
+        } else if (name === 'mode' || name === 'threshold') {
+            this.redetect();
+        } else {
+            this.render();
+        }
+    }
+
+    // (Пере)загружает модель из атрибутов model и backend. Ошибка уходит и событием error;
+    // после нее следующий detect пробует загрузить модель заново
+    load(): Promise<LoadedModelInfo> {
+        const loading = this.detector.load(this.model, parseBackendOptions(this.getAttribute('backend')));
+        this.loading = loading;
+        loading.catch(error => {
+            if (this.loading === loading) this.loading = null;
+            console.error('Ошибка загрузки модели:', error);
+        });
+        return loading;
+    }
+
+    // model и backend часто меняют подряд: все изменения одной задачи дают одну загрузку.
+    // До ее старта detect ждет уже ее, а не прежнюю модель
+    private scheduleLoad(): void {
+        if (this.reloadScheduled) return;
+        this.reloadScheduled = true;
+        const loading = Promise.resolve().then(() => {
+            this.reloadScheduled = false;
+            return this.load();
+        });
+        this.loading = loading;
+        loading.then(() => this.redetect(), () => {});
+    }
+
+    // Ищет объекты и показывает кадр с разметкой. Параметры options важнее атрибутов.
+    // Если пока шел запрос, пришел новый кадр, старый результат возвращается, но не рисуется.
+    async detect(source: DetectSource, options: DetectOptions = {}): Promise<Detection[]> {
+        await (this.loading ?? this.load());
+
+        let frame: ImageBitmap;
+        let copy: ImageBitmap;
+        try {
+            frame = await createImageBitmap(source);
+            // Воркер забирает кадр себе, а показывать и перерисовывать нужно оригинал
+            copy = await createImageBitmap(frame);
+        } catch (error) {
+            const reason = error instanceof Error ? error : new Error(String(error));
+            this.emit('error', reason);
+            throw reason;
+        }
+
+        this.cancelActiveJob();
+        this.setFrame(frame);
+        this.lastOptions = options;
+
+        const job = this.detector.infer(copy, this.detector.inferOptions({
+            mode: this.mode,
+            threshold: this.threshold,
+            ...options
+        }));
+        this.activeJobId = job.id;
+
+        const result = await job.promise;
+        if (!result || this.activeJobId !== job.id) return result?.detections ?? [];
+        this.activeJobId = null;
+
+        this.lastResult = result;
+        this.render();
+        this.emit('result', result);
+        return result.detections;
+    }
+
+    private async detectSrc(): Promise<void> {
+        const src = this.getAttribute('src');
+        if (!src) return;
+
+        const image = new Image();
+        image.crossOrigin = 'anonymous';
+        image.src = src;
+        try {
+            await image.decode();
+        } catch {
+            this.emit('error', new Error(`Не удалось загрузить изображение ${src}`));
+            return;
+        }
+        // Источник могли сменить, пока картинка грузилась
+        if (this.getAttribute('src') !== src) return;
+        this.detect(image).catch(error => console.error('Ошибка при обработке изображения:', error));
+    }
+
+    // Тот же кадр с новыми режимом или порогом
+    private redetect(): void {
+        if (!this.frame || !this.detector.isReady) return;
+        this.detect(this.frame, this.lastOptions).catch(error => console.error('Ошибка при обработке изображения:', error));
+    }
+
+    private setFrame(frame: ImageBitmap): void {
+        this.frame?.close();
+        this.frame = frame;
+        this.lastResult = null;
+        this.render();
+    }
+
+    private cancelActiveJob(): void {
+        if (this.activeJobId !== null) {
+            this.detector.cancel(this.activeJobId);
+            this.activeJobId = null;
+        }
+    }
+
+    private render(): void {
+        const ctx = this.canvas.getContext('2d');
+        if (!ctx || !this.frame) return;
+
+        this.canvas.width = this.frame.width;
+        this.canvas.height = this.frame.height;
+        ctx.drawImage(this.frame, 0, 0);
+        if (this.lastResult) {
+            drawDetections(ctx, this.lastResult, this.detector.metadata.names, this.renderOptions());
+        }
+    }
+
+    private renderOptions(): RenderOptions {
+        const { names, colors } = this.detector.metadata;
+        return {
+            drawMasks: this.mode === 'segmentation',
+            showBoxes: !this.hasAttribute('hide-boxes'),
+            maskStyle: this.getAttribute('mask-style') === 'outline' ? 'outline' : 'fill',
+            maskOpacity: clampAttribute(this.getAttribute('mask-opacity'), DEFAULT_RENDER_OPTIONS.maskOpacity, 0, 1),
+            boxStyle: this.getAttribute('box-style') === 'rect' ? 'rect' : 'ellipse',
+            fontSize: clampAttribute(this.getAttribute('font-size'), DEFAULT_RENDER_OPTIONS.fontSize, 8, 72),
+            showScores: !this.hasAttribute('hide-scores'),
+            colors: getClassColors(names, colors)
+        };
+    }
+
+    // Всплывают и выходят из shadow DOM, чтобы их можно было слушать на предках
+    private emit(type: string, detail: unknown): void {
+        this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+    }
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'rim-detector': RimDetectorElement;
+    }
+}
@@ -1,26 +1,93 @@
 import './style.css';
-import * as tf from '@tensorflow/tfjs';
-import '@tensorflow/tfjs-backend-webgl';
+import { drawDetections, drawRedacted, renderAnnotatedImage, renderRedactedImage } from './utils/draw';
+import type { BoxStyle, MaskStyle, RedactEffect, RedactOptions, RenderOptions } from './utils/draw';
 import {
-  loadModel,
-  preprocessImage,
-  processSegmentation,
-  drawDetections
-} from './utils/segmentation';
-import { LABELS, COLORS } from './utils/labels';
-
-// Установите WebGL бэкенд
-await tf.setBackend('webgl');
-await tf.ready();
-console.log('TensorFlow.js backend:', tf.getBackend());
-
-let model: tf.GraphModel | null = null;
-let isProcessing = false;
+  DEFAULT_METADATA,
+  DEFAULT_MANIFEST,
+  getClassColors,
+  ObjectTracker,
+  buildExport,
+  buildTrainingSet,
+  loadModelManifest,
+  findModel,
+  DEFAULT_TILING_OPTIONS,
+  DEFAULT_TTA_OPTIONS
+} from './core/browser';
+import type {
+  ExportFormat,
+  ExportImage,
+  InferenceResult,
+  ModelEntry,
+  ModelManifest,
+  ModelMetadata,
+  TileMerge,
+  TilingOptions
+} from './core/browser';
+import { FrameStreamer } from './utils/stream';
+import type { StreamStats } from './utils/stream';
+import { BatchRunner, filterImageFiles } from './utils/batch';
+import type { BatchItem, BatchProgress } from './utils/batch';
+import {
+  DEFAULT_FILTER_SETTINGS,
+  filterQuery,
+  loadFilterSettings,
+  saveFilterSettings,
+  toPostprocessOptions
+} from './utils/filterSettings';
+import type { FilterSettings } from './utils/filterSettings';
+import { BatchTable } from './ui/batchTable';
+import { downloadFile } from './ui/download';
+import { renderObjectPanel } from './ui/objectPanel';
+import { ResultEditor } from './ui/editor';
+import { DebugPanel } from './ui/debugPanel';
+import { renderClassFilter } from './ui/classFilter';
+import type { EditorTool } from './ui/editor';
+import { RimDetector, parseBackendOptions } from './embed/rimDetector';
+import type {
+  BackendTiming,
+  EnsembleOptions,
+  InferOptions,
+  InferenceStage
+} from './worker/protocol';
+
+// Модель и весь конвейер живут в воркере детектора, главный поток только рисует.
+// Страница пользуется тем же RimDetector, что и встраиваемый <rim-detector>.
+const detector = new RimDetector();
+
+let modelReady = false;
+let manifest: ModelManifest = DEFAULT_MANIFEST;
+let metadata: ModelMetadata = DEFAULT_METADATA;
+let activeBackend = '';
+let activeJobId: number | null = null;
 let currentMode: 'detection' | 'segmentation' = 'detection';
-let currentThreshold = 0.5; // значение по умолчанию
+// Пороги и фильтры: сохраненные в localStorage, поверх них - параметры из ссылки
+let filterSettings: FilterSettings = loadFilterSettings(browserStorage(), location.search);
+// Сырой выход модели для открытого изображения лежит в воркере: смена фильтров его только перефильтровывает
+let canRefilter = false;
+let streamer: FrameStreamer | null = null;
+let cameraStream: MediaStream | null = null;
+const tracker = new ObjectTracker();
+let batchRunner: BatchRunner | null = null;
+let sourceObjectUrl: string | null = null;
+let currentFileName = 'image';
+let currentFile: File | null = null; // исходный файл нужен для датасета с исправленной разметкой
+let currentResult: ExportImage | null = null;
+// Последний отрисованный кадр: смена стиля перерисовывает его без повторного инференса
+let lastRender: { source: CanvasImageSource; result: InferenceResult } | null = null;
+
+const STAGE_NAMES: Record<InferenceStage, string> = {
+  queued: 'В очереди',
+  preprocess: 'Предобработка',
+  inference: 'Инференс',
+  postprocess: 'Постобработка'
+};
 
 const elements = {
   status: document.getElementById('status') as HTMLDivElement,
+  modelSelect: document.getElementById('modelSelect') as HTMLSelectElement,
+  backendSelect: document.getElementById('backendSelect') as HTMLSelectElement,
+  modelDescription: document.getElementById('modelDescription') as HTMLSpanElement,
+  segmentationModeLabel: document.getElementById('segmentationModeLabel') as HTMLLabelElement,
   imageUpload: document.getElementById('imageUpload') as HTMLInputElement,
   sourceImage: document.getElementById('sourceImage') as HTMLImageElement,
   canvas: document.getElementById('canvas') as HTMLCanvasElement,
@@ -28,27 +95,175 @@ const elements = {
   inferenceTime: document.getElementById('inferenceTime') as HTMLDivElement,
   modeRadios: document.querySelectorAll('input[name="mode"]') as NodeListOf<HTMLInputElement>,
   showBoxes: document.getElementById('showBoxes') as HTMLInputElement,
+  ttaEnabled: document.getElementById('ttaEnabled') as HTMLInputElement,
+  ensembleEnabled: document.getElementById('ensembleEnabled') as HTMLInputElement,
+  debugEnabled: document.getElementById('debugEnabled') as HTMLInputElement,
+  debugPanel: document.getElementById('debugPanel') as HTMLElement,
   thresholdRange: document.getElementById('thresholdRange') as HTMLInputElement,
-  thresholdValue: document.getElementById('thresholdValue') as HTMLSpanElement
+  thresholdValue: document.getElementById('thresholdValue') as HTMLSpanElement,
+  iouRange: document.getElementById('iouRange') as HTMLInputElement,
+  iouValue: document.getElementById('iouValue') as HTMLSpanElement,
+  maskThresholdRange: document.getElementById('maskThresholdRange') as HTMLInputElement,
+  maskThresholdValue: document.getElementById('maskThresholdValue') as HTMLSpanElement,
+  maxDetections: document.getElementById('maxDetections') as HTMLInputElement,
+  agnosticNms: document.getElementById('agnosticNms') as HTMLInputElement,
+  resetFiltersButton: document.getElementById('resetFiltersButton') as HTMLButtonElement,
+  classFilters: document.getElementById('classFilters') as HTMLDivElement,
+  cameraButton: document.getElementById('cameraButton') as HTMLButtonElement,
+  videoUpload: document.getElementById('videoUpload') as HTMLInputElement,
+  stopStreamButton: document.getElementById('stopStreamButton') as HTMLButtonElement,
+  sourceVideo: document.getElementById('sourceVideo') as HTMLVideoElement,
+  streamStats: document.getElementById('streamStats') as HTMLDivElement,
+  batchUpload: document.getElementById('batchUpload') as HTMLInputElement,
+  folderUpload: document.getElementById('folderUpload') as HTMLInputElement,
+  cancelBatchButton: document.getElementById('cancelBatchButton') as HTMLButtonElement,
+  batchProgressBlock: document.getElementById('batchProgressBlock') as HTMLDivElement,
+  batchProgress: document.getElementById('batchProgress') as HTMLProgressElement,
+  batchStatus: document.getElementById('batchStatus') as HTMLSpanElement,
+  batchResults: document.getElementById('batchResults') as HTMLDivElement,
+  exportFormat: document.getElementById('exportFormat') as HTMLSelectElement,
+  exportButton: document.getElementById('exportButton') as HTMLButtonElement,
+  exportBatchButton: document.getElementById('exportBatchButton') as HTMLButtonElement,
+  maskStyle: document.getElementById('maskStyle') as HTMLSelectElement,
+  maskOpacity: document.getElementById('maskOpacity') as HTMLInputElement,
+  maskOpacityValue: document.getElementById('maskOpacityValue') as HTMLSpanElement,
+  boxStyle: document.getElementById('boxStyle') as HTMLSelectElement,
+  fontSize: document.getElementById('fontSize') as HTMLInputElement,
+  hideScores: document.getElementById('hideScores') as HTMLInputElement,
+  redactEnabled: document.getElementById('redactEnabled') as HTMLInputElement,
+  redactTarget: document.getElementById('redactTarget') as HTMLSelectElement,
+  redactEffect: document.getElementById('redactEffect') as HTMLSelectElement,
+  redactStrength: document.getElementById('redactStrength') as HTMLInputElement,
+  redactFeather: document.getElementById('redactFeather') as HTMLInputElement,
+  redactColor: document.getElementById('redactColor') as HTMLInputElement,
+  tilingEnabled: document.getElementById('tilingEnabled') as HTMLInputElement,
+  tileSize: document.getElementById('tileSize') as HTMLInputElement,
+  tileOverlap: document.getElementById('tileOverlap') as HTMLInputElement,
+  tileMerge: document.getElementById('tileMerge') as HTMLSelectElement,
+  tileIncludeFull: document.getElementById('tileIncludeFull') as HTMLInputElement,
+  imageFormat: document.getElementById('imageFormat') as HTMLSelectElement,
+  downloadImageButton: document.getElementById('downloadImageButton') as HTMLButtonElement,
+  objectPanel: document.getElementById('objectPanel') as HTMLElement,
+  editorTooltip: document.getElementById('editorTooltip') as HTMLDivElement,
+  editEnabled: document.getElementById('editEnabled') as HTMLInputElement,
+  editTool: document.getElementById('editTool') as HTMLSelectElement,
+  brushSize: document.getElementById('brushSize') as HTMLInputElement,
+  editClass: document.getElementById('editClass') as HTMLSelectElement,
+  deleteButton: document.getElementById('deleteButton') as HTMLButtonElement,
+  undoButton: document.getElementById('undoButton') as HTMLButtonElement,
+  redoButton: document.getElementById('redoButton') as HTMLButtonElement,
+  saveTrainingButton: document.getElementById('saveTrainingButton') as HTMLButtonElement
 };
 
+const batchTable = new BatchTable(elements.batchResults, openBatchItem);
+const editor = new ResultEditor(elements.canvas, elements.editorTooltip, handleEditorChange);
+const debugPanel = new DebugPanel(elements.debugPanel, redrawLastResult);
+
 async function initModel(): Promise<void> {
-  try {
-    console.log('Загрузка модели YOLO11n-seg...');
-    const t0 = performance.now();
-    model = await loadModel('./model/model.json');
-    const t1 = performance.now();
+  manifest = await loadModelManifest();
+
+  elements.modelSelect.innerHTML = '';
+  for (const model of manifest.models) {
+    const option = document.createElement('option');
+    option.value = model.id;
+    option.textContent = model.name;
+    elements.modelSelect.appendChild(option);
+  }
+
+  await switchModel(findModel(manifest, manifest.default));
+}
+
+function setInputsEnabled(enabled: boolean): void {
+  elements.imageUpload.disabled = !enabled;
+  elements.cameraButton.disabled = !enabled;
+  elements.videoUpload.disabled = !enabled;
+  elements.batchUpload.disabled = !enabled;
+  elements.folderUpload.disabled = !enabled;
+  elements.modelSelect.disabled = !enabled;
+  elements.backendSelect.disabled = !enabled;
+}
+
+function formatBenchmark(benchmark: BackendTiming[]): string {
+  return benchmark.map(({ backend, time }) => `${backend} ${time.toFixed(0)}мс`).join(', ');
+}
+
+// Смена модели: воркер освобождает старую GraphModel, загружает и прогревает новую
+async function switchModel(model: ModelEntry): Promise<void> {
+  modelReady = false;
+  canRefilter = false;
+  setInputsEnabled(false);
+  stopStream();
+  batchRunner?.cancel();
+  if (activeJobId !== null) {
+    detector.cancel(activeJobId);
+    activeJobId = null;
+  }
 
-    elements.status.textContent = `✅ Модель готова к работе (загружена за ${(t1 - t0).toFixed(0)}мс)`;
+  elements.modelSelect.value = model.id;
+  elements.modelDescription.textContent = model.description ?? '';
+  elements.status.classList.remove('ready', 'error');
+  elements.status.textContent = `⏳ Загрузка модели ${model.name}...`;
+
+  try {
+    console.log(`Загрузка модели ${model.name} (${model.url})...`);
+    const info = await detector.load(model.url, parseBackendOptions(elements.backendSelect.value));
+    metadata = info.metadata;
+    activeBackend = info.backend;
+    applyModelTask();
+    updateEnsembleInput();
+    modelReady = true;
+
+    const source = info.fromCache ? ', из кэша' : '';
+    const benchmark = info.benchmark.length > 0 ? `; бенчмарк: ${formatBenchmark(info.benchmark)}` : '';
+    elements.status.textContent = `✅ ${model.name} готова к работе (загружена за ${info.loadTime.toFixed(0)}мс${source}, ${info.backend}${benchmark})`;
     elements.status.classList.add('ready');
-    elements.imageUpload.disabled = false;
+    console.log('Модель загружена успешно, бэкенд воркера:', info.backend);
 
-    console.log('Модель загружена успешно');
+    // Открытое изображение сразу пересчитываем новой моделью
+    if (elements.sourceImage.src) {
+      detectAndSegment(elements.sourceImage);
+    }
   } catch (error) {
     console.error('Ошибка загрузки модели:', error);
-    elements.status.textContent = '❌ Ошибка загрузки модели';
+    elements.status.textContent = `❌ Ошибка загрузки модели ${model.name}`;
     elements.status.classList.add('error');
+  } finally {
+    setInputsEnabled(modelReady);
+    // Даже после ошибки можно выбрать другую модель или бэкенд
+    elements.modelSelect.disabled = manifest.models.length < 2;
+    elements.backendSelect.disabled = false;
+  }
+}
+
+// У detect-модели нет масок - режим сегментации для нее недоступен
+function applyModelTask(): void {
+  const canSegment = metadata.task === 'segment';
+  elements.modeRadios.forEach(radio => {
+    if (radio.value === 'segmentation') radio.disabled = !canSegment;
+    if (!canSegment) radio.checked = radio.value === 'detection';
+  });
+  elements.segmentationModeLabel.title = canSegment ? '' : 'Выбранная модель умеет только детекцию';
+  if (!canSegment) {
+    currentMode = 'detection';
   }
+
+  showFilterSettings();
+
+  elements.editClass.innerHTML = '';
+  metadata.names.forEach((name, classId) => elements.editClass.add(new Option(name, String(classId))));
+  updateEditorControls();
+}
+
+// Доля скачанных весов модели, выбранной в списке
+function handleLoadProgress(event: Event): void {
+  const { detail: fraction } = event as CustomEvent<number>;
+  const model = findModel(manifest, elements.modelSelect.value);
+  elements.status.textContent = `⏳ Загрузка модели ${model.name}: ${(fraction * 100).toFixed(0)}%`;
+}
+
+// Смена бэкенда тоже перезагружает модель: веса живут в памяти конкретного бэкенда
+function handleModelChange(): void {
+  switchModel(findModel(manifest, elements.modelSelect.value));
 }
 
 // ДОБАВЛЕНО: Обработчик изменения режима
@@ -57,154 +272,728 @@ function handleModeChange(event: Event): void {
   currentMode = target.value as 'detection' | 'segmentation';
   console.log('Режим изменен на:', currentMode);
 
-  // Если изображение уже загружено, перерисовать
-  if (elements.sourceImage.src && !isProcessing) {
-    detectAndSegment(elements.sourceImage);
-  }
+  // Прототипы масок есть в сохраненном выходе и в режиме детекции - модель заново не нужна
+  updateCurrentImage();
 }
 
 async function handleImageUpload(event: Event): Promise<void> {
   const target = event.target as HTMLInputElement;
   const file = target.files?.[0];
 
-  if (!file || !model || isProcessing) return;
+  if (!file || !modelReady) return;
 
-  const reader = new FileReader();
-  reader.onload = (e: ProgressEvent<FileReader>) => {
-    if (!e.target?.result) return;
+  stopStream();
 
-    elements.sourceImage.src = e.target.result as string;
-    elements.sourceImage.onload = () => detectAndSegment(elements.sourceImage);
-  };
-  reader.readAsDataURL(file);
+  currentFileName = file.name;
+  currentFile = file;
+  showSourceFile(file, () => detectAndSegment(elements.sourceImage));
 }
 
+// Показывает файл в sourceImage; object URL не держит копию изображения в памяти JS
+function showSourceFile(file: File, onLoad: () => void): void {
+  if (sourceObjectUrl) {
+    URL.revokeObjectURL(sourceObjectUrl);
+  }
+  sourceObjectUrl = URL.createObjectURL(file);
+  elements.sourceImage.onload = onLoad;
+  elements.sourceImage.src = sourceObjectUrl;
+}
+
+// Стиль отрисовки не влияет на детекции - просто перерисовываем последний результат
 function handleDisplayOptionChange(): void {
-  if (elements.sourceImage.src && !isProcessing) {
-    detectAndSegment(elements.sourceImage);
+  elements.maskOpacityValue.textContent = parseFloat(elements.maskOpacity.value).toFixed(2);
+
+  if (lastRender && !streamer?.isRunning) {
+    renderResult(lastRender.source, lastRender.result);
   }
 }
 
-function handleThresholdChange(): void {
-  const val = parseFloat(elements.thresholdRange.value);
-  currentThreshold = val;
-  elements.thresholdValue.textContent = val.toFixed(2);
+// null - режим скрытия выключен
+function redactOptions(): RedactOptions | null {
+  if (!elements.redactEnabled.checked) return null;
+  const strength = parseInt(elements.redactStrength.value, 10);
+  const feather = parseInt(elements.redactFeather.value, 10);
+  return {
+    effect: elements.redactEffect.value as RedactEffect,
+    target: elements.redactTarget.value as RedactOptions['target'],
+    strength: Number.isFinite(strength) ? Math.min(200, Math.max(2, strength)) : 24,
+    feather: Number.isFinite(feather) ? Math.min(100, Math.max(0, feather)) : 6,
+    fillColor: elements.redactColor.value
+  };
+}
+
+function handleRedactChange(): void {
+  const enabled = elements.redactEnabled.checked;
+  elements.redactTarget.disabled = !enabled;
+  elements.redactEffect.disabled = !enabled;
+  elements.redactStrength.disabled = !enabled || elements.redactEffect.value === 'fill';
+  elements.redactFeather.disabled = !enabled;
+  elements.redactColor.disabled = !enabled || elements.redactEffect.value !== 'fill';
+  handleDisplayOptionChange();
+}
 
-  if (elements.sourceImage.src && !isProcessing) {
-    detectAndSegment(elements.sourceImage);
+function renderOptions(): RenderOptions {
+  const fontSize = parseInt(elements.fontSize.value, 10);
+  return {
+    drawMasks: currentMode === 'segmentation',
+    showBoxes: elements.showBoxes.checked,
+    maskStyle: elements.maskStyle.value as MaskStyle,
+    maskOpacity: parseFloat(elements.maskOpacity.value),
+    boxStyle: elements.boxStyle.value as BoxStyle,
+    fontSize: Number.isFinite(fontSize) ? Math.min(72, Math.max(8, fontSize)) : 16,
+    showScores: !elements.hideScores.checked,
+    colors: getClassColors(metadata.names, metadata.colors)
+  };
+}
+
+function browserStorage(): Storage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    return null; // хранилище запрещено настройками браузера
   }
 }
 
+// Ползунки и список классов по текущим настройкам
+function showFilterSettings(): void {
+  const settings = filterSettings;
+  elements.thresholdRange.value = String(settings.threshold);
+  elements.thresholdValue.textContent = settings.threshold.toFixed(2);
+  elements.iouRange.value = String(settings.iouThreshold);
+  elements.iouValue.textContent = settings.iouThreshold.toFixed(2);
+  elements.maskThresholdRange.value = String(settings.maskThreshold);
+  elements.maskThresholdValue.textContent = settings.maskThreshold.toFixed(2);
+  elements.maxDetections.value = String(settings.maxDetections);
+  elements.agnosticNms.checked = settings.agnosticNms;
+  renderClassFilter(elements.classFilters, metadata.names, settings, handleClassFilterChange);
+}
 
-async function detectAndSegment(img: HTMLImageElement): Promise<void> {
-  if (!model || isProcessing) return;
+// Настройки сохраняются и попадают в адрес страницы, чтобы ссылкой можно было поделиться
+function applyFilterSettings(settings: FilterSettings, redrawClasses: boolean = true): void {
+  filterSettings = settings;
+  saveFilterSettings(browserStorage(), settings);
 
-  isProcessing = true;
-  elements.processing.style.display = 'block';
-  elements.inferenceTime.style.display = 'none';
-  elements.imageUpload.disabled = true;
+  const url = new URL(location.href);
+  url.search = filterQuery(settings).toString();
+  history.replaceState(history.state, '', url);
+
+  if (redrawClasses) {
+    showFilterSettings();
+  }
+  updateCurrentImage();
+}
 
-  elements.modeRadios.forEach(radio => radio.disabled = true);
-  // ДОБАВЛЕНО: Отключаем чекбоксы во время обработки
-  elements.showBoxes.disabled = true;
+function handleFilterChange(): void {
+  const maxDetections = parseInt(elements.maxDetections.value, 10);
+  applyFilterSettings({
+    ...filterSettings,
+    threshold: parseFloat(elements.thresholdRange.value),
+    iouThreshold: parseFloat(elements.iouRange.value),
+    maskThreshold: parseFloat(elements.maskThresholdRange.value),
+    maxDetections: Number.isFinite(maxDetections) ? Math.max(1, maxDetections) : DEFAULT_FILTER_SETTINGS.maxDetections,
+    agnosticNms: elements.agnosticNms.checked
+  });
+}
 
+// Строки классов сами обновляют свои элементы, список не перерисовывается, пока тянут ползунок
+function handleClassFilterChange(update: (settings: FilterSettings) => FilterSettings): FilterSettings {
+  applyFilterSettings(update(filterSettings), false);
+  return filterSettings;
+}
+
+function handleResetFilters(): void {
+  applyFilterSettings(DEFAULT_FILTER_SETTINGS);
+}
+
+// Пересчет открытого изображения после смены настроек; поток подхватит их со следующего кадра
+function updateCurrentImage(): void {
+  if (!elements.sourceImage.src || streamer?.isRunning || !modelReady) return;
+  if (canRefilter) {
+    refilterCurrentImage();
+  } else {
+    detectAndSegment(elements.sourceImage);
+  }
+}
+
+
+// Рисует кадр и найденные объекты на основном canvas
+function renderResult(source: CanvasImageSource, result: InferenceResult): void {
   const ctx = elements.canvas.getContext('2d');
   if (!ctx) return;
 
-  elements.canvas.width = img.width;
-  elements.canvas.height = img.height;
-  ctx.drawImage(img, 0, 0);
+  elements.canvas.width = result.width;
+  elements.canvas.height = result.height;
+
+  // Скрытый кадр готовится к публикации - разметку поверх не рисуем
+  const redact = redactOptions();
+  if (redact) {
+    drawRedacted(ctx, source, result, redact);
+  } else {
+    ctx.drawImage(source, 0, 0, result.width, result.height);
+    drawDetections(ctx, result, metadata.names, renderOptions());
+  }
+  editor.drawOverlay(ctx);
+  debugPanel.drawOverlay(ctx, result);
+  renderObjectPanel(elements.objectPanel, result.detections, metadata.names);
+  lastRender = { source, result };
+  elements.downloadImageButton.disabled = false;
+}
+
+// Сохраняет изображение с разметкой в исходном разрешении
+async function handleDownloadImage(): Promise<void> {
+  if (!lastRender) return;
+
+  const { source, result } = lastRender;
+  const type = elements.imageFormat.value;
+  const redact = redactOptions();
+  const canvas = redact
+    ? renderRedactedImage(source, result, redact)
+    : renderAnnotatedImage(source, result, metadata.names, renderOptions());
+  const blob = await canvas.convertToBlob({ type, quality: 0.92 });
+
+  const stem = currentFileName.replace(/\.[^.]+$/, '');
+  const extension = type === 'image/jpeg' ? 'jpg' : 'png';
+  downloadFile(`${stem}_${redact ? 'redacted' : 'annotated'}.${extension}`, blob, type);
+}
+
+function inferOptions(): InferOptions {
+  return {
+    ...toPostprocessOptions(filterSettings, metadata.names),
+    enableMasks: currentMode === 'segmentation',
+    tiling: tilingOptions(),
+    tta: ensembleOptions()
+  };
+}
+
+// Остальные модели списка: воркер сам проверит, что классы у них те же
+function ensembleModels(): ModelEntry[] {
+  return manifest.models.filter(model => model.id !== elements.modelSelect.value);
+}
+
+function ensembleOptions(): EnsembleOptions | undefined {
+  if (!elements.ttaEnabled.checked) return undefined;
+  const models = elements.ensembleEnabled.checked
+    ? ensembleModels().map(model => new URL(model.url, document.baseURI).href)
+    : [];
+  return { ...DEFAULT_TTA_OPTIONS, models };
+}
+
+// TTA и нарезка на тайлы взаимоисключающие: вместе это десятки прогонов на кадр
+function handleTtaChange(): void {
+  if (elements.ttaEnabled.checked && elements.tilingEnabled.checked) {
+    elements.tilingEnabled.checked = false;
+    updateTilingInputs();
+  }
+  updateEnsembleInput();
+
+  if (elements.sourceImage.src && !streamer?.isRunning) {
+    detectAndSegment(elements.sourceImage);
+  }
+}
+
+function updateEnsembleInput(): void {
+  elements.ensembleEnabled.disabled = !elements.ttaEnabled.checked || ensembleModels().length === 0;
+}
+
+function tilingOptions(): TilingOptions | undefined {
+  if (!elements.tilingEnabled.checked) return undefined;
+  const tileSize = parseInt(elements.tileSize.value, 10);
+  const overlap = parseFloat(elements.tileOverlap.value);
+  return {
+    ...DEFAULT_TILING_OPTIONS,
+    tileSize: Number.isFinite(tileSize) && tileSize > 0 ? tileSize : DEFAULT_TILING_OPTIONS.tileSize,
+    overlap: Number.isFinite(overlap) ? Math.min(Math.max(overlap, 0), 0.9) : DEFAULT_TILING_OPTIONS.overlap,
+    merge: elements.tileMerge.value as TileMerge,
+    includeFull: elements.tileIncludeFull.checked
+  };
+}
+
+function updateTilingInputs(): void {
+  const enabled = elements.tilingEnabled.checked;
+  elements.tileSize.disabled = !enabled;
+  elements.tileOverlap.disabled = !enabled;
+  elements.tileMerge.disabled = !enabled;
+  elements.tileIncludeFull.disabled = !enabled;
+}
+
+// Параметры нарезки меняют сами детекции, поэтому изображение пересчитывается
+function handleTilingChange(): void {
+  if (elements.tilingEnabled.checked && elements.ttaEnabled.checked) {
+    elements.ttaEnabled.checked = false;
+    updateEnsembleInput();
+  }
+  updateTilingInputs();
+
+  if (elements.sourceImage.src && !streamer?.isRunning) {
+    detectAndSegment(elements.sourceImage);
+  }
+}
+
+function showTimings(result: InferenceResult, drawTime: number): void {
+  const { preprocess, inference, postprocess, total } = result.timings;
+  const totalTime = total + drawTime;
+
+  const modeEmoji = currentMode === 'segmentation' ? '🎨' : '🎯';
+  const modeName = currentMode === 'segmentation' ? 'Сегментация' : 'Детектирование';
+
+  elements.inferenceTime.innerHTML = `
+    ${modeEmoji} <strong>Режим: ${modeName}</strong> | ⚙️ Бэкенд: ${activeBackend}<br>
+    ⚡ <strong>Время обработки:</strong><br>
+    • Предобработка: ${preprocess.toFixed(1)}мс<br>
+    • Инференс: ${inference.toFixed(1)}мс<br>
+    • Постобработка: ${postprocess.toFixed(1)}мс<br>
+    • Отрисовка: ${drawTime.toFixed(1)}мс<br>
+    • <strong>Всего: ${totalTime.toFixed(1)}мс</strong> | Найдено объектов: ${result.detections.length}
+  `;
+  elements.inferenceTime.style.display = 'block';
+}
+
+async function detectAndSegment(img: HTMLImageElement): Promise<void> {
+  if (!modelReady) return;
+
+  // Новый запрос вытесняет еще не завершенный предыдущий для того же изображения
+  if (activeJobId !== null) {
+    detector.cancel(activeJobId);
+  }
+
+  elements.processing.style.display = 'block';
+  elements.processing.textContent = `🔄 ${STAGE_NAMES.queued}...`;
+  canRefilter = false;
 
   try {
-    const totalStart = performance.now();
-
-    const preprocessStart = performance.now();
-    const { tensor, scale, padL, padT } = preprocessImage(img);
-    const preprocessEnd = performance.now();
-
-    const inferenceStart = performance.now();
-    const predictions = model.execute(tensor) as tf.Tensor | tf.Tensor[];
-    const inferenceEnd = performance.now();
-
-    const postprocessStart = performance.now();
-    const results = await processSegmentation(
-      predictions,
-      img.width,
-      img.height,
-      scale,
-      padL,
-      padT,
-      currentThreshold,
-      currentMode === 'segmentation'
+    const bitmap = await createImageBitmap(img);
+    const options = inferOptions();
+    // Выход тайлов и TTA не сохраняется: их результат - слияние многих прогонов
+    const keepOutput = !options.tiling && !options.tta;
+    const job = detector.infer(
+      bitmap,
+      { ...options, keepOutput, debug: elements.debugEnabled.checked },
+      (stage) => {
+        if (activeJobId === job.id) {
+          elements.processing.textContent = `🔄 ${STAGE_NAMES[stage]}...`;
+        }
+      }
     );
-    const postprocessEnd = performance.now();
+    activeJobId = job.id;
+
+    const result = await job.promise;
+    // Отмененный или устаревший результат не рисуем
+    if (!result || activeJobId !== job.id) return;
+    canRefilter = keepOutput;
 
     const drawStart = performance.now();
-    drawDetections(
-      ctx,
-      results,
-      LABELS,
-      COLORS,
-      img.width,
-      img.height,
-      scale,
-      padL,
-      padT,
-      currentMode === 'segmentation',
-      elements.showBoxes.checked // ДОБАВЛЕНО
-    );
+    renderResult(img, result);
     const drawEnd = performance.now();
+    setCurrentResult({ fileName: currentFileName, result });
 
-    const totalEnd = performance.now();
-
-    const preprocessTime = preprocessEnd - preprocessStart;
-    const inferenceTime = inferenceEnd - inferenceStart;
-    const postprocessTime = postprocessEnd - postprocessStart;
+    const { preprocess, inference, postprocess, total } = result.timings;
     const drawTime = drawEnd - drawStart;
-    const totalTime = totalEnd - totalStart;
+    const totalTime = total + drawTime;
 
-    const modeEmoji = currentMode === 'segmentation' ? '🎨' : '🎯';
     const modeName = currentMode === 'segmentation' ? 'Сегментация' : 'Детектирование';
-
-    elements.inferenceTime.innerHTML = `
-      ${modeEmoji} <strong>Режим: ${modeName}</strong><br>
-      ⚡ <strong>Время обработки:</strong><br>
-      • Предобработка: ${preprocessTime.toFixed(1)}мс<br>
-      • Инференс: ${inferenceTime.toFixed(1)}мс<br>
-      • Постобработка: ${postprocessTime.toFixed(1)}мс<br>
-      • Отрисовка: ${drawTime.toFixed(1)}мс<br>
-      • <strong>Всего: ${totalTime.toFixed(1)}мс</strong> | Найдено объектов: ${results.length}
-    `;
-    elements.inferenceTime.style.display = 'block';
+    showTimings(result, drawTime);
 
     console.log(`⚡ Режим: ${modeName}
-      - Предобработка: ${preprocessTime.toFixed(1)}мс
-      - Инференс: ${inferenceTime.toFixed(1)}мс
-      - Постобработка: ${postprocessTime.toFixed(1)}мс
+      - Предобработка: ${preprocess.toFixed(1)}мс
+      - Инференс: ${inference.toFixed(1)}мс
+      - Постобработка: ${postprocess.toFixed(1)}мс
       - Отрисовка: ${drawTime.toFixed(1)}мс
       - Всего: ${totalTime.toFixed(1)}мс`);
-    console.log(`🎯 Найдено объектов: ${results.length}`);
+    console.log(`🎯 Найдено объектов: ${result.detections.length}`);
 
-    tf.dispose([tensor, predictions]);
+    activeJobId = null;
   } catch (error) {
     console.error('Ошибка при сегментации:', error);
     alert('Произошла ошибка при обработке изображения');
+    activeJobId = null;
+  } finally {
+    if (activeJobId === null) {
+      elements.processing.style.display = 'none';
+    }
+  }
+}
+
+// Новые пороги к сохраненному выходу модели: только постобработка, без инференса
+async function refilterCurrentImage(): Promise<void> {
+  if (activeJobId !== null) {
+    detector.cancel(activeJobId);
+  }
+
+  const job = detector.refilter({ ...inferOptions(), debug: elements.debugEnabled.checked });
+  activeJobId = job.id;
+  try {
+    const result = await job.promise;
+    if (!result || activeJobId !== job.id) return;
+    activeJobId = null;
+
+    const drawStart = performance.now();
+    renderResult(elements.sourceImage, result);
+    setCurrentResult({ fileName: currentFileName, result });
+    showTimings(result, performance.now() - drawStart);
+  } catch (error) {
+    if (activeJobId !== job.id) return;
+    // Выход мог пропасть вместе со сменой модели - тогда запускаем модель заново
+    console.warn('Повторная фильтрация не удалась, запускаем модель:', error);
+    activeJobId = null;
+    canRefilter = false;
+    detectAndSegment(elements.sourceImage);
+  }
+}
+
+// Потоковый режим: камера или видеофайл, кадры идут через тот же воркер
+function startStream(): void {
+  stopStreamLoop();
+  tracker.reset();
+  setCurrentResult(null);
+  canRefilter = false;
+
+  streamer = new FrameStreamer(
+    elements.sourceVideo,
+    (frame) => detector.infer(frame, inferOptions()).promise,
+    (result) => {
+      tracker.update(result.detections);
+      renderResult(elements.sourceVideo, result);
+    },
+    updateStreamStats
+  );
+  streamer.start();
+
+  elements.sourceVideo.style.display = 'block';
+  elements.stopStreamButton.disabled = false;
+  elements.inferenceTime.style.display = 'none';
+}
+
+function stopStreamLoop(): void {
+  streamer?.stop();
+  streamer = null;
+}
+
+function stopStream(): void {
+  stopStreamLoop();
+
+  if (cameraStream) {
+    cameraStream.getTracks().forEach(track => track.stop());
+    cameraStream = null;
+  }
+
+  const video = elements.sourceVideo;
+  video.pause();
+  if (video.src) {
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+  }
+  video.srcObject = null;
+  video.style.display = 'none';
+
+  elements.stopStreamButton.disabled = true;
+  elements.streamStats.style.display = 'none';
+}
+
+async function handleCameraStart(): Promise<void> {
+  if (!modelReady) return;
+  stopStream();
+
+  try {
+    cameraStream = await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: 'environment' },
+      audio: false
+    });
+    elements.sourceVideo.srcObject = cameraStream;
+    elements.sourceVideo.controls = false;
+    await elements.sourceVideo.play();
+    startStream();
+  } catch (error) {
+    console.error('Ошибка доступа к камере:', error);
+    alert('Не удалось получить доступ к камере');
+    stopStream();
+  }
+}
+
+async function handleVideoUpload(event: Event): Promise<void> {
+  const target = event.target as HTMLInputElement;
+  const file = target.files?.[0];
+
+  if (!file || !modelReady) return;
+  stopStream();
+
+  elements.sourceVideo.src = URL.createObjectURL(file);
+  // Видео можно ставить на паузу и перематывать - кадры обрабатываются по мере показа
+  elements.sourceVideo.controls = true;
+  elements.sourceVideo.loop = true;
+  try {
+    await elements.sourceVideo.play();
+  } catch (error) {
+    console.warn('Автовоспроизведение недоступно:', error);
+  }
+  startStream();
+}
+
+function updateStreamStats(stats: StreamStats): void {
+  const { latency } = stats;
+  const tracks = tracker.getStats();
+  elements.streamStats.innerHTML = `
+    📹 <strong>Поток: ${stats.fps.toFixed(1)} FPS</strong> | ⚙️ Бэкенд: ${activeBackend}<br>
+    • Предобработка: ${latency.preprocess.toFixed(1)}мс<br>
+    • Инференс: ${latency.inference.toFixed(1)}мс<br>
+    • Постобработка: ${latency.postprocess.toFixed(1)}мс<br>
+    • Отрисовка: ${latency.draw.toFixed(1)}мс<br>
+    • <strong>Задержка: ${(latency.total + latency.draw).toFixed(1)}мс</strong>
+    | Кадров: ${stats.framesProcessed} | Пропущено: ${stats.framesSkipped}<br>
+    🛞 Дисков в кадре: ${tracks.activeTracks} | Уникальных дисков: ${tracks.uniqueTracks}
+  `;
+  elements.streamStats.style.display = 'block';
+}
+
+// Пакетная обработка: файлы идут в воркер по одному, результаты копятся в таблице
+async function handleBatchUpload(event: Event): Promise<void> {
+  const target = event.target as HTMLInputElement;
+  const files = filterImageFiles(target.files ?? []);
+  target.value = '';
+
+  if (files.length === 0 || !modelReady || batchRunner) return;
+  stopStream();
+
+  batchTable.clear();
+  elements.exportBatchButton.disabled = true;
+  elements.batchProgressBlock.style.display = 'flex';
+  elements.cancelBatchButton.disabled = false;
+  elements.batchUpload.disabled = true;
+  elements.folderUpload.disabled = true;
+
+  const options = inferOptions();
+  batchRunner = new BatchRunner(
+    (frame) => detector.infer(frame, options),
+    (id) => detector.cancel(id)
+  );
+
+  let lastTensors: number | undefined;
+  try {
+    const items = await batchRunner.run(
+      files,
+      (progress: BatchProgress) => updateBatchProgress(progress, lastTensors),
+      (item: BatchItem) => {
+        lastTensors = item.result?.numTensors;
+        batchTable.addItem(item);
+      }
+    );
+    console.log(`📁 Пакет обработан: ${items.length} из ${files.length} файлов`);
   } finally {
-    isProcessing = false;
-    elements.processing.style.display = 'none';
-    elements.imageUpload.disabled = false;
-    elements.modeRadios.forEach(radio => radio.disabled = false);
-    // ДОБАВЛЕНО: Включаем чекбоксы обратно
-    elements.showBoxes.disabled = false;
+    batchRunner = null;
+    elements.exportBatchButton.disabled = !batchTable.getItems().some(item => item.result);
+    elements.cancelBatchButton.disabled = true;
+    elements.batchUpload.disabled = false;
+    elements.folderUpload.disabled = false;
   }
 }
+
+function updateBatchProgress(progress: BatchProgress, numTensors?: number): void {
+  elements.batchProgress.max = Math.max(1, progress.total);
+  elements.batchProgress.value = progress.done;
+
+  const tensors = numTensors !== undefined ? ` | Тензоров: ${numTensors}` : '';
+  elements.batchStatus.textContent = progress.current
+    ? `${progress.done} / ${progress.total}: ${progress.current}${tensors}`
+    : `✅ Готово: ${progress.done} / ${progress.total}${tensors}`;
+}
+
+function handleBatchCancel(): void {
+  batchRunner?.cancel();
+}
+
+// Открывает аннотированный результат из таблицы в основном canvas
+function openBatchItem(item: BatchItem): void {
+  const result = item.result;
+  if (!result) return;
+  stopStream();
+
+  currentFileName = item.name;
+  currentFile = item.file;
+  canRefilter = false;
+  showSourceFile(item.file, () => {
+    const drawStart = performance.now();
+    renderResult(elements.sourceImage, result);
+    setCurrentResult({ fileName: item.name, result });
+    showTimings(result, performance.now() - drawStart);
+    elements.canvas.scrollIntoView({ behavior: 'smooth' });
+  });
+}
+
+function setCurrentResult(image: ExportImage | null): void {
+  currentResult = image;
+  elements.exportButton.disabled = !image;
+  editor.setResult(image?.result ?? null, metadata.names);
+  debugPanel.setResult(image?.result ?? null, metadata.names);
+  // Кадр уже нарисован до того, как панель узнала о результате: добавляем кандидатов поверх
+  if (debugPanel.isVisible) redrawLastResult();
+  updateEditorControls();
+}
+
+// Правка идет прямо в Detection[] текущего результата, поэтому экспорт и таблица пакета
+// видят исправленную разметку без копирования
+function handleEditorChange(): void {
+  redrawLastResult();
+  debugPanel.setSelected(editor.selectedDetection);
+  updateEditorControls();
+}
+
+function redrawLastResult(): void {
+  if (lastRender && !streamer?.isRunning) {
+    renderResult(lastRender.source, lastRender.result);
+  }
+}
+
+// Отладочные данные собираются только по запросу: включение перезапускает постобработку
+function handleDebugToggle(): void {
+  if (!elements.debugEnabled.checked) {
+    debugPanel.setResult(null, metadata.names);
+    redrawLastResult();
+    return;
+  }
+  updateCurrentImage();
+}
+
+function updateEditorControls(): void {
+  const hasResult = currentResult !== null;
+  if (!hasResult && elements.editEnabled.checked) {
+    elements.editEnabled.checked = false;
+    editor.setEnabled(false);
+  }
+  const editing = hasResult && elements.editEnabled.checked;
+
+  // Без масок кисть и ластик ничего не покажут
+  const masksVisible = currentMode === 'segmentation';
+  for (const option of Array.from(elements.editTool.options)) {
+    if (option.value === 'brush' || option.value === 'eraser') option.disabled = !masksVisible;
+  }
+  if (elements.editTool.selectedOptions[0]?.disabled) {
+    elements.editTool.value = 'select';
+    editor.setTool('select');
+  }
+
+  const selected = editor.selectedDetection;
+  if (selected) {
+    elements.editClass.value = String(selected.class);
+  }
+
+  elements.editEnabled.disabled = !hasResult;
+  elements.editTool.disabled = !editing;
+  elements.brushSize.disabled = !editing;
+  elements.editClass.disabled = !editing;
+  elements.deleteButton.disabled = !editing || !selected;
+  elements.undoButton.disabled = !editing || !editor.canUndo;
+  elements.redoButton.disabled = !editing || !editor.canRedo;
+  elements.saveTrainingButton.disabled = !hasResult || !currentFile;
+}
+
+function handleEditToggle(): void {
+  editor.setEnabled(elements.editEnabled.checked);
+  updateEditorControls();
+}
+
+function handleEditToolChange(): void {
+  editor.setTool(elements.editTool.value as EditorTool);
+}
+
+function handleBrushSizeChange(): void {
+  const size = parseInt(elements.brushSize.value, 10);
+  editor.setBrushRadius(Number.isFinite(size) ? size : 8);
+}
+
+function handleEditClassChange(): void {
+  editor.setClass(parseInt(elements.editClass.value, 10));
+}
+
+// Исходное изображение и исправленная разметка YOLO-seg в раскладке датасета Ultralytics
+async function handleSaveTraining(): Promise<void> {
+  if (!currentResult || !currentFile) return;
+
+  const image = new Uint8Array(await currentFile.arrayBuffer());
+  const file = buildTrainingSet([{ ...currentResult, image }], metadata.names);
+  downloadFile(file.fileName, file.data, file.mime);
+  console.log(`🏷️ Сохранено для обучения: ${file.fileName} (${currentResult.result.detections.length} объектов)`);
+}
+
+// Экспорт разметки: полигоны строятся из масок, поэтому для них нужен режим сегментации
+function exportImages(images: ExportImage[]): void {
+  if (images.length === 0) return;
+
+  const format = elements.exportFormat.value as ExportFormat;
+  const file = buildExport(format, images, metadata.names);
+  downloadFile(file.fileName, file.data, file.mime);
+  console.log(`💾 Экспортировано: ${file.fileName} (${images.length} изобр.)`);
+}
+
+function handleExport(): void {
+  if (currentResult) {
+    exportImages([currentResult]);
+  }
+}
+
+function handleBatchExport(): void {
+  const images = batchTable.getItems()
+    .filter(item => item.result)
+    .map(item => ({ fileName: item.name, result: item.result! }));
+  exportImages(images);
+}
+
 // Инициализация
+detector.addEventListener('loadprogress', handleLoadProgress);
+elements.modelSelect.addEventListener('change', handleModelChange);
+elements.backendSelect.addEventListener('change', handleModelChange);
 elements.imageUpload.addEventListener('change', handleImageUpload);
 elements.modeRadios.forEach(radio => {
   radio.addEventListener('change', handleModeChange);
 });
 elements.showBoxes.addEventListener('change', handleDisplayOptionChange);
-elements.thresholdRange.addEventListener('input', handleThresholdChange);
-
+elements.maskStyle.addEventListener('change', handleDisplayOptionChange);
+elements.maskOpacity.addEventListener('input', handleDisplayOptionChange);
+elements.boxStyle.addEventListener('change', handleDisplayOptionChange);
+elements.fontSize.addEventListener('change', handleDisplayOptionChange);
+elements.hideScores.addEventListener('change', handleDisplayOptionChange);
+elements.redactEnabled.addEventListener('change', handleRedactChange);
+elements.redactTarget.addEventListener('change', handleRedactChange);
+elements.redactEffect.addEventListener('change', handleRedactChange);
+elements.redactStrength.addEventListener('change', handleRedactChange);
+elements.redactFeather.addEventListener('change', handleRedactChange);
+elements.redactColor.addEventListener('input', handleRedactChange);
+elements.downloadImageButton.addEventListener('click', handleDownloadImage);
+elements.thresholdRange.addEventListener('input', handleFilterChange);
+elements.iouRange.addEventListener('input', handleFilterChange);
+elements.maskThresholdRange.addEventListener('input', handleFilterChange);
+elements.maxDetections.addEventListener('change', handleFilterChange);
+elements.agnosticNms.addEventListener('change', handleFilterChange);
+elements.resetFiltersButton.addEventListener('click', handleResetFilters);
+elements.ttaEnabled.addEventListener('change', handleTtaChange);
+elements.ensembleEnabled.addEventListener('change', handleTtaChange);
+elements.debugEnabled.addEventListener('change', handleDebugToggle);
+elements.tilingEnabled.addEventListener('change', handleTilingChange);
+elements.tileSize.addEventListener('change', handleTilingChange);
+elements.tileOverlap.addEventListener('change', handleTilingChange);
+elements.tileMerge.addEventListener('change', handleTilingChange);
+elements.tileIncludeFull.addEventListener('change', handleTilingChange);
+elements.cameraButton.addEventListener('click', handleCameraStart);
+elements.videoUpload.addEventListener('change', handleVideoUpload);
+elements.stopStreamButton.addEventListener('click', stopStream);
+elements.batchUpload.addEventListener('change', handleBatchUpload);
+elements.folderUpload.addEventListener('change', handleBatchUpload);
+elements.cancelBatchButton.addEventListener('click', handleBatchCancel);
+elements.exportButton.addEventListener('click', handleExport);
+elements.exportBatchButton.addEventListener('click', handleBatchExport);
+elements.editEnabled.addEventListener('change', handleEditToggle);
+elements.editTool.addEventListener('change', handleEditToolChange);
+elements.brushSize.addEventListener('change', handleBrushSizeChange);
+elements.editClass.addEventListener('change', handleEditClassChange);
+elements.deleteButton.addEventListener('click', () => editor.deleteSelected());
+elements.undoButton.addEventListener('click', () => editor.undo());
+elements.redoButton.addEventListener('click', () => editor.redo());
+elements.saveTrainingButton.addEventListener('click', handleSaveTraining);
+
+// Service worker нужен только собранному приложению: в dev он мешал бы HMR
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  navigator.serviceWorker.register('./sw.js').catch(error => {
+    console.warn('Не удалось зарегистрировать service worker:', error);
+  });
+}
 
+showFilterSettings();
 initModel();
@@ -0,0 +1,66 @@
+import { getClassColors, hexToRgb } from '../core';
+import type { InferenceResult } from '../core';
+import type { RgbaImage } from './io';
+
+export interface AnnotateOptions {
+    drawMasks: boolean;
+    maskOpacity: number; // 0..1
+    lineWidth: number;
+}
+
+export const DEFAULT_ANNOTATE_OPTIONS: AnnotateOptions = {
+    drawMasks: true,
+    maskOpacity: 0.55,
+    lineWidth: 3
+};
+
+// Без canvas в Node рисуем прямо в RGBA-буфер: заливка масок и рамки боксов.
+// Подписей нет - для текста понадобился бы растеризатор шрифтов.
+export function annotateImage(
+    image: RgbaImage,
+    result: InferenceResult,
+    labels: string[],
+    colors?: string[],
+    options: AnnotateOptions = DEFAULT_ANNOTATE_OPTIONS
+): RgbaImage {
+    const out: RgbaImage = { data: new Uint8Array(image.data), width: image.width, height: image.height };
+    const classColors = getClassColors(labels, colors);
+
+    const blend = (x: number, y: number, rgb: { r: number; g: number; b: number }, alpha: number) => {
+        if (x < 0 || y < 0 || x >= out.width || y >= out.height) return;
+        const idx = (y * out.width + x) * 4;
+        out.data[idx] += (rgb.r - out.data[idx]) * alpha;
+        out.data[idx + 1] += (rgb.g - out.data[idx + 1]) * alpha;
+        out.data[idx + 2] += (rgb.b - out.data[idx + 2]) * alpha;
+    };
+
+    for (const det of result.detections) {
+        const rgb = hexToRgb(classColors[det.class] ?? classColors[0]);
+
+        const mask = det.mask;
+        if (options.drawMasks && mask) {
+            for (let y = 0; y < mask.height; y++) {
+                for (let x = 0; x < mask.width; x++) {
+                    if (mask.data[y * mask.width + x]) blend(mask.x + x, mask.y + y, rgb, options.maskOpacity);
+                }
+            }
+        }
+
+        const left = Math.round(det.box.x);
+        const top = Math.round(det.box.y);
+        const right = Math.round(det.box.x + det.box.width) - 1;
+        const bottom = Math.round(det.box.y + det.box.height) - 1;
+        for (let t = 0; t < options.lineWidth; t++) {
+            for (let x = left; x <= right; x++) {
+                blend(x, top + t, rgb, 1);
+                blend(x, bottom - t, rgb, 1);
+            }
+            for (let y = top; y <= bottom; y++) {
+                blend(left + t, y, rgb, 1);
+                blend(right - t, y, rgb, 1);
+            }
+        }
+    }
+
+    return out;
+}
@@ -0,0 +1,9 @@
+// Числовой параметр командной строки; без значения - значение по умолчанию
+export function parseNumber(name: string, value: string | undefined, fallback: number): number {
+    if (value === undefined) return fallback;
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+        throw new Error(`--${name}: ожидалось число, получено "${value}"`);
+    }
+    return number;
+}
@@ -0,0 +1,121 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { glob } from 'tinyglobby';
+import { buildExport, toYoloSeg, DEFAULT_POSTPROCESS_OPTIONS } from '../core';
+import type { ExportFormat, ExportImage } from '../core';
+import { Detector } from './detector';
+import { readImage, writePng } from './io';
+import { annotateImage } from './annotate';
+import { parseNumber } from './args';
+
+const HELP = `Использование: npm run cli -- [параметры] <файлы или glob-шаблоны...>
+
+  --model <путь>          model.json (по умолчанию public/model/model.json)
+  --out <папка>           куда писать результаты (по умолчанию runs/predict)
+  --format <формат>       json | coco | coco-rle | yolo (по умолчанию json)
+  --conf <число>          порог уверенности (${DEFAULT_POSTPROCESS_OPTIONS.threshold})
+  --iou <число>           порог IoU для NMS (${DEFAULT_POSTPROCESS_OPTIONS.iouThreshold})
+  --max-det <число>       максимум детекций на изображение (${DEFAULT_POSTPROCESS_OPTIONS.maxDetections})
+  --mask-threshold <число> порог вероятности пикселя маски (${DEFAULT_POSTPROCESS_OPTIONS.maskThreshold})
+  --boxes-only            только боксы, без масок
+  --save-images           сохранить изображения с разметкой в PNG
+  -h, --help              эта справка
+`;
+
+const FORMATS: ExportFormat[] = ['json', 'coco', 'coco-rle', 'yolo'];
+
+async function main(): Promise<void> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            model: { type: 'string', default: 'public/model/model.json' },
+            out: { type: 'string', default: 'runs/predict' },
+            format: { type: 'string', default: 'json' },
+            conf: { type: 'string' },
+            iou: { type: 'string' },
+            'max-det': { type: 'string' },
+            'mask-threshold': { type: 'string' },
+            'boxes-only': { type: 'boolean', default: false },
+            'save-images': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false }
+        }
+    });
+
+    if (values.help || positionals.length === 0) {
+        console.log(HELP);
+        process.exitCode = values.help ? 0 : 1;
+        return;
+    }
+
+    const format = values.format as ExportFormat;
+    if (!FORMATS.includes(format)) {
+        throw new Error(`--format: неизвестный формат "${values.format}", допустимо: ${FORMATS.join(', ')}`);
+    }
+
+    const options = {
+        threshold: parseNumber('conf', values.conf, DEFAULT_POSTPROCESS_OPTIONS.threshold),
+        iouThreshold: parseNumber('iou', values.iou, DEFAULT_POSTPROCESS_OPTIONS.iouThreshold),
+        maxDetections: parseNumber('max-det', values['max-det'], DEFAULT_POSTPROCESS_OPTIONS.maxDetections),
+        maskThreshold: parseNumber('mask-threshold', values['mask-threshold'], DEFAULT_POSTPROCESS_OPTIONS.maskThreshold),
+        enableMasks: !values['boxes-only']
+    };
+
+    // Шаблоны раскрываем сами, чтобы они работали и в оболочках без glob (cmd.exe)
+    const files = (await glob(positionals, { absolute: false, onlyFiles: true, expandDirectories: false }))
+        .filter(file => /\.(png|jpe?g)$/i.test(file))
+        .sort();
+    if (files.length === 0) {
+        throw new Error(`Не найдено изображений по шаблонам: ${positionals.join(' ')}`);
+    }
+
+    const detector = await Detector.load(values.model);
+    const labels = detector.metadata.names;
+    const outDir = values.out;
+    await mkdir(outDir, { recursive: true });
+
+    const images: ExportImage[] = [];
+    try {
+        for (const [index, file] of files.entries()) {
+            const image = await readImage(file);
+            const result = await detector.detect(image, options);
+            const fileName = path.basename(file);
+            images.push({ fileName, result });
+
+            console.log(`[${index + 1}/${files.length}] ${file}: ${result.detections.length} объектов, ${result.timings.total.toFixed(0)} мс`);
+
+            if (values['save-images']) {
+                const annotated = annotateImage(image, result, labels, detector.metadata.colors, {
+                    drawMasks: options.enableMasks,
+                    maskOpacity: 0.55,
+                    lineWidth: Math.max(2, Math.round(Math.min(image.width, image.height) / 300))
+                });
+                await writePng(path.join(outDir, `${path.parse(fileName).name}.png`), annotated);
+            }
+        }
+    } finally {
+        detector.dispose();
+    }
+
+    // В папку YOLO-разметку пишем файлами, а не zip, как это делает браузер
+    if (format === 'yolo') {
+        const labelsDir = path.join(outDir, 'labels');
+        await mkdir(labelsDir, { recursive: true });
+        for (const { fileName, result } of images) {
+            await writeFile(path.join(labelsDir, `${path.parse(fileName).name}.txt`), toYoloSeg(result));
+        }
+        await writeFile(path.join(outDir, 'classes.txt'), labels.join('\n') + '\n');
+        console.log(`Разметка YOLO сохранена в ${labelsDir}`);
+        return;
+    }
+
+    const file = buildExport(format, images, labels);
+    const target = path.join(outDir, file.fileName);
+    await writeFile(target, file.data);
+    console.log(`Результаты сохранены в ${target}`);
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
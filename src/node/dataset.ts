@@ -0,0 +1,178 @@
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { glob } from 'tinyglobby';
+import { parseYaml, parseNames, rasterizePolygons, rleToMask } from '../core';
+import type { GroundTruthObject, Point } from '../core';
+
+// Изображение датасета; разметка YOLO нормирована, поэтому строится после чтения размеров изображения
+export interface DatasetItem {
+    file: string;
+    annotations: (width: number, height: number) => GroundTruthObject[];
+}
+
+export interface Dataset {
+    names: string[]; // имена классов из разметки, индекс - класс модели
+    items: DatasetItem[];
+}
+
+const IMAGE_PATTERN = '**/*.{png,jpg,jpeg,PNG,JPG,JPEG}';
+
+// COCO - по .json, иначе YOLO: data.yaml или папка с изображениями
+export async function loadDataset(source: string, modelNames: string[], imagesDir?: string): Promise<Dataset> {
+    if (source.endsWith('.json')) {
+        return loadCocoDataset(source, modelNames, imagesDir);
+    }
+    return loadYoloDataset(source, modelNames);
+}
+
+async function exists(file: string): Promise<boolean> {
+    return stat(file).then(() => true, () => false);
+}
+
+// Ultralytics: .../images/a.jpg -> .../labels/a.txt
+function yoloLabelPath(imageFile: string): string {
+    const parts = imageFile.split(path.sep);
+    const index = parts.lastIndexOf('images');
+    if (index >= 0) parts[index] = 'labels';
+    const labelFile = parts.join(path.sep);
+    return labelFile.slice(0, labelFile.length - path.extname(labelFile).length) + '.txt';
+}
+
+// Строка "class xc yc w h" - бокс, "class x1 y1 x2 y2 ..." - полигон
+function parseYoloLabels(text: string, width: number, height: number): GroundTruthObject[] {
+    const objects: GroundTruthObject[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const values = line.trim().split(/\s+/).map(Number);
+        if (values.length < 5 || values.some(v => !Number.isFinite(v))) continue;
+
+        const [classId, ...coords] = values;
+        if (coords.length === 4) {
+            const [xc, yc, w, h] = coords;
+            objects.push({
+                class: classId,
+                box: { x: (xc - w / 2) * width, y: (yc - h / 2) * height, width: w * width, height: h * height }
+            });
+            continue;
+        }
+
+        const polygon: Point[] = [];
+        for (let i = 0; i + 1 < coords.length; i += 2) {
+            polygon.push({ x: coords[i] * width, y: coords[i + 1] * height });
+        }
+        // Бокс по крайним точкам полигона, как segments2boxes в Ultralytics
+        const xs = polygon.map(p => p.x);
+        const ys = polygon.map(p => p.y);
+        const x = Math.min(...xs);
+        const y = Math.min(...ys);
+        objects.push({
+            class: classId,
+            box: { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y },
+            mask: rasterizePolygons([polygon], width, height) ?? undefined
+        });
+    }
+    return objects;
+}
+
+async function loadYoloDataset(source: string, modelNames: string[]): Promise<Dataset> {
+    let imagesDir = source;
+    let names = modelNames;
+
+    if (/\.ya?ml$/.test(source)) {
+        const yaml = parseYaml(await readFile(source, 'utf8'));
+        const yamlDir = path.dirname(source);
+        const root = typeof yaml.path === 'string' ? path.resolve(yamlDir, yaml.path) : yamlDir;
+        const split = yaml.val ?? yaml.test;
+        if (typeof split !== 'string') {
+            throw new Error(`${source}: не найден путь val/test`);
+        }
+
+        // Roboflow пишет "../valid/images" относительно папки датасета, а не data.yaml
+        imagesDir = path.resolve(root, split);
+        if (!(await exists(imagesDir))) {
+            imagesDir = path.resolve(root, split.replace(/^(\.\.\/)+/, ''));
+        }
+
+        const yamlNames = parseNames(yaml.names);
+        if (yamlNames.length > 0) names = yamlNames;
+    }
+
+    const files = (await glob(IMAGE_PATTERN, { cwd: imagesDir, absolute: true })).sort();
+    const items = await Promise.all(files.map(async (file): Promise<DatasetItem> => {
+        const labelFile = yoloLabelPath(file);
+        // Изображение без файла разметки - фон без объектов
+        const text = await readFile(labelFile, 'utf8').catch(() => '');
+        return { file, annotations: (width, height) => parseYoloLabels(text, width, height) };
+    }));
+
+    return { names, items };
+}
+
+interface CocoJson {
+    images: { id: number; file_name: string; width: number; height: number }[];
+    annotations: {
+        image_id: number;
+        category_id: number;
+        bbox: [number, number, number, number];
+        segmentation?: number[][] | { counts: number[] | string; size: [number, number] };
+        iscrowd?: number;
+    }[];
+    categories: { id: number; name: string }[];
+}
+
+async function loadCocoDataset(source: string, modelNames: string[], imagesDir?: string): Promise<Dataset> {
+    const coco = JSON.parse(await readFile(source, 'utf8')) as CocoJson;
+    const baseDir = imagesDir ?? path.dirname(source);
+
+    // Категории COCO сопоставляем с классами модели по имени
+    const classByCategory = new Map<number, number>();
+    for (const category of coco.categories) {
+        const classId = modelNames.indexOf(category.name);
+        if (classId >= 0) {
+            classByCategory.set(category.id, classId);
+        } else {
+            console.warn(`Категория "${category.name}" (id ${category.id}) не найдена среди классов модели и пропущена`);
+        }
+    }
+
+    const byImage = new Map<number, CocoJson['annotations']>();
+    for (const annotation of coco.annotations) {
+        const list = byImage.get(annotation.image_id) ?? [];
+        list.push(annotation);
+        byImage.set(annotation.image_id, list);
+    }
+
+    const items = coco.images.map((image): DatasetItem => ({
+        file: path.resolve(baseDir, image.file_name),
+        annotations: (width, height) => (byImage.get(image.id) ?? []).flatMap(annotation => {
+            const classId = classByCategory.get(annotation.category_id);
+            // Толпы (iscrowd) Ultralytics при конвертации тоже отбрасывает
+            if (classId === undefined || annotation.iscrowd) return [];
+
+            // Разметку пересчитываем, если размер в json не совпадает с реальным изображением
+            const sx = width / image.width;
+            const sy = height / image.height;
+            const [x, y, w, h] = annotation.bbox;
+            const seg = annotation.segmentation;
+
+            let mask = null;
+            if (Array.isArray(seg) && seg.length > 0) {
+                const polygons = seg.map(flat => {
+                    const polygon: Point[] = [];
+                    for (let i = 0; i + 1 < flat.length; i += 2) polygon.push({ x: flat[i] * sx, y: flat[i + 1] * sy });
+                    return polygon;
+                });
+                mask = rasterizePolygons(polygons, width, height);
+            } else if (seg && !Array.isArray(seg) && sx === 1 && sy === 1) {
+                mask = rleToMask(seg.counts, seg.size[1], seg.size[0]);
+            }
+
+            return [{
+                class: classId,
+                box: { x: x * sx, y: y * sy, width: w * sx, height: h * sy },
+                mask: mask ?? undefined
+            }];
+        })
+    }));
+
+    return { names: modelNames, items };
+}
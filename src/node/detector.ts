@@ -0,0 +1,84 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+    loadModel,
+    preprocessRgb,
+    processSegmentation,
+    attachMeasurements,
+    DEFAULT_POSTPROCESS_OPTIONS
+} from '../core';
+import type { InferenceResult, ModelMetadata, PostprocessOptions } from '../core';
+import { fileSystemHandler, readModelMetadata } from './io';
+import type { RgbaImage } from './io';
+
+// Модель из локальной папки на CPU-бэкенде tfjs - для фоновых задач без браузера
+export class Detector {
+    readonly model: tf.GraphModel;
+    readonly metadata: ModelMetadata;
+
+    constructor(model: tf.GraphModel, metadata: ModelMetadata) {
+        this.model = model;
+        this.metadata = metadata;
+    }
+
+    static async load(modelJsonPath: string): Promise<Detector> {
+        await tf.setBackend('cpu');
+        await tf.ready();
+
+        const metadata = await readModelMetadata(modelJsonPath);
+        const model = await loadModel(fileSystemHandler(modelJsonPath), metadata);
+        return new Detector(model, metadata);
+    }
+
+    async detect(image: RgbaImage, options: Partial<PostprocessOptions> = {}): Promise<InferenceResult> {
+        const postprocess = { ...DEFAULT_POSTPROCESS_OPTIONS, ...options };
+        const totalStart = performance.now();
+
+        const { tensor, scale, padL, padT } = preprocessRgb(image.data, image.width, image.height, this.metadata.imgsz);
+        const preprocessEnd = performance.now();
+
+        let predictions: tf.Tensor | tf.Tensor[] | null = null;
+        try {
+            predictions = await this.model.executeAsync(tensor) as tf.Tensor | tf.Tensor[];
+            const inferenceEnd = performance.now();
+
+            const detections = await processSegmentation(
+                predictions,
+                image.width,
+                image.height,
+                scale,
+                padL,
+                padT,
+                postprocess,
+                this.metadata
+            );
+
+            const result: InferenceResult = {
+                detections,
+                width: image.width,
+                height: image.height,
+                scale,
+                padL,
+                padT,
+                timings: { preprocess: 0, inference: 0, postprocess: 0, total: 0 }
+            };
+            if (postprocess.enableMasks) {
+                attachMeasurements(result);
+            }
+            const postprocessEnd = performance.now();
+
+            result.timings = {
+                preprocess: preprocessEnd - totalStart,
+                inference: inferenceEnd - preprocessEnd,
+                postprocess: postprocessEnd - inferenceEnd,
+                total: postprocessEnd - totalStart
+            };
+            return result;
+        } finally {
+            tf.dispose(predictions ? [tensor, predictions] : tensor);
+        }
+    }
+
+    dispose(): void {
+        this.model.dispose();
+    }
+}
@@ -0,0 +1,135 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { evaluate, getLabel, DEFAULT_EVALUATION_OPTIONS } from '../core';
+import type { ApMetrics, EvaluationSample, ErrorCase } from '../core';
+import { Detector } from './detector';
+import { readImage } from './io';
+import { loadDataset } from './dataset';
+import { parseNumber } from './args';
+
+const HELP = `Использование: npm run eval -- --data <data.yaml | папка изображений | coco.json> [параметры]
+
+  --data <путь>           размеченный набор: YOLO (data.yaml или папка images/ рядом с labels/) или COCO json
+  --images <папка>        папка изображений для COCO (по умолчанию рядом с json)
+  --model <путь>          model.json (по умолчанию public/model/model.json)
+  --out <папка>           куда писать отчет (по умолчанию runs/eval)
+  --conf <число>          порог уверенности для mAP (0.001, как model.val() в Ultralytics)
+  --iou <число>           порог IoU для NMS (0.7, как model.val())
+  --max-det <число>       максимум детекций на изображение (300)
+  --boxes-only            только боксы, без масок
+  --error-conf <число>    порог, при котором ищутся худшие FP и FN (${DEFAULT_EVALUATION_OPTIONS.errorConfidence})
+  --max-errors <число>    сколько худших FP и FN выводить (${DEFAULT_EVALUATION_OPTIONS.maxErrors})
+  -h, --help              эта справка
+`;
+
+const percent = (value: number) => (value * 100).toFixed(1).padStart(6);
+
+function printMetrics(title: string, metrics: ApMetrics, labels: string[]): void {
+    console.log(`\n${title}: mAP@0.5 ${percent(metrics.map50)}   mAP@0.5:0.95 ${percent(metrics.map50_95)}`);
+    for (const c of metrics.perClass) {
+        console.log(`  ${getLabel(labels, c.class).padEnd(16)} ${String(c.instances).padStart(6)} объектов   AP50 ${percent(c.ap50)}   AP50-95 ${percent(c.ap50_95)}`);
+    }
+    console.log('  conf   precision  recall     F1');
+    for (const p of metrics.curve) {
+        console.log(`  ${p.confidence.toFixed(2)}  ${percent(p.precision)}    ${percent(p.recall)}  ${percent(p.f1)}`);
+    }
+}
+
+function printErrors(title: string, errors: ErrorCase[], labels: string[]): void {
+    console.log(`\n${title}:`);
+    if (errors.length === 0) {
+        console.log('  нет');
+        return;
+    }
+    for (const e of errors) {
+        const { x, y, width, height } = e.box;
+        const score = e.score !== undefined ? ` score ${e.score.toFixed(3)}` : '';
+        console.log(`  ${e.fileName}  ${getLabel(labels, e.class)}${score}  IoU ${e.bestIoU.toFixed(2)}  [${x.toFixed(0)}, ${y.toFixed(0)}, ${width.toFixed(0)}, ${height.toFixed(0)}]`);
+    }
+}
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            data: { type: 'string' },
+            images: { type: 'string' },
+            model: { type: 'string', default: 'public/model/model.json' },
+            out: { type: 'string', default: 'runs/eval' },
+            conf: { type: 'string' },
+            iou: { type: 'string' },
+            'max-det': { type: 'string' },
+            'boxes-only': { type: 'boolean', default: false },
+            'error-conf': { type: 'string' },
+            'max-errors': { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false }
+        }
+    });
+
+    if (values.help || !values.data) {
+        console.log(HELP);
+        process.exitCode = values.help ? 0 : 1;
+        return;
+    }
+
+    // Пороги по умолчанию как у валидации Ultralytics, иначе mAP не сравнить с их отчетом
+    const options = {
+        threshold: parseNumber('conf', values.conf, 0.001),
+        iouThreshold: parseNumber('iou', values.iou, 0.7),
+        maxDetections: parseNumber('max-det', values['max-det'], 300),
+        enableMasks: !values['boxes-only']
+    };
+    const evaluationOptions = {
+        errorConfidence: parseNumber('error-conf', values['error-conf'], DEFAULT_EVALUATION_OPTIONS.errorConfidence),
+        maxErrors: parseNumber('max-errors', values['max-errors'], DEFAULT_EVALUATION_OPTIONS.maxErrors)
+    };
+
+    const detector = await Detector.load(values.model);
+    const labels = detector.metadata.names;
+    const dataset = await loadDataset(values.data, labels, values.images);
+    if (dataset.items.length === 0) {
+        throw new Error(`В ${values.data} не найдено изображений`);
+    }
+    if (dataset.names.join() !== labels.join()) {
+        console.warn(`Классы датасета (${dataset.names.join(', ')}) не совпадают с классами модели (${labels.join(', ')})`);
+    }
+
+    const samples: EvaluationSample[] = [];
+    try {
+        for (const [index, item] of dataset.items.entries()) {
+            const image = await readImage(item.file);
+            const result = await detector.detect(image, options);
+            const groundTruth = item.annotations(image.width, image.height);
+            samples.push({
+                fileName: path.relative(process.cwd(), item.file),
+                width: image.width,
+                height: image.height,
+                groundTruth,
+                predictions: result.detections
+            });
+            console.log(`[${index + 1}/${dataset.items.length}] ${item.file}: ${groundTruth.length} размечено, ${result.detections.length} найдено`);
+        }
+    } finally {
+        detector.dispose();
+    }
+
+    const report = evaluate(samples, evaluationOptions);
+
+    console.log(`\nИзображений: ${report.images}, объектов: ${report.instances}`);
+    printMetrics('Боксы', report.box, labels);
+    if (report.mask) {
+        printMetrics('Маски', report.mask, labels);
+    }
+    printErrors(`Худшие ложные срабатывания (conf >= ${evaluationOptions.errorConfidence})`, report.falsePositives, labels);
+    printErrors(`Худшие пропуски (conf >= ${evaluationOptions.errorConfidence})`, report.falseNegatives, labels);
+
+    await mkdir(values.out, { recursive: true });
+    const target = path.join(values.out, 'eval.json');
+    await writeFile(target, JSON.stringify({ model: values.model, data: values.data, options, ...report }, null, 2));
+    console.log(`\nОтчет сохранен в ${target}`);
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,11 @@
+// Точка входа библиотеки для Node: ядро плюс чтение модели и изображений с диска
+export * from '../core';
+export { Detector } from './detector';
+export { fileSystemHandler, readModelMetadata, readImage, decodeImage, writePng } from './io';
+export type { RgbaImage } from './io';
+export { annotateImage, DEFAULT_ANNOTATE_OPTIONS } from './annotate';
+export type { AnnotateOptions } from './annotate';
+export { createPredictServer, parsePredictParams, DEFAULT_SERVER_OPTIONS } from './server';
+export type { PredictDetector, PredictParams, ServerOptions } from './server';
+export { toUltralyticsResponse, toRoboflowResponse } from './predictions';
+export type { MaskFormat, ResponseFormat, UltralyticsResponse, RoboflowResponse } from './predictions';
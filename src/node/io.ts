@@ -0,0 +1,71 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { parseModelMetadata, metadataUrlFor, DEFAULT_METADATA } from '../core';
+import type { ModelMetadata } from '../core';
+
+// Декодированное изображение: RGBA построчно, как ImageData в браузере
+export interface RgbaImage {
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+// tf.loadGraphModel в Node без tfjs-node не умеет file://, поэтому читаем model.json и шарды сами
+export function fileSystemHandler(modelJsonPath: string): tf.io.IOHandler {
+    const dir = path.dirname(modelJsonPath);
+    return {
+        load: async () => {
+            const modelJson = JSON.parse(await readFile(modelJsonPath, 'utf8')) as tf.io.ModelJSON;
+            return tf.io.getModelArtifactsForJSON(modelJson, async (manifest) => {
+                const specs: tf.io.WeightsManifestEntry[] = [];
+                const buffers: ArrayBuffer[] = [];
+                for (const group of manifest) {
+                    specs.push(...group.weights);
+                    for (const shard of group.paths) {
+                        const bytes = await readFile(path.join(dir, shard));
+                        buffers.push(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+                    }
+                }
+                return [specs, buffers];
+            });
+        }
+    };
+}
+
+// metadata.yaml рядом с model.json; без него - значения по умолчанию, как в браузере
+export async function readModelMetadata(modelJsonPath: string): Promise<ModelMetadata> {
+    const file = metadataUrlFor(modelJsonPath);
+    try {
+        return parseModelMetadata(await readFile(file, 'utf8'));
+    } catch (error) {
+        console.warn(`Не удалось прочитать ${file}, используются значения по умолчанию:`, error);
+        return DEFAULT_METADATA;
+    }
+}
+
+export async function readImage(file: string): Promise<RgbaImage> {
+    return decodeImage(await readFile(file), file);
+}
+
+// PNG и JPEG различаем по сигнатуре, а не по расширению; name нужен только для сообщения об ошибке
+export function decodeImage(bytes: Buffer, name: string = 'изображение'): RgbaImage {
+    if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        const png = PNG.sync.read(bytes);
+        return { data: new Uint8Array(png.data.buffer, png.data.byteOffset, png.data.length), width: png.width, height: png.height };
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+        return { data: decoded.data, width: decoded.width, height: decoded.height };
+    }
+    throw new Error(`${name}: поддерживаются только PNG и JPEG`);
+}
+
+export async function writePng(file: string, image: RgbaImage): Promise<void> {
+    const png = new PNG({ width: image.width, height: image.height });
+    png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, PNG.sync.write(png));
+}
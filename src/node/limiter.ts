@@ -0,0 +1,51 @@
+// Очередь переполнена - сервер отвечает 503, а не копит запросы без конца
+export class QueueFullError extends Error {
+    constructor() {
+        super('Сервер занят: очередь запросов заполнена');
+        this.name = 'QueueFullError';
+    }
+}
+
+// Не больше concurrency задач одновременно, остальные ждут в очереди длиной до maxQueue
+export class ConcurrencyLimiter {
+    private readonly concurrency: number;
+    private readonly maxQueue: number;
+    private running = 0;
+    private queue: (() => void)[] = [];
+
+    constructor(concurrency: number, maxQueue: number = Infinity) {
+        this.concurrency = Math.max(1, Math.floor(concurrency));
+        this.maxQueue = Math.max(0, maxQueue);
+    }
+
+    get active(): number {
+        return this.running;
+    }
+
+    get waiting(): number {
+        return this.queue.length;
+    }
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.running >= this.concurrency) {
+            if (this.queue.length >= this.maxQueue) {
+                throw new QueueFullError();
+            }
+            // Освободившийся слот переходит ожидающему напрямую, счетчик при этом не меняется
+            await new Promise<void>(resolve => this.queue.push(resolve));
+        } else {
+            this.running++;
+        }
+
+        try {
+            return await task();
+        } finally {
+            const next = this.queue.shift();
+            if (next) {
+                next();
+            } else {
+                this.running--;
+            }
+        }
+    }
+}
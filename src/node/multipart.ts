@@ -0,0 +1,67 @@
+// Разбор тела multipart/form-data целиком в памяти: запросы к серверу - одиночные изображения,
+// тело уже ограничено по размеру, потоковый парсер здесь не нужен
+export interface MultipartPart {
+    name: string;
+    filename?: string; // есть только у файловых полей
+    contentType?: string;
+    data: Buffer;
+}
+
+// boundary из заголовка Content-Type; null - это не multipart/form-data
+export function multipartBoundary(contentType: string | undefined): string | null {
+    if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) return null;
+    const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    return match ? match[1] ?? match[2] : null;
+}
+
+// Значение параметра заголовка части: name="file"; filename="rim.jpg"
+function headerParam(header: string, param: string): string | undefined {
+    const match = new RegExp(`;\\s*${param}="([^"]*)"`, 'i').exec(header) ?? new RegExp(`;\\s*${param}=([^;\\s]+)`, 'i').exec(header);
+    return match?.[1];
+}
+
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+    const delimiter = Buffer.from(`--${boundary}`);
+    const parts: MultipartPart[] = [];
+
+    let start = body.indexOf(delimiter);
+    if (start < 0) {
+        throw new Error('В теле multipart нет ни одной границы');
+    }
+
+    while (true) {
+        start += delimiter.length;
+        // Закрывающая граница: --boundary--
+        if (body[start] === 0x2d && body[start + 1] === 0x2d) break;
+
+        const headersEnd = body.indexOf('\r\n\r\n', start);
+        const next = body.indexOf(delimiter, start);
+        if (headersEnd < 0 || next < 0 || headersEnd > next) {
+            throw new Error('Тело multipart оборвано');
+        }
+
+        const headers = body.subarray(start, headersEnd).toString('utf8').split('\r\n').filter(line => line !== '');
+        // Перед следующей границей стоит \r\n, он к данным не относится
+        const data = body.subarray(headersEnd + 4, next - 2);
+
+        let name: string | undefined;
+        let filename: string | undefined;
+        let contentType: string | undefined;
+        for (const header of headers) {
+            const colon = header.indexOf(':');
+            const key = header.slice(0, colon).trim().toLowerCase();
+            const value = header.slice(colon + 1).trim();
+            if (key === 'content-disposition') {
+                name = headerParam(value, 'name');
+                filename = headerParam(value, 'filename');
+            } else if (key === 'content-type') {
+                contentType = value;
+            }
+        }
+        if (name !== undefined) {
+            parts.push({ name, filename, contentType, data });
+        }
+        start = next;
+    }
+    return parts;
+}
@@ -0,0 +1,134 @@
+import { randomUUID } from 'node:crypto';
+import { detectionPolygons, getLabel, maskToRle } from '../core';
+import type { Detection, InferenceResult, ModelMetadata, Point } from '../core';
+
+// Форма ответа /predict: как у Ultralytics (results с box x1..y2 и segments)
+// или как у Roboflow (predictions с центром бокса и points)
+export type ResponseFormat = 'ultralytics' | 'roboflow';
+// Маска объекта в ответе: внешний контур, несжатый RLE COCO или ничего (только боксы)
+export type MaskFormat = 'polygon' | 'rle' | 'none';
+
+export const RESPONSE_FORMATS: ResponseFormat[] = ['ultralytics', 'roboflow'];
+export const MASK_FORMATS: MaskFormat[] = ['polygon', 'rle', 'none'];
+
+interface Rle {
+    size: [number, number]; // [высота, ширина] изображения
+    counts: number[];
+}
+
+export interface UltralyticsResult {
+    name: string;
+    class: number;
+    confidence: number;
+    box: { x1: number; y1: number; x2: number; y2: number };
+    segments?: { x: number[]; y: number[] };
+    rle?: Rle;
+}
+
+export interface UltralyticsResponse {
+    images: {
+        shape: [number, number]; // [высота, ширина]
+        results: UltralyticsResult[];
+        speed: { preprocess: number; inference: number; postprocess: number }; // мс
+    }[];
+    metadata: { model: string; task: string; imgsz: [number, number]; names: Record<number, string> };
+}
+
+export interface RoboflowPrediction {
+    x: number; // центр бокса
+    y: number;
+    width: number;
+    height: number;
+    confidence: number;
+    class: string;
+    class_id: number;
+    detection_id: string;
+    points?: Point[];
+    rle_mask?: Rle;
+}
+
+export interface RoboflowResponse {
+    time: number; // секунды, как у Roboflow
+    image: { width: number; height: number };
+    predictions: RoboflowPrediction[];
+}
+
+const round = (value: number, digits: number = 2) => Number(value.toFixed(digits));
+
+// Маска в запрошенном виде; у детекции без маски (режим боксов) ее нет ни в каком формате
+function outline(det: Detection): Point[] | undefined {
+    if (!det.mask) return undefined;
+    const [polygon] = detectionPolygons(det);
+    return polygon.map(p => ({ x: round(p.x), y: round(p.y) }));
+}
+
+function rle(det: Detection, result: InferenceResult): Rle | undefined {
+    return det.mask ? maskToRle(det.mask, result.width, result.height) : undefined;
+}
+
+export function toUltralyticsResponse(
+    result: InferenceResult,
+    metadata: ModelMetadata,
+    maskFormat: MaskFormat
+): UltralyticsResponse {
+    const results = result.detections.map((det): UltralyticsResult => {
+        const { x, y, width, height } = det.box;
+        const item: UltralyticsResult = {
+            name: getLabel(metadata.names, det.class),
+            class: det.class,
+            confidence: round(det.score, 4),
+            box: { x1: round(x), y1: round(y), x2: round(x + width), y2: round(y + height) }
+        };
+        const polygon = maskFormat === 'polygon' ? outline(det) : undefined;
+        if (polygon) {
+            item.segments = { x: polygon.map(p => p.x), y: polygon.map(p => p.y) };
+        }
+        if (maskFormat === 'rle') {
+            item.rle = rle(det, result);
+        }
+        return item;
+    });
+
+    const { preprocess, inference, postprocess } = result.timings;
+    return {
+        images: [{
+            shape: [result.height, result.width],
+            results,
+            speed: { preprocess: round(preprocess, 1), inference: round(inference, 1), postprocess: round(postprocess, 1) }
+        }],
+        metadata: {
+            model: metadata.description ?? 'YOLO11n-seg',
+            task: metadata.task,
+            imgsz: metadata.imgsz,
+            names: Object.fromEntries(metadata.names.map((name, classId) => [classId, name]))
+        }
+    };
+}
+
+export function toRoboflowResponse(
+    result: InferenceResult,
+    metadata: ModelMetadata,
+    maskFormat: MaskFormat
+): RoboflowResponse {
+    const predictions = result.detections.map((det): RoboflowPrediction => {
+        const { x, y, width, height } = det.box;
+        return {
+            x: round(x + width / 2),
+            y: round(y + height / 2),
+            width: round(width),
+            height: round(height),
+            confidence: round(det.score, 4),
+            class: getLabel(metadata.names, det.class),
+            class_id: det.class,
+            detection_id: randomUUID(),
+            points: maskFormat === 'polygon' ? outline(det) : undefined,
+            rle_mask: maskFormat === 'rle' ? rle(det, result) : undefined
+        };
+    });
+
+    return {
+        time: round(result.timings.total / 1000, 4),
+        image: { width: result.width, height: result.height },
+        predictions
+    };
+}
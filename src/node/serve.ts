@@ -0,0 +1,71 @@
+import { parseArgs } from 'node:util';
+import { Detector } from './detector';
+import { createPredictServer, DEFAULT_SERVER_OPTIONS } from './server';
+import { parseNumber } from './args';
+
+const HELP = `Использование: npm run serve -- [параметры]
+
+  --model <путь>          model.json (по умолчанию ${DEFAULT_SERVER_OPTIONS.modelPath})
+  --host <адрес>          адрес для входящих соединений (по умолчанию 127.0.0.1 - только этот компьютер)
+  --port <число>          порт (по умолчанию 8000)
+  --concurrency <число>   сколько изображений обрабатывать одновременно (${DEFAULT_SERVER_OPTIONS.concurrency})
+  --queue <число>         сколько запросов может ждать очереди, остальным - 503 (${DEFAULT_SERVER_OPTIONS.maxQueue})
+  --max-body <МБ>         максимальный размер запроса (${DEFAULT_SERVER_OPTIONS.maxBodySize / 1024 / 1024})
+  -h, --help              эта справка
+
+Адреса:
+  POST /predict           изображение: multipart (поле file), JSON {"image": "<base64>"}, image/* или base64 в теле
+                          параметры: conf, iou, max_det, mask_format (polygon | rle | none),
+                          format (ultralytics | roboflow)
+  GET  /health            состояние сервера и очереди
+  GET  /model             метаданные модели и список классов
+`;
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            model: { type: 'string', default: DEFAULT_SERVER_OPTIONS.modelPath },
+            host: { type: 'string', default: '127.0.0.1' },
+            port: { type: 'string' },
+            concurrency: { type: 'string' },
+            queue: { type: 'string' },
+            'max-body': { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false }
+        }
+    });
+
+    if (values.help) {
+        console.log(HELP);
+        return;
+    }
+
+    const port = parseNumber('port', values.port, 8000);
+    const options = {
+        modelPath: values.model,
+        concurrency: parseNumber('concurrency', values.concurrency, DEFAULT_SERVER_OPTIONS.concurrency),
+        maxQueue: parseNumber('queue', values.queue, DEFAULT_SERVER_OPTIONS.maxQueue),
+        maxBodySize: parseNumber('max-body', values['max-body'], DEFAULT_SERVER_OPTIONS.maxBodySize / 1024 / 1024) * 1024 * 1024
+    };
+
+    // Модель читается с диска и считается на CPU: сети серверу не нужно
+    const detector = await Detector.load(values.model);
+    const server = createPredictServer(detector, options);
+
+    server.listen(port, values.host, () => {
+        console.log(`Модель ${values.model} загружена, классы: ${detector.metadata.names.join(', ')}`);
+        console.log(`Сервер слушает http://${values.host}:${port} (POST /predict, GET /health, GET /model)`);
+    });
+
+    const stop = () => {
+        console.log('Остановка сервера...');
+        server.close(() => detector.dispose());
+        server.closeIdleConnections();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,258 @@
+import http from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { DEFAULT_POSTPROCESS_OPTIONS } from '../core';
+import type { InferenceResult, ModelMetadata, PostprocessOptions } from '../core';
+import { decodeImage } from './io';
+import type { RgbaImage } from './io';
+import { ConcurrencyLimiter, QueueFullError } from './limiter';
+import { multipartBoundary, parseMultipart } from './multipart';
+import type { MultipartPart } from './multipart';
+import { MASK_FORMATS, RESPONSE_FORMATS, toRoboflowResponse, toUltralyticsResponse } from './predictions';
+import type { MaskFormat, ResponseFormat } from './predictions';
+
+// Часть Detector, нужная серверу; в тестах ее заменяет заглушка без модели
+export interface PredictDetector {
+    readonly metadata: ModelMetadata;
+    detect(image: RgbaImage, options?: Partial<PostprocessOptions>): Promise<InferenceResult>;
+}
+
+export interface ServerOptions {
+    modelPath: string; // показывается в /model
+    concurrency: number; // сколько изображений обрабатывается одновременно
+    maxQueue: number; // сколько запросов может ждать, остальным - 503
+    maxBodySize: number; // байт
+}
+
+export const DEFAULT_SERVER_OPTIONS: ServerOptions = {
+    modelPath: 'public/model/model.json',
+    concurrency: 1,
+    maxQueue: 16,
+    maxBodySize: 20 * 1024 * 1024
+};
+
+// Параметры /predict после проверки
+export interface PredictParams {
+    format: ResponseFormat;
+    maskFormat: MaskFormat;
+    options: Partial<PostprocessOptions>;
+}
+
+// Ошибка запроса с кодом ответа; все остальные исключения превращаются в 500
+class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+function readScore(params: URLSearchParams, name: string, fallback: number): number {
+    const value = params.get(name);
+    if (value === null || value === '') return fallback;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0 || number > 1) {
+        throw new HttpError(400, `${name}: ожидалось число от 0 до 1, получено "${value}"`);
+    }
+    return number;
+}
+
+function readChoice<T extends string>(params: URLSearchParams, name: string, choices: T[]): T {
+    const value = params.get(name);
+    if (value === null || value === '') return choices[0];
+    if (!choices.includes(value as T)) {
+        throw new HttpError(400, `${name}: неизвестное значение "${value}", допустимо: ${choices.join(', ')}`);
+    }
+    return value as T;
+}
+
+// Имена параметров - как у аргументов Ultralytics predict: conf, iou, max_det
+export function parsePredictParams(params: URLSearchParams): PredictParams {
+    const maxDet = params.get('max_det');
+    const maxDetections = maxDet === null || maxDet === '' ? DEFAULT_POSTPROCESS_OPTIONS.maxDetections : Number(maxDet);
+    if (!Number.isInteger(maxDetections) || maxDetections < 1) {
+        throw new HttpError(400, `max_det: ожидалось целое число больше 0, получено "${maxDet}"`);
+    }
+
+    const maskFormat = readChoice(params, 'mask_format', MASK_FORMATS);
+    return {
+        format: readChoice(params, 'format', RESPONSE_FORMATS),
+        maskFormat,
+        options: {
+            threshold: readScore(params, 'conf', DEFAULT_POSTPROCESS_OPTIONS.threshold),
+            iouThreshold: readScore(params, 'iou', DEFAULT_POSTPROCESS_OPTIONS.iouThreshold),
+            maxDetections,
+            // Без масок в ответе незачем их и считать
+            enableMasks: maskFormat !== 'none'
+        }
+    };
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+    if (Number(req.headers['content-length']) > limit) {
+        return Promise.reject(new HttpError(413, `Тело запроса больше ${limit} байт`));
+    }
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            // Остаток тела дочитывается вхолостую, чтобы клиент успел получить ответ 413
+            if (size > limit) {
+                chunks.length = 0;
+                reject(new HttpError(413, `Тело запроса больше ${limit} байт`));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
+
+// Base64 как есть или data URL (data:image/jpeg;base64,...)
+function decodeBase64(text: string): Buffer {
+    const bytes = Buffer.from(text.replace(/^data:[^,]*,/, '').replace(/\s+/g, ''), 'base64');
+    if (bytes.length === 0) {
+        throw new HttpError(400, 'Пустое изображение в base64');
+    }
+    return bytes;
+}
+
+// Изображение из тела запроса и текстовые поля, которые дополняют параметры адреса:
+// multipart/form-data (файл плюс поля conf, iou...), JSON {"image": "<base64>", ...},
+// сырые байты image/* или application/octet-stream, иначе тело - строка base64, как у Roboflow
+function parseImageRequest(contentType: string | undefined, body: Buffer): { image: Buffer; fields: Record<string, string> } {
+    const boundary = multipartBoundary(contentType);
+    if (boundary) {
+        let parts: MultipartPart[];
+        try {
+            parts = parseMultipart(body, boundary);
+        } catch (error) {
+            throw new HttpError(400, error instanceof Error ? error.message : String(error));
+        }
+        const file = parts.find(part => part.filename !== undefined) ?? parts.find(part => part.name === 'image' || part.name === 'file');
+        if (!file) {
+            throw new HttpError(400, 'В форме нет файла изображения (поле file или image)');
+        }
+        const fields = Object.fromEntries(parts
+            .filter(part => part !== file && part.filename === undefined)
+            .map(part => [part.name, part.data.toString('utf8')]));
+        // Поле image может нести и base64 вместо файла
+        return { image: file.filename === undefined ? decodeBase64(file.data.toString('utf8')) : file.data, fields };
+    }
+
+    const type = contentType?.split(';')[0].trim().toLowerCase() ?? '';
+    if (type === 'application/json') {
+        let json: unknown;
+        try {
+            json = JSON.parse(body.toString('utf8'));
+        } catch {
+            throw new HttpError(400, 'Некорректный JSON');
+        }
+        const { image, ...rest } = (json ?? {}) as Record<string, unknown>;
+        if (typeof image !== 'string') {
+            throw new HttpError(400, 'В JSON нет строки image с изображением в base64');
+        }
+        const fields = Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, String(value)]));
+        return { image: decodeBase64(image), fields };
+    }
+    if (type.startsWith('image/') || type === 'application/octet-stream') {
+        return { image: body, fields: {} };
+    }
+    return { image: decodeBase64(body.toString('utf8')), fields: {} };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function modelInfo(metadata: ModelMetadata, modelPath: string): object {
+    return {
+        path: modelPath,
+        description: metadata.description,
+        task: metadata.task,
+        imgsz: metadata.imgsz,
+        stride: metadata.stride,
+        nms: metadata.nms,
+        names: Object.fromEntries(metadata.names.map((name, classId) => [classId, name]))
+    };
+}
+
+// HTTP-сервер вокруг Detector: POST /predict, GET /health и GET /model.
+// Модель загружена заранее, сервер только ограничивает число одновременных прогонов.
+export function createPredictServer(detector: PredictDetector, options: Partial<ServerOptions> = {}): http.Server {
+    const config = { ...DEFAULT_SERVER_OPTIONS, ...options };
+    const limiter = new ConcurrencyLimiter(config.concurrency, config.maxQueue);
+    const startedAt = Date.now();
+
+    async function predict(req: IncomingMessage, res: ServerResponse, query: URLSearchParams): Promise<void> {
+        const body = await readBody(req, config.maxBodySize);
+        const { image, fields } = parseImageRequest(req.headers['content-type'], body);
+
+        // Параметры адреса важнее полей формы
+        const params = new URLSearchParams(query);
+        for (const [name, value] of Object.entries(fields)) {
+            if (!params.has(name)) params.set(name, value);
+        }
+        const { format, maskFormat, options } = parsePredictParams(params);
+
+        // Декодирование тоже под ограничением: распакованные кадры занимают больше всего памяти
+        const result = await limiter.run(async () => {
+            let rgba: RgbaImage;
+            try {
+                rgba = decodeImage(image);
+            } catch (error) {
+                throw new HttpError(400, error instanceof Error ? error.message : String(error));
+            }
+            return detector.detect(rgba, options);
+        });
+
+        console.log(`POST /predict: ${result.width}x${result.height}, ${result.detections.length} объектов, ${result.timings.total.toFixed(0)} мс`);
+        sendJson(res, 200, format === 'roboflow'
+            ? toRoboflowResponse(result, detector.metadata, maskFormat)
+            : toUltralyticsResponse(result, detector.metadata, maskFormat));
+    }
+
+    async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const routes: Record<string, { method: string; run: () => Promise<void> | void }> = {
+            '/health': {
+                method: 'GET',
+                run: () => sendJson(res, 200, {
+                    status: 'ok',
+                    uptime: Math.round((Date.now() - startedAt) / 1000),
+                    active: limiter.active,
+                    queued: limiter.waiting
+                })
+            },
+            '/model': { method: 'GET', run: () => sendJson(res, 200, modelInfo(detector.metadata, config.modelPath)) },
+            '/predict': { method: 'POST', run: () => predict(req, res, url.searchParams) }
+        };
+
+        const route = routes[url.pathname];
+        if (!route) {
+            throw new HttpError(404, `Нет такого адреса: ${url.pathname}`);
+        }
+        if (req.method !== route.method) {
+            res.setHeader('Allow', route.method);
+            throw new HttpError(405, `${url.pathname} принимает только ${route.method}`);
+        }
+        await route.run();
+    }
+
+    return http.createServer((req, res) => {
+        handle(req, res).catch(error => {
+            if (error instanceof QueueFullError) {
+                sendJson(res, 503, { success: false, message: error.message }, { 'Retry-After': '1' });
+            } else if (error instanceof HttpError) {
+                sendJson(res, error.status, { success: false, message: error.message });
+            } else {
+                console.error(`${req.method} ${req.url}:`, error);
+                sendJson(res, 500, { success: false, message: 'Внутренняя ошибка сервера' });
+            }
+        });
+    });
+}
@@ -0,0 +1,136 @@
+import type { BatchItem } from '../utils/batch';
+
+type SortKey = 'name' | 'count' | 'maxScore' | 'meanScore' | 'inference' | 'total';
+
+interface Column {
+    key: SortKey;
+    title: string;
+    value: (item: BatchItem) => number | string;
+    format: (item: BatchItem) => string;
+}
+
+const COLUMNS: Column[] = [
+    { key: 'name', title: 'Файл', value: item => item.name, format: item => escapeHtml(item.name) },
+    { key: 'count', title: 'Дисков', value: item => item.count, format: item => item.error ? '❌' : String(item.count) },
+    {
+        key: 'maxScore', title: 'Макс. score', value: item => item.maxScore,
+        format: item => item.count > 0 ? item.maxScore.toFixed(3) : '—'
+    },
+    {
+        key: 'meanScore', title: 'Средний score', value: item => item.meanScore,
+        format: item => item.count > 0 ? item.meanScore.toFixed(3) : '—'
+    },
+    {
+        key: 'inference', title: 'Инференс, мс', value: item => item.result?.timings.inference ?? 0,
+        format: item => item.result ? item.result.timings.inference.toFixed(1) : '—'
+    },
+    {
+        key: 'total', title: 'Всего, мс', value: item => item.result?.timings.total ?? 0,
+        format: item => item.result ? item.result.timings.total.toFixed(1) : '—'
+    }
+];
+
+// Сортируемая таблица результатов пакетной обработки
+export class BatchTable {
+    private container: HTMLElement;
+    private items: BatchItem[] = [];
+    private sortKey: SortKey = 'name';
+    private ascending = true;
+    private onOpen: (item: BatchItem) => void;
+
+    constructor(container: HTMLElement, onOpen: (item: BatchItem) => void) {
+        this.container = container;
+        this.onOpen = onOpen;
+    }
+
+    setItems(items: BatchItem[]): void {
+        this.items = items;
+        this.render();
+    }
+
+    addItem(item: BatchItem): void {
+        this.items.push(item);
+        this.render();
+    }
+
+    clear(): void {
+        this.items = [];
+        this.render();
+    }
+
+    getItems(): BatchItem[] {
+        return this.items;
+    }
+
+    private sortBy(key: SortKey): void {
+        if (this.sortKey === key) {
+            this.ascending = !this.ascending;
+        } else {
+            this.sortKey = key;
+            this.ascending = key === 'name';
+        }
+        this.render();
+    }
+
+    private sorted(): BatchItem[] {
+        const column = COLUMNS.find(col => col.key === this.sortKey)!;
+        const direction = this.ascending ? 1 : -1;
+        return [...this.items].sort((a, b) => {
+            const va = column.value(a);
+            const vb = column.value(b);
+            const cmp = typeof va === 'string' ? va.localeCompare(String(vb)) : va - (vb as number);
+            return cmp * direction;
+        });
+    }
+
+    private render(): void {
+        this.container.innerHTML = '';
+        if (this.items.length === 0) {
+            this.container.style.display = 'none';
+            return;
+        }
+        this.container.style.display = 'block';
+
+        const table = document.createElement('table');
+        table.className = 'batch-table';
+
+        const headRow = table.createTHead().insertRow();
+        const previewTh = document.createElement('th');
+        previewTh.textContent = 'Превью';
+        headRow.appendChild(previewTh);
+        for (const column of COLUMNS) {
+            const th = document.createElement('th');
+            const arrow = column.key === this.sortKey ? (this.ascending ? ' ▲' : ' ▼') : '';
+            th.textContent = column.title + arrow;
+            th.className = 'sortable';
+            th.addEventListener('click', () => this.sortBy(column.key));
+            headRow.appendChild(th);
+        }
+
+        const body = table.createTBody();
+        for (const item of this.sorted()) {
+            const row = body.insertRow();
+            if (item.error) row.title = item.error;
+
+            const thumbCell = row.insertCell();
+            if (item.thumbnail) {
+                const img = document.createElement('img');
+                img.src = item.thumbnail;
+                img.alt = item.name;
+                img.className = 'batch-thumbnail';
+                img.addEventListener('click', () => this.onOpen(item));
+                thumbCell.appendChild(img);
+            }
+
+            for (const column of COLUMNS) {
+                row.insertCell().innerHTML = column.format(item);
+            }
+        }
+
+        this.container.appendChild(table);
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
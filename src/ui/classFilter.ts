@@ -0,0 +1,75 @@
+import type { FilterSettings } from '../utils/filterSettings';
+
+// Список классов модели: флажок включает класс, ползунок задает его порог.
+// Пока порог класса не трогали, ползунок показывает общий порог. onChange получает
+// функцию обновления, а не готовые настройки: строки меняют их независимо друг от друга,
+// и возвращает настройки после обновления.
+export function renderClassFilter(
+    container: HTMLElement,
+    names: string[],
+    settings: FilterSettings,
+    onChange: (update: (settings: FilterSettings) => FilterSettings) => FilterSettings
+): void {
+    container.innerHTML = '';
+
+    names.forEach(name => {
+        const row = document.createElement('div');
+        row.className = 'class-filter-row';
+        const override = settings.classThresholds[name];
+
+        const enabled = document.createElement('input');
+        enabled.type = 'checkbox';
+        enabled.checked = !settings.disabledClasses.includes(name);
+        enabled.title = 'Показывать класс';
+
+        const label = document.createElement('span');
+        label.className = 'class-filter-name';
+        label.textContent = name;
+
+        const range = document.createElement('input');
+        range.type = 'range';
+        range.min = '0.05';
+        range.max = '0.95';
+        range.step = '0.05';
+        range.value = String(override ?? settings.threshold);
+        range.disabled = !enabled.checked;
+
+        const value = document.createElement('span');
+        value.className = 'class-filter-value';
+        value.textContent = (override ?? settings.threshold).toFixed(2);
+
+        const reset = document.createElement('button');
+        reset.type = 'button';
+        reset.textContent = '↺';
+        reset.title = 'Вернуть общий порог';
+        reset.disabled = override === undefined;
+
+        enabled.addEventListener('change', () => {
+            range.disabled = !enabled.checked;
+            onChange(current => {
+                const disabledClasses = current.disabledClasses.filter(other => other !== name);
+                if (!enabled.checked) disabledClasses.push(name);
+                return { ...current, disabledClasses };
+            });
+        });
+        range.addEventListener('input', () => {
+            const threshold = parseFloat(range.value);
+            value.textContent = threshold.toFixed(2);
+            reset.disabled = false;
+            onChange(current => ({ ...current, classThresholds: { ...current.classThresholds, [name]: threshold } }));
+        });
+        reset.addEventListener('click', () => {
+            const next = onChange(current => {
+                const classThresholds = { ...current.classThresholds };
+                delete classThresholds[name];
+                return { ...current, classThresholds };
+            });
+            range.value = String(next.threshold);
+            value.textContent = next.threshold.toFixed(2);
+            reset.disabled = true;
+        });
+
+        row.append(enabled, label, range, value, reset);
+        container.appendChild(row);
+    });
+}
@@ -0,0 +1,349 @@
+import { getLabel } from '../core/browser';
+import type { DebugCandidate, DebugInfo, Detection, InferenceResult } from '../core/browser';
+import type { Canvas2D } from '../utils/draw';
+
+// Опорные точки палитры тепловой карты: от темно-синего через красный к светло-желтому
+const HEAT_STOPS: [number, number, number][] = [
+    [0, 0, 4], [40, 11, 84], [101, 21, 110], [159, 42, 99], [212, 72, 66], [245, 125, 21], [250, 193, 39], [252, 255, 164]
+];
+
+// Сколько строк кандидатов показывать в таблице; на изображении рисуются все
+const TABLE_ROWS = 100;
+const PROTOTYPE_COLUMNS = 8;
+
+function heatColor(value: number): [number, number, number] {
+    const t = Math.min(1, Math.max(0, value)) * (HEAT_STOPS.length - 1);
+    const i = Math.min(HEAT_STOPS.length - 2, Math.floor(t));
+    const f = t - i;
+    const [a, b] = [HEAT_STOPS[i], HEAT_STOPS[i + 1]];
+    return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+}
+
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, className?: string, text?: string): HTMLElementTagNameMap[K] {
+    const node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+}
+
+function candidateStatus(candidate: DebugCandidate): string {
+    if (candidate.kept) return '✅ остался';
+    if (candidate.suppressedBy === undefined) return '✂️ лимит max_det';
+    return `⛔ подавлен #${candidate.suppressedBy + 1}`;
+}
+
+// Панель отладки постобработки: тепловые карты score по сеткам якорей, кандидаты до и после NMS,
+// прототипы масок и коэффициенты выбранного объекта. Данные приходят в InferenceResult.debug.
+export class DebugPanel {
+    private container: HTMLElement;
+    private onHighlight: () => void;
+    private result: InferenceResult | null = null;
+    private names: string[] = [];
+    private heatmapClass = -1; // -1 - максимум по всем классам
+    private selectedIndex = -1;
+    private highlighted: number | null = null; // кандидат под курсором в таблице
+    private showCandidates = true;
+    private coefficients: HTMLElement | null = null;
+
+    constructor(container: HTMLElement, onHighlight: () => void) {
+        this.container = container;
+        this.onHighlight = onHighlight;
+    }
+
+    get isVisible(): boolean {
+        return this.result !== null;
+    }
+
+    // null или результат без debug прячет панель
+    setResult(result: InferenceResult | null, names: string[]): void {
+        this.result = result?.debug ? result : null;
+        this.names = names;
+        this.selectedIndex = -1;
+        this.highlighted = null;
+        if (this.heatmapClass >= names.length) this.heatmapClass = -1;
+        this.render();
+    }
+
+    // Объект, выбранный в редакторе; его коэффициенты показываются под прототипами
+    setSelected(detection: Detection | null): void {
+        const index = detection && this.result ? this.result.detections.indexOf(detection) : -1;
+        if (index === this.selectedIndex || index < 0) return;
+        this.selectedIndex = index;
+        this.renderCoefficients();
+    }
+
+    // Кандидаты поверх кадра: выжившие - сплошной линией, подавленные - пунктиром,
+    // выбранный в таблице - толстой рамкой вместе с тем, кто его подавил.
+    // Чужой результат (панель еще не получила новый) не трогаем
+    drawOverlay(ctx: Canvas2D, result: InferenceResult): void {
+        const debug = result.debug;
+        if (!debug || result !== this.result || !this.showCandidates) return;
+
+        ctx.save();
+        const lineWidth = Math.max(1, Math.round(Math.min(result.width, result.height) / 500));
+        debug.candidates.forEach(candidate => {
+            ctx.lineWidth = lineWidth;
+            ctx.setLineDash(candidate.kept ? [] : [lineWidth * 4, lineWidth * 3]);
+            ctx.strokeStyle = candidate.kept ? 'rgba(0, 255, 128, 0.8)' : 'rgba(255, 80, 80, 0.5)';
+            const { x, y, width, height } = candidate.box;
+            ctx.strokeRect(x, y, width, height);
+        });
+
+        if (this.highlighted !== null) {
+            const candidate = debug.candidates[this.highlighted];
+            const related = candidate.suppressedBy !== undefined ? [debug.candidates[candidate.suppressedBy], candidate] : [candidate];
+            ctx.setLineDash([]);
+            ctx.lineWidth = lineWidth * 3;
+            related.forEach((item, i) => {
+                ctx.strokeStyle = i === related.length - 1 ? '#ffeb3b' : '#00e5ff';
+                ctx.strokeRect(item.box.x, item.box.y, item.box.width, item.box.height);
+            });
+        }
+        ctx.restore();
+    }
+
+    private render(): void {
+        this.container.innerHTML = '';
+        this.coefficients = null;
+        const debug = this.result?.debug;
+        if (!debug) {
+            this.container.style.display = 'none';
+            return;
+        }
+        this.container.style.display = 'block';
+
+        this.container.appendChild(element('h3', undefined, '🐞 Отладка постобработки'));
+        this.container.appendChild(this.renderHeatmaps(debug));
+        this.container.appendChild(this.renderCandidates(debug));
+        if (debug.prototypes) {
+            this.container.appendChild(this.renderPrototypes(debug));
+            this.coefficients = element('div', 'debug-coefficients');
+            this.container.appendChild(this.coefficients);
+            this.renderCoefficients();
+        }
+    }
+
+    private renderHeatmaps(debug: DebugInfo): HTMLElement {
+        const section = element('section', 'debug-section');
+        const header = element('div', 'debug-header');
+        header.appendChild(element('strong', undefined, '🌡️ Score якорей'));
+
+        if (debug.grids.length === 0) {
+            header.appendChild(element('span', 'debug-note', 'У модели со встроенным NMS нет поякорного выхода'));
+            section.appendChild(header);
+            return section;
+        }
+
+        const select = element('select');
+        select.add(new Option('максимум по классам', '-1'));
+        this.names.forEach((name, classId) => select.add(new Option(name, String(classId))));
+        select.value = String(this.heatmapClass);
+        header.appendChild(select);
+        section.appendChild(header);
+
+        let grids = this.renderGrids(debug);
+        section.appendChild(grids);
+        select.addEventListener('change', () => {
+            this.heatmapClass = parseInt(select.value, 10);
+            const updated = this.renderGrids(debug);
+            grids.replaceWith(updated);
+            grids = updated;
+        });
+        return section;
+    }
+
+    // Одна ячейка сетки - один пиксель, увеличение делает CSS без сглаживания
+    private renderGrids(debug: DebugInfo): HTMLElement {
+        const row = element('div', 'debug-grids');
+        const { numClasses, scores } = debug;
+
+        for (const grid of debug.grids) {
+            const canvas = element('canvas');
+            canvas.width = grid.width;
+            canvas.height = grid.height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) continue;
+
+            const image = ctx.createImageData(grid.width, grid.height);
+            let peak = 0;
+            for (let cell = 0; cell < grid.width * grid.height; cell++) {
+                const base = (grid.offset + cell) * numClasses;
+                let score = 0;
+                if (this.heatmapClass >= 0) {
+                    score = scores[base + this.heatmapClass];
+                } else {
+                    for (let c = 0; c < numClasses; c++) score = Math.max(score, scores[base + c]);
+                }
+                peak = Math.max(peak, score);
+                const [r, g, b] = heatColor(score);
+                image.data.set([r, g, b, 255], cell * 4);
+            }
+            ctx.putImageData(image, 0, 0);
+
+            const figure = element('figure', 'debug-grid');
+            figure.append(canvas, element('figcaption', undefined, `${grid.width}×${grid.height}, шаг ${grid.stride}, макс. ${peak.toFixed(3)}`));
+            row.appendChild(figure);
+        }
+        return row;
+    }
+
+    private renderCandidates(debug: DebugInfo): HTMLElement {
+        const section = element('section', 'debug-section');
+        const kept = debug.candidates.filter(candidate => candidate.kept).length;
+        const shown = debug.candidates.length < debug.totalCandidates ? ` (разобрано верхних ${debug.candidates.length})` : '';
+
+        const header = element('div', 'debug-header');
+        header.appendChild(element('strong', undefined, `🧮 Кандидаты: до NMS ${debug.totalCandidates}${shown}, после NMS ${kept}`));
+        const toggle = element('label');
+        const checkbox = element('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = this.showCandidates;
+        checkbox.addEventListener('change', () => {
+            this.showCandidates = checkbox.checked;
+            this.onHighlight();
+        });
+        toggle.append(checkbox, ' на изображении');
+        header.appendChild(toggle);
+        section.appendChild(header);
+
+        if (debug.candidates.length === 0) {
+            section.appendChild(element('div', 'debug-note', 'Ни один якорь не прошел порог'));
+            return section;
+        }
+
+        const fmt = (value: number) => value.toFixed(0);
+        const table = element('table', 'debug-candidates');
+        table.innerHTML = '<thead><tr><th>#</th><th>Якорь</th><th>Класс</th><th>Score</th><th>Бокс</th><th>IoU</th><th>NMS</th></tr></thead>';
+        const body = element('tbody');
+        debug.candidates.slice(0, TABLE_ROWS).forEach((candidate, index) => {
+            const tr = element('tr', candidate.kept ? 'kept' : 'suppressed');
+            const { x, y, width, height } = candidate.box;
+            const cells = [
+                String(index + 1),
+                String(candidate.anchor),
+                getLabel(this.names, candidate.class),
+                candidate.score.toFixed(3),
+                `${fmt(x)}, ${fmt(y)} — ${fmt(width)}×${fmt(height)}`,
+                candidate.iou !== undefined ? candidate.iou.toFixed(2) : '—',
+                candidateStatus(candidate)
+            ];
+            cells.forEach(text => tr.appendChild(element('td', undefined, text)));
+            tr.addEventListener('mouseenter', () => {
+                this.highlighted = index;
+                this.onHighlight();
+            });
+            tr.addEventListener('mouseleave', () => {
+                this.highlighted = null;
+                this.onHighlight();
+            });
+            body.appendChild(tr);
+        });
+        table.appendChild(body);
+
+        const wrapper = element('div', 'debug-table-wrapper');
+        wrapper.appendChild(table);
+        section.appendChild(wrapper);
+        if (debug.candidates.length > TABLE_ROWS) {
+            section.appendChild(element('div', 'debug-note', `В таблице первые ${TABLE_ROWS} по score`));
+        }
+        return section;
+    }
+
+    // Тайлы прототипов, каждый нормирован на свой диапазон: важна форма, а не масштаб
+    private renderPrototypes(debug: DebugInfo): HTMLElement {
+        const { count, width, height, data } = debug.prototypes!;
+        const section = element('section', 'debug-section');
+        section.appendChild(element('div', 'debug-header', `🧩 Прототипы масок: ${count} × ${width}×${height}`));
+
+        const columns = Math.min(PROTOTYPE_COLUMNS, count);
+        const canvas = element('canvas', 'debug-prototypes');
+        canvas.width = columns * width;
+        canvas.height = Math.ceil(count / columns) * height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return section;
+
+        const size = width * height;
+        for (let p = 0; p < count; p++) {
+            const tile = data.subarray(p * size, (p + 1) * size);
+            let min = Infinity;
+            let max = -Infinity;
+            for (const value of tile) {
+                min = Math.min(min, value);
+                max = Math.max(max, value);
+            }
+            const range = max - min || 1;
+
+            const image = ctx.createImageData(width, height);
+            for (let i = 0; i < size; i++) {
+                const gray = ((tile[i] - min) / range) * 255;
+                image.data.set([gray, gray, gray, 255], i * 4);
+            }
+            ctx.putImageData(image, (p % columns) * width, Math.floor(p / columns) * height);
+        }
+
+        ctx.font = `bold ${Math.max(10, Math.round(height / 8))}px Arial`;
+        ctx.fillStyle = '#ffeb3b';
+        for (let p = 0; p < count; p++) {
+            ctx.fillText(String(p), (p % columns) * width + 4, Math.floor(p / columns) * height + Math.round(height / 8) + 2);
+        }
+
+        section.appendChild(canvas);
+        return section;
+    }
+
+    // Коэффициенты выбранного объекта: маска - сигмоида от их взвешенной суммы с прототипами
+    private renderCoefficients(): void {
+        const container = this.coefficients;
+        const result = this.result;
+        if (!container || !result) return;
+        container.innerHTML = '';
+
+        const header = element('div', 'debug-header');
+        header.appendChild(element('strong', undefined, '📊 Коэффициенты масок'));
+        const select = element('select');
+        select.add(new Option('выберите объект', '-1'));
+        result.detections.forEach((det, index) => {
+            select.add(new Option(`${index + 1}. ${getLabel(this.names, det.class)} ${det.score.toFixed(2)}`, String(index)));
+        });
+        select.value = String(this.selectedIndex);
+        select.addEventListener('change', () => {
+            this.selectedIndex = parseInt(select.value, 10);
+            this.renderCoefficients();
+        });
+        header.appendChild(select);
+        container.appendChild(header);
+
+        const coeffs = result.detections[this.selectedIndex]?.maskCoeffs;
+        if (!coeffs) {
+            const hint = this.selectedIndex < 0 ? 'Объект можно выбрать и в редакторе' : 'У объекта нет коэффициентов (слит из тайлов или TTA, или нарисован вручную)';
+            container.appendChild(element('div', 'debug-note', hint));
+            return;
+        }
+
+        // Столбики вверх - положительные (синие), вниз - отрицательные (красные)
+        const barWidth = 18;
+        const chartHeight = 140;
+        const canvas = element('canvas', 'debug-coefficient-chart');
+        canvas.width = coeffs.length * barWidth;
+        canvas.height = chartHeight + 16;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const peak = Math.max(...coeffs.map(Math.abs)) || 1;
+        const middle = chartHeight / 2;
+        ctx.fillStyle = '#888';
+        ctx.fillRect(0, middle, canvas.width, 1);
+        ctx.font = '10px Arial';
+        ctx.textAlign = 'center';
+        coeffs.forEach((value, i) => {
+            const height = (Math.abs(value) / peak) * (middle - 2);
+            ctx.fillStyle = value >= 0 ? '#4c8dff' : '#ff5c5c';
+            ctx.fillRect(i * barWidth + 3, value >= 0 ? middle - height : middle + 1, barWidth - 6, height);
+            ctx.fillStyle = '#aaa';
+            ctx.fillText(String(i), i * barWidth + barWidth / 2, chartHeight + 12);
+        });
+
+        const values = element('div', 'debug-note', coeffs.map((value, i) => `${i}: ${value.toFixed(2)}`).join('  '));
+        container.append(canvas, values);
+    }
+}
@@ -0,0 +1,15 @@
+// Скачивание сгенерированного файла через временную ссылку
+export function downloadFile(fileName: string, data: Uint8Array | string | Blob, mime: string): void {
+    const blob = data instanceof Blob ? data : new Blob([data as BlobPart], { type: mime });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Даем браузеру начать загрузку до освобождения URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
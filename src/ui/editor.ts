@@ -0,0 +1,439 @@
+import {
+    cloneDetection,
+    detectionFromPolygon,
+    getLabel,
+    hitTest,
+    measureMask,
+    normalizeBox,
+    paintMask,
+    resizeDetection,
+    translateDetection,
+    EditHistory
+} from '../core/browser';
+import type { BoundingBox, Detection, InferenceResult, Point } from '../core/browser';
+
+export type EditorTool = 'select' | 'brush' | 'eraser' | 'polygon';
+
+// Перетаскивание: сдвиг целиком или угол бокса. Исходная детекция хранится,
+// чтобы уменьшение и обратное растягивание не съедали маску.
+type Drag =
+    | { kind: 'move'; start: Point; applied: Point }
+    | { kind: 'resize'; corner: number; original: Detection }
+    | { kind: 'paint'; last: Point };
+
+const HANDLE_SIZE = 8; // размер ручки в CSS-пикселях
+const CLOSE_DISTANCE = 10; // в CSS-пикселях: клик у первой точки замыкает полигон
+
+// Слой правки поверх основного canvas: выбор, удаление, перемещение и изменение боксов,
+// кисть и ластик для масок, обводка пропущенного объекта, смена класса, undo/redo.
+// Детекции меняются на месте, перерисовку кадра делает onChange.
+export class ResultEditor {
+    private canvas: HTMLCanvasElement;
+    private tooltip: HTMLElement;
+    private onChange: () => void;
+    private result: InferenceResult | null = null;
+    private labels: string[] = [];
+    private history = new EditHistory();
+    private enabled = false;
+    private tool: EditorTool = 'select';
+    private brushRadius = 8;
+    private classId = 0; // класс для новых объектов
+    private selected = -1;
+    private hovered = -1;
+    private drag: Drag | null = null;
+    private recorded = false; // состояние до текущей правки уже в истории
+    private polygon: Point[] = [];
+    private cursor: Point | null = null;
+    private frame: number | null = null;
+
+    constructor(canvas: HTMLCanvasElement, tooltip: HTMLElement, onChange: () => void) {
+        this.canvas = canvas;
+        this.tooltip = tooltip;
+        this.onChange = onChange;
+
+        canvas.addEventListener('pointerdown', event => this.handlePointerDown(event));
+        canvas.addEventListener('pointermove', event => this.handlePointerMove(event));
+        canvas.addEventListener('pointerup', event => this.handlePointerUp(event));
+        canvas.addEventListener('pointercancel', event => this.handlePointerUp(event));
+        canvas.addEventListener('pointerleave', () => this.handlePointerLeave());
+        canvas.addEventListener('dblclick', () => this.closePolygon());
+        document.addEventListener('keydown', event => this.handleKeyDown(event));
+    }
+
+    // Новый результат - новая история; тот же объект (перерисовка) историю сохраняет
+    setResult(result: InferenceResult | null, labels: string[]): void {
+        if (result !== this.result) {
+            this.history.clear();
+            this.selected = -1;
+            this.hovered = -1;
+            this.drag = null;
+            this.polygon = [];
+        }
+        this.result = result;
+        this.labels = labels;
+        this.hideTooltip();
+    }
+
+    setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        this.canvas.classList.toggle('editing', enabled);
+        if (!enabled) {
+            this.selected = -1;
+            this.hovered = -1;
+            this.polygon = [];
+            this.hideTooltip();
+        }
+        this.update();
+    }
+
+    setTool(tool: EditorTool): void {
+        this.tool = tool;
+        this.polygon = [];
+        this.canvas.dataset.tool = tool;
+        this.update();
+    }
+
+    setBrushRadius(radius: number): void {
+        this.brushRadius = Math.max(1, radius);
+    }
+
+    // Класс для новых объектов; выбранный объект тоже получает этот класс
+    setClass(classId: number): void {
+        this.classId = classId;
+        const det = this.selectedDetection;
+        if (det && det.class !== classId) {
+            this.record();
+            det.class = classId;
+            this.update();
+        }
+    }
+
+    get selectedDetection(): Detection | null {
+        return this.result?.detections[this.selected] ?? null;
+    }
+
+    get canUndo(): boolean {
+        return this.history.canUndo;
+    }
+
+    get canRedo(): boolean {
+        return this.history.canRedo;
+    }
+
+    deleteSelected(): void {
+        if (!this.result || !this.selectedDetection) return;
+        this.record();
+        this.result.detections.splice(this.selected, 1);
+        this.selected = -1;
+        this.hovered = -1;
+        this.hideTooltip();
+        this.update();
+    }
+
+    undo(): void {
+        if (this.result) this.restore(this.history.undo(this.result.detections));
+    }
+
+    redo(): void {
+        if (this.result) this.restore(this.history.redo(this.result.detections));
+    }
+
+    // Выделение, ручки, недорисованный полигон и кисть поверх уже нарисованного кадра
+    drawOverlay(ctx: CanvasRenderingContext2D): void {
+        if (!this.enabled || !this.result) return;
+        const px = this.pixelScale();
+        ctx.save();
+        ctx.lineWidth = 2 * px;
+
+        const hovered = this.result.detections[this.hovered];
+        if (hovered && this.hovered !== this.selected) {
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+            ctx.setLineDash([4 * px, 4 * px]);
+            strokeBox(ctx, hovered.box);
+        }
+
+        const selected = this.selectedDetection;
+        if (selected) {
+            ctx.setLineDash([]);
+            ctx.strokeStyle = '#ffeb3b';
+            strokeBox(ctx, selected.box);
+            if (this.tool === 'select') {
+                const size = HANDLE_SIZE * px;
+                ctx.fillStyle = '#ffeb3b';
+                for (const corner of boxCorners(selected.box)) {
+                    ctx.fillRect(corner.x - size / 2, corner.y - size / 2, size, size);
+                }
+            }
+        }
+
+        if (this.polygon.length > 0) {
+            ctx.setLineDash([]);
+            ctx.strokeStyle = '#00e5ff';
+            ctx.fillStyle = '#00e5ff';
+            ctx.beginPath();
+            this.polygon.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            if (this.cursor) ctx.lineTo(this.cursor.x, this.cursor.y);
+            ctx.stroke();
+            for (const p of this.polygon) {
+                ctx.beginPath();
+                ctx.arc(p.x, p.y, 3 * px, 0, Math.PI * 2);
+                ctx.fill();
+            }
+        }
+
+        if ((this.tool === 'brush' || this.tool === 'eraser') && this.cursor) {
+            ctx.setLineDash([]);
+            ctx.strokeStyle = this.tool === 'brush' ? '#ffffff' : '#ff5252';
+            ctx.beginPath();
+            ctx.arc(this.cursor.x, this.cursor.y, this.brushRadius, 0, Math.PI * 2);
+            ctx.stroke();
+        }
+        ctx.restore();
+    }
+
+    private handlePointerDown(event: PointerEvent): void {
+        if (!this.enabled || !this.result || event.button !== 0) return;
+        const point = this.toImage(event);
+        const detections = this.result.detections;
+        this.recorded = false;
+
+        switch (this.tool) {
+            case 'select': {
+                const corner = this.selectedDetection ? this.cornerAt(this.selectedDetection.box, point) : -1;
+                if (corner >= 0) {
+                    this.drag = { kind: 'resize', corner, original: cloneDetection(this.selectedDetection!) };
+                } else {
+                    this.selected = hitTest(detections, point.x, point.y);
+                    // Новый полигон по умолчанию того же класса, что и последний выбранный объект
+                    if (this.selectedDetection) this.classId = this.selectedDetection.class;
+                    this.drag = this.selected >= 0 ? { kind: 'move', start: point, applied: { x: 0, y: 0 } } : null;
+                }
+                break;
+            }
+            case 'brush':
+            case 'eraser': {
+                // Кисть правит выбранный объект, а без выбора - тот, на котором начат мазок
+                if (!this.selectedDetection) {
+                    this.selected = hitTest(detections, point.x, point.y);
+                }
+                if (!this.selectedDetection) break;
+                this.drag = { kind: 'paint', last: point };
+                this.paint(point);
+                break;
+            }
+            case 'polygon':
+                if (this.polygon.length >= 3 && this.distanceCss(point, this.polygon[0]) <= CLOSE_DISTANCE) {
+                    this.closePolygon();
+                    return;
+                }
+                this.polygon.push(point);
+                break;
+        }
+
+        if (this.drag) this.canvas.setPointerCapture(event.pointerId);
+        this.update();
+    }
+
+    private handlePointerMove(event: PointerEvent): void {
+        if (!this.enabled || !this.result) return;
+        const point = this.toImage(event);
+        this.cursor = point;
+
+        const drag = this.drag;
+        const det = this.selectedDetection;
+        if (drag && det) {
+            if (drag.kind === 'move') {
+                const dx = Math.round(point.x - drag.start.x) - drag.applied.x;
+                const dy = Math.round(point.y - drag.start.y) - drag.applied.y;
+                if (dx !== 0 || dy !== 0) {
+                    this.record();
+                    translateDetection(det, dx, dy);
+                    drag.applied = { x: drag.applied.x + dx, y: drag.applied.y + dy };
+                }
+            } else if (drag.kind === 'resize') {
+                this.record();
+                const restored = cloneDetection(drag.original);
+                det.box = restored.box;
+                det.mask = restored.mask;
+                resizeDetection(det, this.resizedBox(drag.original.box, drag.corner, point));
+            } else {
+                // Промежуточные точки, чтобы быстрый мазок не рассыпался на отдельные круги
+                const step = Math.max(1, this.brushRadius / 2);
+                const steps = Math.ceil(Math.hypot(point.x - drag.last.x, point.y - drag.last.y) / step);
+                for (let i = 1; i <= steps; i++) {
+                    const t = i / steps;
+                    this.paint({ x: drag.last.x + (point.x - drag.last.x) * t, y: drag.last.y + (point.y - drag.last.y) * t });
+                }
+                drag.last = point;
+            }
+        } else {
+            this.hovered = hitTest(this.result.detections, point.x, point.y);
+            this.showTooltip(event);
+        }
+        this.update();
+    }
+
+    private handlePointerUp(event: PointerEvent): void {
+        if (!this.drag) return;
+        if (this.canvas.hasPointerCapture(event.pointerId)) {
+            this.canvas.releasePointerCapture(event.pointerId);
+        }
+        // Геометрию маски пересчитываем один раз в конце правки, а не на каждое движение
+        const det = this.selectedDetection;
+        if (this.recorded && det && this.result) {
+            this.remeasure(det, this.result);
+        }
+        this.drag = null;
+        this.update();
+    }
+
+    private handlePointerLeave(): void {
+        this.cursor = null;
+        this.hovered = -1;
+        this.hideTooltip();
+        if (this.enabled) this.update();
+    }
+
+    private handleKeyDown(event: KeyboardEvent): void {
+        if (!this.enabled || !this.result) return;
+        const target = event.target as HTMLElement | null;
+        if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+
+        const ctrl = event.ctrlKey || event.metaKey;
+        const key = event.key.toLowerCase();
+        if (ctrl && key === 'z') {
+            if (event.shiftKey) this.redo(); else this.undo();
+        } else if (ctrl && key === 'y') {
+            this.redo();
+        } else if (event.key === 'Delete' || event.key === 'Backspace') {
+            this.deleteSelected();
+        } else if (event.key === 'Enter' && this.polygon.length > 0) {
+            this.closePolygon();
+        } else if (event.key === 'Escape') {
+            this.polygon = [];
+            this.selected = -1;
+            this.update();
+        } else {
+            return;
+        }
+        event.preventDefault();
+    }
+
+    // Полигон из трех точек и больше становится новым объектом с классом из списка
+    private closePolygon(): void {
+        if (!this.result || this.tool !== 'polygon') return;
+        const polygon = this.polygon;
+        this.polygon = [];
+        if (polygon.length >= 3) {
+            const det = detectionFromPolygon(polygon, this.classId, this.result.width, this.result.height);
+            if (det) {
+                this.record();
+                this.remeasure(det, this.result);
+                this.result.detections.push(det);
+                this.selected = this.result.detections.length - 1;
+            }
+        }
+        this.update();
+    }
+
+    private paint(point: Point): void {
+        const det = this.selectedDetection;
+        if (!det || !this.result) return;
+        this.record();
+        paintMask(det, point.x, point.y, this.brushRadius, this.tool === 'brush' ? 1 : 0, this.result.width, this.result.height);
+    }
+
+    private remeasure(det: Detection, result: InferenceResult): void {
+        const measurements = det.mask ? measureMask(det.mask, result.width, result.height) : null;
+        if (measurements) {
+            det.measurements = measurements;
+        } else {
+            delete det.measurements;
+        }
+    }
+
+    // В историю кладется состояние до первого реального изменения правки
+    private record(): void {
+        if (this.recorded && this.drag) return;
+        this.history.record(this.result!.detections);
+        this.recorded = true;
+    }
+
+    private restore(detections: Detection[] | null): void {
+        if (!detections || !this.result) return;
+        this.result.detections.splice(0, this.result.detections.length, ...detections);
+        this.selected = -1;
+        this.hovered = -1;
+        this.polygon = [];
+        this.update();
+    }
+
+    private resizedBox(box: BoundingBox, corner: number, point: Point): BoundingBox {
+        // Противоположный угол остается на месте
+        const fixed = boxCorners(box)[(corner + 2) % 4];
+        return normalizeBox({ x: fixed.x, y: fixed.y, width: point.x - fixed.x, height: point.y - fixed.y });
+    }
+
+    private cornerAt(box: BoundingBox, point: Point): number {
+        return boxCorners(box).findIndex(corner => this.distanceCss(corner, point) <= HANDLE_SIZE);
+    }
+
+    // Перерисовка не чаще кадра экрана: pointermove приходит заметно чаще
+    private update(): void {
+        if (this.frame !== null) return;
+        this.frame = requestAnimationFrame(() => {
+            this.frame = null;
+            this.onChange();
+        });
+    }
+
+    private showTooltip(event: PointerEvent): void {
+        const det = this.result?.detections[this.hovered];
+        if (!det) {
+            this.hideTooltip();
+            return;
+        }
+        const parent = this.tooltip.offsetParent?.getBoundingClientRect();
+        this.tooltip.textContent = `${getLabel(this.labels, det.class)} ${(det.score * 100).toFixed(1)}%`;
+        this.tooltip.style.left = `${event.clientX - (parent?.left ?? 0) + 12}px`;
+        this.tooltip.style.top = `${event.clientY - (parent?.top ?? 0) + 12}px`;
+        this.tooltip.style.display = 'block';
+    }
+
+    private hideTooltip(): void {
+        this.tooltip.style.display = 'none';
+    }
+
+    // canvas растянут CSS-ом: переводим координаты указателя в пиксели изображения
+    private toImage(event: PointerEvent): Point {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (event.clientX - rect.left) * this.canvas.width / rect.width,
+            y: (event.clientY - rect.top) * this.canvas.height / rect.height
+        };
+    }
+
+    // Сколько пикселей изображения приходится на CSS-пиксель
+    private pixelScale(): number {
+        const rect = this.canvas.getBoundingClientRect();
+        return rect.width > 0 ? this.canvas.width / rect.width : 1;
+    }
+
+    private distanceCss(a: Point, b: Point): number {
+        return Math.hypot(a.x - b.x, a.y - b.y) / this.pixelScale();
+    }
+}
+
+// Углы по часовой стрелке от левого верхнего: противоположный угол - через два
+function boxCorners({ x, y, width, height }: BoundingBox): Point[] {
+    return [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height }
+    ];
+}
+
+function strokeBox(ctx: CanvasRenderingContext2D, { x, y, width, height }: BoundingBox): void {
+    ctx.strokeRect(x, y, width, height);
+}
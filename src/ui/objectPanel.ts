@@ -0,0 +1,55 @@
+import { getLabel } from '../core/browser';
+import type { Detection } from '../core/browser';
+
+const fmt = (value: number, digits: number = 1) => value.toFixed(digits);
+
+// Боковая панель с параметрами каждого найденного объекта
+export function renderObjectPanel(container: HTMLElement, detections: Detection[], labels: string[]): void {
+    container.innerHTML = '';
+    if (detections.length === 0) {
+        container.style.display = 'none';
+        return;
+    }
+    container.style.display = 'block';
+
+    const title = document.createElement('h3');
+    title.textContent = `📐 Объекты (${detections.length})`;
+    container.appendChild(title);
+
+    detections.forEach((det, index) => {
+        const card = document.createElement('div');
+        card.className = 'object-card';
+
+        const name = det.trackId !== undefined ? `#${det.trackId}` : `${index + 1}.`;
+        const { x, y, width, height } = det.box;
+        const rows: [string, string][] = [
+            ['Score', `${fmt(det.score * 100)}%`],
+            ['Бокс', `${fmt(x, 0)}, ${fmt(y, 0)} — ${fmt(width, 0)}×${fmt(height, 0)}`]
+        ];
+
+        const m = det.measurements;
+        if (m) {
+            rows.push(
+                ['Площадь', `${fmt(m.area, 0)} px² (${fmt(m.areaFraction * 100, 2)}%)`],
+                ['Периметр', `${fmt(m.perimeter)} px`],
+                ['Центр эллипса', `${fmt(m.ellipse.cx)}, ${fmt(m.ellipse.cy)}`],
+                ['Оси эллипса', `${fmt(m.ellipse.majorAxis)} × ${fmt(m.ellipse.minorAxis)} px`],
+                ['Поворот', `${fmt(m.ellipse.angle)}°`],
+                ['Округлость', fmt(m.circularity, 3)],
+                ['Эллиптичность', fmt(m.ellipticity, 3)],
+                [
+                    m.hubOffset.detected ? 'Смещение ступицы' : 'Смещение центра масс',
+                    `${fmt(m.hubOffset.distance)} px (${fmt(m.hubOffset.relative * 100)}%)`
+                ]
+            );
+        }
+
+        card.innerHTML = `<strong>${name} ${escapeHtml(getLabel(labels, det.class))}</strong>`
+            + `<table>${rows.map(([key, value]) => `<tr><td>${key}</td><td>${value}</td></tr>`).join('')}</table>`;
+        container.appendChild(card);
+    });
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
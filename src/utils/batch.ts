@@ -0,0 +1,119 @@
+import type { InferenceResult } from '../core/browser';
+import type { InferHandle } from '../worker/client';
+
+// Сторона миниатюры в таблице результатов, px
+const THUMBNAIL_SIZE = 96;
+
+export interface BatchItem {
+    file: File;
+    name: string;
+    thumbnail: string; // data URL исходного кадра в уменьшенном виде
+    result: InferenceResult | null;
+    error?: string;
+    count: number;
+    maxScore: number;
+    meanScore: number;
+}
+
+export interface BatchProgress {
+    done: number;
+    total: number;
+    current: string;
+}
+
+// Подходят только изображения: при выборе папки в нее попадает что угодно
+export function filterImageFiles(files: Iterable<File>): File[] {
+    return [...files]
+        .filter(file => file.type.startsWith('image/'))
+        .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name));
+}
+
+// Последовательный прогон файлов через воркер. Каждый кадр отдается воркеру
+// через transfer, а тензоры освобождаются в воркере после каждого изображения,
+// поэтому память не растет с размером пачки.
+export class BatchRunner {
+    private cancelled = false;
+    private currentJob: number | null = null;
+    private infer: (frame: ImageBitmap) => InferHandle;
+    private cancelJob: (id: number) => void;
+
+    constructor(infer: (frame: ImageBitmap) => InferHandle, cancelJob: (id: number) => void) {
+        this.infer = infer;
+        this.cancelJob = cancelJob;
+    }
+
+    async run(
+        files: File[],
+        onProgress: (progress: BatchProgress) => void,
+        onItem: (item: BatchItem) => void
+    ): Promise<BatchItem[]> {
+        this.cancelled = false;
+        const items: BatchItem[] = [];
+
+        for (let i = 0; i < files.length && !this.cancelled; i++) {
+            const file = files[i];
+            const name = file.webkitRelativePath || file.name;
+            onProgress({ done: i, total: files.length, current: name });
+
+            const item = await this.processFile(file, name);
+            if (this.cancelled && !item.result) break;
+
+            items.push(item);
+            onItem(item);
+        }
+
+        onProgress({ done: items.length, total: files.length, current: '' });
+        return items;
+    }
+
+    cancel(): void {
+        this.cancelled = true;
+        if (this.currentJob !== null) {
+            this.cancelJob(this.currentJob);
+        }
+    }
+
+    private async processFile(file: File, name: string): Promise<BatchItem> {
+        const item: BatchItem = {
+            file,
+            name,
+            thumbnail: '',
+            result: null,
+            count: 0,
+            maxScore: 0,
+            meanScore: 0
+        };
+
+        try {
+            const bitmap = await createImageBitmap(file);
+            item.thumbnail = makeThumbnail(bitmap);
+
+            const job = this.infer(bitmap);
+            this.currentJob = job.id;
+            item.result = await job.promise;
+            this.currentJob = null;
+
+            if (item.result) {
+                const scores = item.result.detections.map(det => det.score);
+                item.count = scores.length;
+                item.maxScore = scores.length > 0 ? Math.max(...scores) : 0;
+                item.meanScore = scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+            }
+        } catch (error) {
+            console.error(`Ошибка обработки ${name}:`, error);
+            item.error = String(error);
+            this.currentJob = null;
+        }
+
+        return item;
+    }
+}
+
+function makeThumbnail(bitmap: ImageBitmap): string {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+}
@@ -0,0 +1,250 @@
+import { getLabel, COLORS, traceContours, hexToRgb, redactionMatte } from '../core/browser';
+import type { Detection, InferenceResult, RedactTarget } from '../core/browser';
+
+// Контекст обычного или OffscreenCanvas - отрисовка работает с обоими
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type MaskStyle = 'fill' | 'outline';
+export type BoxStyle = 'ellipse' | 'rect';
+
+export interface RenderOptions {
+    drawMasks: boolean;
+    showBoxes: boolean;
+    maskStyle: MaskStyle;
+    maskOpacity: number; // 0..1
+    boxStyle: BoxStyle;
+    fontSize: number;
+    showScores: boolean;
+    colors: string[]; // цвет по индексу класса
+}
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+    drawMasks: true,
+    showBoxes: true,
+    maskStyle: 'fill',
+    maskOpacity: 0.55,
+    boxStyle: 'ellipse',
+    fontSize: 16,
+    showScores: true,
+    colors: COLORS
+};
+
+export type RedactEffect = 'blur' | 'pixelate' | 'fill';
+
+export interface RedactOptions {
+    effect: RedactEffect;
+    target: RedactTarget;
+    strength: number; // сила размытия или размер блока пикселизации, px исходного изображения
+    feather: number; // ширина растушевки края маски, px
+    fillColor: string;
+}
+
+export const DEFAULT_REDACT_OPTIONS: RedactOptions = {
+    effect: 'blur',
+    target: 'background',
+    strength: 24,
+    feather: 6,
+    fillColor: '#808080'
+};
+
+export function drawDetections(
+    ctx: Canvas2D,
+    result: InferenceResult,
+    labels: string[],
+    options: RenderOptions = DEFAULT_RENDER_OPTIONS
+): void {
+    const lineWidth = Math.max(2, Math.round(options.fontSize / 5));
+    const labelHeight = Math.round(options.fontSize * 1.5);
+
+    ctx.lineWidth = lineWidth;
+    ctx.font = `bold ${options.fontSize}px Arial`;
+
+    result.detections.forEach((det) => {
+        // На видео цвет закреплен за треком, чтобы один диск не менял цвет между кадрами
+        const color = det.trackId !== undefined
+            ? COLORS[det.trackId % COLORS.length]
+            : options.colors[det.class % options.colors.length];
+
+        // Отрисовка маски
+        if (options.drawMasks && det.mask) {
+            drawSegmentationMask(ctx, det, color, options);
+        }
+
+        // ИЗМЕНЕНО: Отрисовка рамок только если включено
+        if (options.showBoxes) {
+            ctx.strokeStyle = color;
+            ctx.lineWidth = lineWidth;
+            ctx.beginPath();
+
+            if (options.boxStyle === 'rect') {
+                ctx.rect(det.box.x, det.box.y, det.box.width, det.box.height);
+            } else {
+                // Рисуем овал
+                const centerX = det.box.x + det.box.width / 2;
+                const centerY = det.box.y + det.box.height / 2;
+                const radiusX = det.box.width / 2;
+                const radiusY = det.box.height / 2;
+                ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
+            }
+            ctx.stroke();
+
+            // Отрисовка метки
+            const trackPrefix = det.trackId !== undefined ? `#${det.trackId} ` : '';
+            const score = options.showScores ? `: ${(det.score * 100).toFixed(1)}%` : '';
+            const label = `${trackPrefix}${getLabel(labels, det.class)}${score}`;
+            const textWidth = ctx.measureText(label).width;
+            const labelTop = Math.max(0, det.box.y - labelHeight);
+            ctx.fillStyle = color;
+            ctx.fillRect(det.box.x, labelTop, textWidth + 10, labelHeight);
+            ctx.fillStyle = '#fff';
+            ctx.fillText(label, det.box.x + 5, labelTop + labelHeight - Math.round(options.fontSize * 0.45));
+        }
+    });
+}
+
+// Рисует изображение с разметкой на отдельном холсте в исходном разрешении
+export function renderAnnotatedImage(
+    source: CanvasImageSource,
+    result: InferenceResult,
+    labels: string[],
+    options: RenderOptions
+): OffscreenCanvas {
+    const canvas = new OffscreenCanvas(result.width, result.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('OffscreenCanvas 2D недоступен');
+    }
+    ctx.drawImage(source, 0, 0, result.width, result.height);
+    drawDetections(ctx, result, labels, options);
+    return canvas;
+}
+
+function drawSegmentationMask(
+    ctx: Canvas2D,
+    detection: Detection,
+    color: string,
+    options: RenderOptions
+): void {
+    const mask = detection.mask;
+    if (!mask) return;
+
+    if (options.maskStyle === 'outline') {
+        ctx.strokeStyle = color;
+        ctx.beginPath();
+        for (const polygon of traceContours(mask)) {
+            polygon.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            ctx.closePath();
+        }
+        ctx.stroke();
+        return;
+    }
+
+    const rgb = hexToRgb(color);
+
+    // Маска живет только в пределах bbox, поэтому и ImageData создаем только для него
+    const layer = new OffscreenCanvas(mask.width, mask.height);
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) return;
+
+    const imageData = layerCtx.createImageData(mask.width, mask.height);
+    const data = imageData.data;
+    for (let i = 0; i < mask.data.length; i++) {
+        if (mask.data[i] === 0) continue;
+        const idx = i * 4;
+        data[idx] = rgb.r;
+        data[idx + 1] = rgb.g;
+        data[idx + 2] = rgb.b;
+        data[idx + 3] = 255;
+    }
+    layerCtx.putImageData(imageData, 0, 0);
+
+    // putImageData затирает пиксели под собой, поэтому накладываем через drawImage с прозрачностью
+    ctx.save();
+    ctx.globalAlpha = options.maskOpacity;
+    ctx.drawImage(layer, mask.x, mask.y);
+    ctx.restore();
+}
+
+// Скрытие по маскам для публикации: эффект накрывает фон (или сами объекты), растушеванный
+// край маски плавно переходит в четкое изображение. Разметка поверх не рисуется.
+export function drawRedacted(
+    ctx: Canvas2D,
+    source: CanvasImageSource,
+    result: InferenceResult,
+    options: RedactOptions = DEFAULT_REDACT_OPTIONS
+): void {
+    const { width, height } = result;
+    ctx.drawImage(source, 0, 0, width, height);
+
+    const layer = new OffscreenCanvas(width, height);
+    const layerCtx = layer.getContext('2d');
+    const matteCanvas = new OffscreenCanvas(width, height);
+    const matteCtx = matteCanvas.getContext('2d');
+    if (!layerCtx || !matteCtx) return;
+    drawRedactEffect(layerCtx, source, width, height, options);
+
+    // Альфа скрываемой области вырезает из слоя эффекта нужную часть
+    const alpha = redactionMatte(result.detections, width, height, options.target, options.feather);
+    const matte = matteCtx.createImageData(width, height);
+    for (let i = 0; i < alpha.length; i++) {
+        matte.data[i * 4 + 3] = alpha[i];
+    }
+    matteCtx.putImageData(matte, 0, 0);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.drawImage(matteCanvas, 0, 0);
+
+    ctx.drawImage(layer, 0, 0);
+}
+
+// Скрытое изображение в исходном разрешении для скачивания
+export function renderRedactedImage(
+    source: CanvasImageSource,
+    result: InferenceResult,
+    options: RedactOptions
+): OffscreenCanvas {
+    const canvas = new OffscreenCanvas(result.width, result.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('OffscreenCanvas 2D недоступен');
+    }
+    drawRedacted(ctx, source, result, options);
+    return canvas;
+}
+
+// Эффект на весь кадр. Размытие - уменьшение и плавное увеличение обратно: в отличие от
+// ctx.filter оно есть во всех браузерах и не просвечивает четкими краями у границ кадра.
+function drawRedactEffect(
+    ctx: OffscreenCanvasRenderingContext2D,
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    options: RedactOptions
+): void {
+    if (options.effect === 'fill') {
+        ctx.fillStyle = options.fillColor;
+        ctx.fillRect(0, 0, width, height);
+        return;
+    }
+
+    const factor = Math.max(2, options.effect === 'blur' ? options.strength / 2 : options.strength);
+    const small = new OffscreenCanvas(Math.max(1, Math.round(width / factor)), Math.max(1, Math.round(height / factor)));
+    const smallCtx = small.getContext('2d');
+    if (!smallCtx) return;
+    smallCtx.imageSmoothingQuality = 'high';
+    smallCtx.drawImage(source, 0, 0, small.width, small.height);
+
+    if (options.effect === 'pixelate') {
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(small, 0, 0, width, height);
+        return;
+    }
+
+    // Промежуточный шаг сглаживает блоки, которые дало бы прямое увеличение
+    const middle = new OffscreenCanvas(small.width * 4, small.height * 4);
+    const middleCtx = middle.getContext('2d');
+    if (!middleCtx) return;
+    middleCtx.imageSmoothingQuality = 'high';
+    middleCtx.drawImage(small, 0, 0, middle.width, middle.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(middle, 0, 0, width, height);
+}
@@ -0,0 +1,155 @@
+import { DEFAULT_POSTPROCESS_OPTIONS } from '../core/browser';
+import type { PostprocessOptions } from '../core/browser';
+
+// Настройки фильтрации детекций из интерфейса. Классы хранятся по имени, а не по индексу:
+// так настройки переживают смену модели с другим набором классов.
+export interface FilterSettings {
+    threshold: number;
+    iouThreshold: number;
+    maskThreshold: number;
+    maxDetections: number;
+    agnosticNms: boolean;
+    classThresholds: Record<string, number>; // свой порог score для класса
+    disabledClasses: string[]; // скрытые классы
+}
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+    threshold: DEFAULT_POSTPROCESS_OPTIONS.threshold,
+    iouThreshold: DEFAULT_POSTPROCESS_OPTIONS.iouThreshold,
+    maskThreshold: DEFAULT_POSTPROCESS_OPTIONS.maskThreshold,
+    maxDetections: DEFAULT_POSTPROCESS_OPTIONS.maxDetections,
+    agnosticNms: DEFAULT_POSTPROCESS_OPTIONS.agnosticNms,
+    classThresholds: {},
+    disabledClasses: []
+};
+
+const STORAGE_KEY = 'yolo-filter-settings';
+
+// Часть localStorage, которая нужна настройкам; модуль собирается и без DOM
+export interface SettingsStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+}
+
+// Имена параметров как у аргументов Ultralytics predict, где они есть
+const QUERY = {
+    threshold: 'conf',
+    iouThreshold: 'iou',
+    maskThreshold: 'mask_conf',
+    maxDetections: 'max_det',
+    agnosticNms: 'agnostic_nms',
+    classThresholds: 'class_conf', // повторяется: class_conf=rim:0.4&class_conf=hub:0.3
+    disabledClasses: 'exclude' // повторяется: exclude=hub&exclude=tire
+} as const;
+
+const clampScore = (value: number) => Math.min(1, Math.max(0, value));
+
+function readNumber(value: unknown, fallback: number, normalize: (value: number) => number): number {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? normalize(number) : fallback;
+}
+
+// Приводит что угодно (JSON из localStorage, разобранный запрос) к корректным настройкам
+function sanitize(raw: Partial<Record<keyof FilterSettings, unknown>>, base: FilterSettings): FilterSettings {
+    const classThresholds: Record<string, number> = {};
+    if (raw.classThresholds && typeof raw.classThresholds === 'object') {
+        for (const [name, value] of Object.entries(raw.classThresholds)) {
+            const threshold = readNumber(value, NaN, clampScore);
+            if (!Number.isNaN(threshold)) classThresholds[name] = threshold;
+        }
+    }
+
+    return {
+        threshold: readNumber(raw.threshold, base.threshold, clampScore),
+        iouThreshold: readNumber(raw.iouThreshold, base.iouThreshold, clampScore),
+        maskThreshold: readNumber(raw.maskThreshold, base.maskThreshold, clampScore),
+        maxDetections: readNumber(raw.maxDetections, base.maxDetections, value => Math.max(1, Math.round(value))),
+        agnosticNms: typeof raw.agnosticNms === 'boolean' ? raw.agnosticNms : base.agnosticNms,
+        classThresholds: raw.classThresholds !== undefined ? classThresholds : { ...base.classThresholds },
+        disabledClasses: Array.isArray(raw.disabledClasses)
+            ? raw.disabledClasses.filter((name): name is string => typeof name === 'string')
+            : [...base.disabledClasses]
+    };
+}
+
+// Параметры из адресной строки поверх base; отсутствующие параметры не трогают base
+export function parseFilterQuery(params: URLSearchParams, base: FilterSettings = DEFAULT_FILTER_SETTINGS): FilterSettings {
+    const raw: Partial<Record<keyof FilterSettings, unknown>> = {};
+    for (const key of ['threshold', 'iouThreshold', 'maskThreshold', 'maxDetections'] as const) {
+        if (params.has(QUERY[key])) raw[key] = params.get(QUERY[key]);
+    }
+    if (params.has(QUERY.agnosticNms)) {
+        raw.agnosticNms = ['1', 'true'].includes(params.get(QUERY.agnosticNms)!);
+    }
+    if (params.has(QUERY.classThresholds)) {
+        // Имя класса может содержать двоеточие, поэтому делим по последнему
+        raw.classThresholds = Object.fromEntries(params.getAll(QUERY.classThresholds)
+            .map(pair => [pair.slice(0, pair.lastIndexOf(':')), pair.slice(pair.lastIndexOf(':') + 1)])
+            .filter(([name]) => name !== ''));
+    }
+    if (params.has(QUERY.disabledClasses)) {
+        raw.disabledClasses = params.getAll(QUERY.disabledClasses).filter(name => name !== '');
+    }
+    return sanitize(raw, base);
+}
+
+// В ссылку попадают только значения, отличные от умолчаний, чтобы она оставалась короткой
+export function filterQuery(settings: FilterSettings): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const key of ['threshold', 'iouThreshold', 'maskThreshold', 'maxDetections'] as const) {
+        if (settings[key] !== DEFAULT_FILTER_SETTINGS[key]) params.set(QUERY[key], String(settings[key]));
+    }
+    if (settings.agnosticNms) params.set(QUERY.agnosticNms, '1');
+    for (const [name, threshold] of Object.entries(settings.classThresholds)) {
+        params.append(QUERY.classThresholds, `${name}:${threshold}`);
+    }
+    for (const name of settings.disabledClasses) {
+        params.append(QUERY.disabledClasses, name);
+    }
+    return params;
+}
+
+// Сохраненные настройки, поверх них - параметры ссылки: общая ссылка важнее своих привычек
+export function loadFilterSettings(storage: SettingsStorage | null, search: string): FilterSettings {
+    let settings = DEFAULT_FILTER_SETTINGS;
+    try {
+        const saved = storage?.getItem(STORAGE_KEY);
+        if (saved) settings = sanitize(JSON.parse(saved), DEFAULT_FILTER_SETTINGS);
+    } catch (error) {
+        console.warn('Не удалось прочитать сохраненные настройки фильтрации:', error);
+    }
+    return parseFilterQuery(new URLSearchParams(search), settings);
+}
+
+export function saveFilterSettings(storage: SettingsStorage | null, settings: FilterSettings): void {
+    try {
+        storage?.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        // Приватный режим или переполненное хранилище - настройки просто не переживут перезагрузку
+        console.warn('Не удалось сохранить настройки фильтрации:', error);
+    }
+}
+
+// Переводит имена классов в индексы текущей модели. Настройки для классов,
+// которых у модели нет, остаются в FilterSettings, но на постобработку не влияют.
+export function toPostprocessOptions(
+    settings: FilterSettings,
+    names: string[]
+): Pick<PostprocessOptions, 'threshold' | 'iouThreshold' | 'maskThreshold' | 'maxDetections' | 'agnosticNms' | 'classThresholds' | 'classes'> {
+    const classThresholds: Record<number, number> = {};
+    names.forEach((name, classId) => {
+        if (settings.classThresholds[name] !== undefined) classThresholds[classId] = settings.classThresholds[name];
+    });
+    const disabled = new Set(settings.disabledClasses);
+    const classes = names.map((_, classId) => classId).filter(classId => !disabled.has(names[classId]));
+
+    return {
+        threshold: settings.threshold,
+        iouThreshold: settings.iouThreshold,
+        maskThreshold: settings.maskThreshold,
+        maxDetections: settings.maxDetections,
+        agnosticNms: settings.agnosticNms,
+        classThresholds,
+        classes: classes.length === names.length ? null : classes
+    };
+}
@@ -1,10 +0,0 @@
-export const LABELS: string[] = ['wheel_rim'];
-
-export const COLORS: string[] = [
-    '#00ff00',
-    '#ff0000',
-    '#0000ff',
-    '#ffff00',
-    '#ff00ff',
-    '#00ffff'
-];
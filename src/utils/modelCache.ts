@@ -0,0 +1,118 @@
+import * as tf from '@tensorflow/tfjs';
+import { loadModel, parseModelMetadata, metadataUrlFor, hashText, DEFAULT_METADATA } from '../core';
+import type { ModelMetadata } from '../core';
+
+export interface CachedModel {
+    model: tf.GraphModel;
+    metadata: ModelMetadata;
+    fromCache: boolean;
+}
+
+// Ключ в IndexedDB: indexeddb://yolo-model/<хэш URL>-<хэш metadata.yaml>.
+// Хэш URL отделяет модели друг от друга, хэш метаданных - версии одной модели.
+const CACHE_PREFIX = 'indexeddb://yolo-model/';
+
+// Текст metadata.yaml сохраняем вместе с весами, чтобы без сети было откуда взять классы и imgsz
+const METADATA_KEY = 'metadataYaml';
+
+function modelPrefix(modelUrl: string): string {
+    return `${CACHE_PREFIX}${hashText(modelUrl)}-`;
+}
+
+// Сохраненные версии модели, новые первыми
+async function cachedVersions(modelUrl: string): Promise<string[]> {
+    const prefix = modelPrefix(modelUrl);
+    const models = await tf.io.listModels();
+    return Object.entries(models)
+        .filter(([key]) => key.startsWith(prefix))
+        .sort((a, b) => new Date(b[1].dateSaved).getTime() - new Date(a[1].dateSaved).getTime())
+        .map(([key]) => key);
+}
+
+async function readArtifacts(key: string): Promise<tf.io.ModelArtifacts> {
+    const [handler] = tf.io.getLoadHandlers(key);
+    return handler.load!();
+}
+
+async function loadFromCache(key: string, metadata?: ModelMetadata): Promise<CachedModel> {
+    const artifacts = await readArtifacts(key);
+    const yaml = (artifacts.userDefinedMetadata as Record<string, unknown> | undefined)?.[METADATA_KEY];
+    const cachedMetadata = metadata ?? (typeof yaml === 'string' ? parseModelMetadata(yaml) : DEFAULT_METADATA);
+    const model = await loadModel(tf.io.fromMemory(artifacts), cachedMetadata);
+    return { model, metadata: cachedMetadata, fromCache: true };
+}
+
+async function saveToCache(model: tf.GraphModel, key: string, modelUrl: string, yaml: string): Promise<void> {
+    const [target] = tf.io.getSaveHandlers(key);
+    // GraphModel.save отдает свои artifacts как есть, метаданные добавляем в обертке
+    await model.save({
+        save: artifacts => target.save!({ ...artifacts, userDefinedMetadata: { [METADATA_KEY]: yaml } })
+    });
+
+    // Прежние версии этой модели больше не нужны
+    for (const old of await cachedVersions(modelUrl)) {
+        if (old !== key) await tf.io.removeModel(old);
+    }
+}
+
+// Загружает модель из IndexedDB, если там лежит та же версия, что и на сервере;
+// иначе скачивает и кэширует. Без сети берется последняя сохраненная версия.
+export async function loadCachedModel(
+    modelUrl: string,
+    onProgress?: (fraction: number) => void
+): Promise<CachedModel> {
+    const metadataUrl = metadataUrlFor(modelUrl);
+
+    let response: Response;
+    try {
+        // no-cache: HTTP-кэш браузера не должен скрывать новую версию модели
+        response = await fetch(metadataUrl, { cache: 'no-cache' });
+    } catch (error) {
+        const [latest] = await cachedVersions(modelUrl).catch(() => []);
+        if (!latest) {
+            throw new Error(`Нет сети, а модель ${modelUrl} еще не сохранена в кэше`);
+        }
+        console.warn(`Нет сети (${error}), модель берется из кэша ${latest}`);
+        return loadFromCache(latest);
+    }
+
+    // Без metadata.yaml версию не определить, поэтому такую модель не кэшируем
+    if (!response.ok) {
+        console.warn(`Не удалось загрузить ${metadataUrl} (HTTP ${response.status}), используются значения по умолчанию, модель не кэшируется`);
+        const model = await loadModel(modelUrl, DEFAULT_METADATA, onProgress);
+        return { model, metadata: DEFAULT_METADATA, fromCache: false };
+    }
+
+    const yaml = await response.text();
+    const metadata = parseModelMetadata(yaml);
+    console.log('Метаданные модели:', metadata);
+    const key = modelPrefix(modelUrl) + metadata.hash;
+
+    // IndexedDB может быть недоступен (приватный режим) - тогда просто работаем без кэша
+    const versions = await cachedVersions(modelUrl).catch(error => {
+        console.warn('IndexedDB недоступен, модель не кэшируется:', error);
+        return null;
+    });
+    if (versions?.includes(key)) {
+        try {
+            return await loadFromCache(key, metadata);
+        } catch (error) {
+            console.warn(`Не удалось прочитать ${key}, модель загружается заново:`, error);
+        }
+    }
+
+    let model: tf.GraphModel;
+    try {
+        model = await loadModel(modelUrl, metadata, onProgress);
+    } catch (error) {
+        // metadata.yaml мог прийти из кэша service worker, а веса без сети не скачать
+        if (!versions?.length) throw error;
+        console.warn(`Не удалось скачать модель (${error}), используется сохраненная версия ${versions[0]}`);
+        return loadFromCache(versions[0]);
+    }
+    if (versions) {
+        // Нехватка квоты не должна мешать работе с уже загруженной моделью
+        await saveToCache(model, key, modelUrl, yaml).catch(error => console.warn('Не удалось сохранить модель в IndexedDB:', error));
+    }
+    return { model, metadata, fromCache: false };
+}
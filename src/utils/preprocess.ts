@@ -0,0 +1,18 @@
+import * as tf from '@tensorflow/tfjs';
+import type { PreprocessResult } from '../core/types';
+import { DEFAULT_METADATA } from '../core/metadata';
+import { letterbox } from '../core/segmentation';
+
+// Все, что принимает tf.browser.fromPixels: изображение, видео, canvas, ImageBitmap, ImageData
+export type PixelSource = Parameters<typeof tf.browser.fromPixels>[0];
+
+// Браузерная предобработка: пиксели берем через tf.browser.fromPixels, остальное делает ядро
+export function preprocessImage(
+    img: PixelSource,
+    inputSize: [number, number] = DEFAULT_METADATA.imgsz
+): PreprocessResult {
+    const image = tf.browser.fromPixels(img);
+    const result = letterbox(image, inputSize);
+    image.dispose();
+    return result;
+}
@@ -0,0 +1,148 @@
+import type { InferenceResult, InferenceTimings } from '../core/browser';
+
+// Скользящие средние по обработанным кадрам
+export interface StreamStats {
+    fps: number;
+    framesProcessed: number;
+    framesSkipped: number;
+    latency: InferenceTimings & { draw: number };
+}
+
+// Коэффициент экспоненциального сглаживания для FPS и задержек
+const SMOOTHING = 0.1;
+
+type VideoWithFrameCallback = HTMLVideoElement & {
+    requestVideoFrameCallback?: (callback: () => void) => number;
+    cancelVideoFrameCallback?: (handle: number) => void;
+};
+
+// Покадровый прогон видео через конвейер. Пока предыдущий кадр в работе,
+// новые кадры пропускаются, чтобы задержка не накапливалась.
+export class FrameStreamer {
+    private video: VideoWithFrameCallback;
+    private running = false;
+    private busy = false;
+    private frameHandle: number | null = null;
+    private lastFrameTime: number | null = null;
+    private lastVideoTime = -1;
+    private stats: StreamStats = FrameStreamer.emptyStats();
+    private processFrame: (frame: ImageBitmap) => Promise<InferenceResult | null>;
+    private renderResult: (result: InferenceResult) => void;
+    private onStats: (stats: StreamStats) => void;
+
+    constructor(
+        video: HTMLVideoElement,
+        processFrame: (frame: ImageBitmap) => Promise<InferenceResult | null>,
+        renderResult: (result: InferenceResult) => void,
+        onStats: (stats: StreamStats) => void
+    ) {
+        this.video = video;
+        this.processFrame = processFrame;
+        this.renderResult = renderResult;
+        this.onStats = onStats;
+    }
+
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.stats = FrameStreamer.emptyStats();
+        this.lastFrameTime = null;
+        this.lastVideoTime = -1;
+        this.scheduleNext();
+    }
+
+    stop(): void {
+        this.running = false;
+        if (this.frameHandle !== null) {
+            if (this.video.cancelVideoFrameCallback) {
+                this.video.cancelVideoFrameCallback(this.frameHandle);
+            } else {
+                cancelAnimationFrame(this.frameHandle);
+            }
+            this.frameHandle = null;
+        }
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    private static emptyStats(): StreamStats {
+        return {
+            fps: 0,
+            framesProcessed: 0,
+            framesSkipped: 0,
+            latency: { preprocess: 0, inference: 0, postprocess: 0, total: 0, draw: 0 }
+        };
+    }
+
+    // requestVideoFrameCallback срабатывает ровно на новых кадрах, иначе опрашиваем через rAF
+    private scheduleNext(): void {
+        if (!this.running) return;
+        if (this.video.requestVideoFrameCallback) {
+            this.frameHandle = this.video.requestVideoFrameCallback(() => this.onFrame());
+        } else {
+            this.frameHandle = requestAnimationFrame(() => this.onFrame());
+        }
+    }
+
+    private onFrame(): void {
+        this.scheduleNext();
+
+        const video = this.video;
+        if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return;
+
+        // Для rAF пропускаем повторы того же кадра (пауза, медленный источник)
+        if (!video.requestVideoFrameCallback && video.currentTime === this.lastVideoTime && !video.srcObject) return;
+        this.lastVideoTime = video.currentTime;
+
+        if (this.busy) {
+            this.stats.framesSkipped++;
+            return;
+        }
+
+        this.busy = true;
+        this.runFrame().finally(() => {
+            this.busy = false;
+        });
+    }
+
+    private async runFrame(): Promise<void> {
+        try {
+            const frame = await createImageBitmap(this.video);
+            const result = await this.processFrame(frame);
+            if (!result || !this.running) return;
+
+            const drawStart = performance.now();
+            this.renderResult(result);
+            const draw = performance.now() - drawStart;
+
+            this.updateStats(result.timings, draw);
+            this.onStats(this.stats);
+        } catch (error) {
+            console.error('Ошибка обработки кадра:', error);
+        }
+    }
+
+    private updateStats(timings: InferenceTimings, draw: number): void {
+        const now = performance.now();
+        const stats = this.stats;
+        const first = stats.framesProcessed === 0;
+        const smooth = (prev: number, value: number) => first ? value : prev + SMOOTHING * (value - prev);
+
+        if (this.lastFrameTime !== null) {
+            const instantFps = 1000 / Math.max(1, now - this.lastFrameTime);
+            stats.fps = stats.fps === 0 ? instantFps : smooth(stats.fps, instantFps);
+        }
+        this.lastFrameTime = now;
+
+        stats.latency = {
+            preprocess: smooth(stats.latency.preprocess, timings.preprocess),
+            inference: smooth(stats.latency.inference, timings.inference),
+            postprocess: smooth(stats.latency.postprocess, timings.postprocess),
+            total: smooth(stats.latency.total, timings.total),
+            draw: smooth(stats.latency.draw, draw)
+        };
+        stats.framesProcessed++;
+    }
+}
@@ -0,0 +1,108 @@
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-backend-webgpu';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import wasmUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+import { warmupModel } from '../core';
+import { loadCachedModel } from '../utils/modelCache';
+import type { CachedModel } from '../utils/modelCache';
+import type { BackendName, BackendTiming } from './protocol';
+
+// Vite кладет .wasm в сборку под хэшированными именами, поэтому пути задаем по файлам.
+// Многопоточная сборка выбирается сама, если страница cross-origin isolated.
+setWasmPaths({
+    'tfjs-backend-wasm.wasm': wasmUrl,
+    'tfjs-backend-wasm-simd.wasm': wasmSimdUrl,
+    'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdUrl
+});
+
+export interface LoadedOnBackend {
+    loaded: CachedModel;
+    benchmark: BackendTiming[];
+}
+
+// false, если бэкенд не поддерживается (нет WebGPU, WebGL в воркере и т.п.)
+async function activateBackend(name: BackendName): Promise<boolean> {
+    try {
+        if (!(await tf.setBackend(name))) return false;
+        await tf.ready();
+        return true;
+    } catch (error) {
+        console.warn(`Бэкенд ${name} недоступен:`, error);
+        return false;
+    }
+}
+
+// Загружает модель на первом бэкенде из order, который запустился и выполнил прогрев
+async function loadWithFallback(
+    modelUrl: string,
+    order: BackendName[],
+    onProgress?: (fraction: number) => void
+): Promise<CachedModel> {
+    const failures: string[] = [];
+    for (const name of order) {
+        if (!(await activateBackend(name))) {
+            failures.push(`${name}: недоступен`);
+            continue;
+        }
+        try {
+            return await loadCachedModel(modelUrl, onProgress);
+        } catch (error) {
+            console.warn(`Модель не запустилась на ${name}, пробуем следующий бэкенд:`, error);
+            failures.push(`${name}: ${error}`);
+        }
+    }
+    throw new Error(`Модель не запустилась ни на одном бэкенде (${failures.join('; ')})`);
+}
+
+// Загружает модель на каждом бэкенде из order и оставляет тот, где прогрев быстрее.
+// Веса после первой загрузки читаются из IndexedDB, так что сеть нужна один раз.
+async function benchmarkBackends(
+    modelUrl: string,
+    order: BackendName[],
+    onProgress?: (fraction: number) => void
+): Promise<LoadedOnBackend> {
+    const benchmark: BackendTiming[] = [];
+    let best: { loaded: CachedModel; backend: BackendName; time: number } | null = null;
+
+    for (const name of order) {
+        if (!(await activateBackend(name))) continue;
+        let loaded: CachedModel | null = null;
+        try {
+            loaded = await loadCachedModel(modelUrl, onProgress);
+            // Первый прогон уже был в loadModel и включал компиляцию шейдеров
+            const time = await warmupModel(loaded.model, loaded.metadata);
+            benchmark.push({ backend: name, time });
+            console.log(`Бенчмарк ${name}: ${time.toFixed(1)}мс`);
+
+            if (!best || time < best.time) {
+                best?.loaded.model.dispose();
+                best = { loaded, backend: name, time };
+            } else {
+                loaded.model.dispose();
+            }
+        } catch (error) {
+            console.warn(`Бенчмарк ${name} не удался:`, error);
+            loaded?.model.dispose();
+        }
+    }
+
+    if (!best) {
+        throw new Error('Модель не запустилась ни на одном бэкенде');
+    }
+    await tf.setBackend(best.backend);
+    return { loaded: best.loaded, benchmark };
+}
+
+export async function loadOnBackend(
+    modelUrl: string,
+    order: BackendName[],
+    benchmark: boolean,
+    onProgress?: (fraction: number) => void
+): Promise<LoadedOnBackend> {
+    if (benchmark) {
+        return benchmarkBackends(modelUrl, order, onProgress);
+    }
+    return { loaded: await loadWithFallback(modelUrl, order, onProgress), benchmark: [] };
+}
@@ -0,0 +1,141 @@
+import type { InferenceResult, ModelMetadata } from '../core/browser';
+import { DEFAULT_BACKEND_ORDER } from './protocol';
+import type { BackendOptions, BackendTiming, InferOptions, InferenceStage, WorkerRequest, WorkerResponse } from './protocol';
+
+export interface LoadedModelInfo {
+    metadata: ModelMetadata;
+    backend: string;
+    loadTime: number;
+    fromCache: boolean; // веса прочитаны из IndexedDB, а не скачаны
+    benchmark: BackendTiming[]; // пусто, если бенчмарк не запускался
+}
+
+export interface InferHandle {
+    id: number;
+    // null - задача была отменена
+    promise: Promise<InferenceResult | null>;
+}
+
+// Чем отвечает воркер: loaded - LoadedModelInfo, result - InferenceResult, cancelled - null
+type ResponsePayload = LoadedModelInfo | InferenceResult | null;
+
+interface PendingRequest {
+    resolve: (value: ResponsePayload) => void;
+    reject: (reason: Error) => void;
+    onProgress?: (stage: InferenceStage) => void;
+    onLoadProgress?: (fraction: number) => void;
+}
+
+// Обертка над воркером инференса: нумерует запросы и превращает ответы в промисы
+export class InferenceClient {
+    private worker: Worker;
+    private nextId = 1;
+    private pending = new Map<number, PendingRequest>();
+
+    constructor() {
+        this.worker = new Worker(new URL('./inference.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+        this.worker.onerror = (event: ErrorEvent) => {
+            console.error('Ошибка воркера:', event.message);
+            this.pending.forEach(request => request.reject(new Error(event.message)));
+            this.pending.clear();
+        };
+    }
+
+    // URL разрешается относительно страницы, а не скрипта воркера.
+    // onProgress получает долю скачанных весов 0..1; из кэша модель грузится без него.
+    load(
+        modelUrl: string,
+        backends: BackendOptions = { order: DEFAULT_BACKEND_ORDER, benchmark: false },
+        onProgress?: (fraction: number) => void
+    ): Promise<LoadedModelInfo> {
+        const id = this.nextId++;
+        const promise = this.track<LoadedModelInfo>(id, { onLoadProgress: onProgress });
+        this.send({ type: 'load', id, modelUrl: new URL(modelUrl, document.baseURI).href, backends });
+        return promise;
+    }
+
+    // Кадр передается воркеру без копирования и после вызова становится недоступен
+    infer(
+        image: ImageBitmap,
+        options: InferOptions,
+        onProgress?: (stage: InferenceStage) => void
+    ): InferHandle {
+        const id = this.nextId++;
+        const promise = this.track<InferenceResult | null>(id, { onProgress });
+        this.send({ type: 'infer', id, image, options }, [image]);
+        return { id, promise };
+    }
+
+    // Новые пороги и фильтры к выходу последнего infer с keepOutput; модель заново не запускается.
+    // Если сохраненного выхода нет, промис отклоняется.
+    refilter(options: InferOptions): InferHandle {
+        const id = this.nextId++;
+        const promise = this.track<InferenceResult | null>(id);
+        this.send({ type: 'refilter', id, options });
+        return { id, promise };
+    }
+
+    cancel(id: number): void {
+        if (this.pending.has(id)) {
+            this.send({ type: 'cancel', id });
+        }
+    }
+
+    get pendingCount(): number {
+        return this.pending.size;
+    }
+
+    terminate(): void {
+        this.worker.terminate();
+        this.pending.forEach(request => request.reject(new Error('Воркер остановлен')));
+        this.pending.clear();
+    }
+
+    // Тип ответа задается типом запроса: на load воркер не пришлет result и наоборот
+    private track<T extends ResponsePayload>(
+        id: number,
+        callbacks: Pick<PendingRequest, 'onProgress' | 'onLoadProgress'> = {}
+    ): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.pending.set(id, { resolve: value => resolve(value as T), reject, ...callbacks });
+        });
+    }
+
+    private send(message: WorkerRequest, transfer: Transferable[] = []): void {
+        this.worker.postMessage(message, transfer);
+    }
+
+    private handleMessage(message: WorkerResponse): void {
+        const request = this.pending.get(message.id);
+        if (!request) return;
+
+        switch (message.type) {
+            case 'progress':
+                request.onProgress?.(message.stage);
+                return;
+            case 'loadProgress':
+                request.onLoadProgress?.(message.fraction);
+                return;
+            case 'loaded':
+                request.resolve({
+                    metadata: message.metadata,
+                    backend: message.backend,
+                    loadTime: message.loadTime,
+                    fromCache: message.fromCache,
+                    benchmark: message.benchmark
+                });
+                break;
+            case 'result':
+                request.resolve(message.result);
+                break;
+            case 'cancelled':
+                request.resolve(null);
+                break;
+            case 'error':
+                request.reject(new Error(message.message));
+                break;
+        }
+        this.pending.delete(message.id);
+    }
+}
@@ -0,0 +1,465 @@
+import * as tf from '@tensorflow/tfjs';
+import {
+    processSegmentation,
+    letterbox,
+    detectTiled,
+    detectAugmented,
+    ttaPasses,
+    weightedBoxFusion,
+    DEFAULT_POSTPROCESS_OPTIONS,
+    DEFAULT_METADATA,
+    attachMeasurements,
+    collectDebugInfo
+} from '../core';
+import type { Detection, ModelMetadata, InferenceResult, InferenceTimings, TilingOptions } from '../core';
+import { preprocessImage } from '../utils/preprocess';
+import { loadCachedModel } from '../utils/modelCache';
+import { loadOnBackend } from './backends';
+import type { BackendOptions, EnsembleOptions, InferOptions, InferenceStage, WorkerRequest, WorkerResponse } from './protocol';
+
+// В lib нет типов WebWorker, описываем только то, что используем
+const scope = self as unknown as {
+    postMessage(message: WorkerResponse): void;
+    onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+// image: null - задача refilter, кадр не нужен
+interface InferJob {
+    id: number;
+    image: ImageBitmap | null;
+    options: InferOptions;
+}
+
+// Сырой выход последнего прогона с keepOutput и параметры letterbox для него
+interface CachedOutput {
+    predictions: tf.Tensor | tf.Tensor[];
+    width: number;
+    height: number;
+    scale: number;
+    padL: number;
+    padT: number;
+}
+
+let model: tf.GraphModel | null = null;
+let metadata: ModelMetadata = DEFAULT_METADATA;
+
+interface LoadedMember {
+    model: tf.GraphModel;
+    metadata: ModelMetadata;
+}
+// Дополнительные модели ансамбля по URL: грузятся при первом запросе на текущем бэкенде
+// и освобождаются вместе с основной моделью
+const ensembleModels = new Map<string, LoadedMember>();
+let cachedOutput: CachedOutput | null = null;
+
+const queue: InferJob[] = [];
+const cancelled = new Set<number>();
+let running = false;
+let currentJobId: number | null = null;
+let currentRun: Promise<unknown> | null = null;
+// Пока идет смена модели, задачи из очереди ждут ее окончания
+let loading: Promise<void> | null = null;
+
+function post(message: WorkerResponse): void {
+    scope.postMessage(message);
+}
+
+class JobCancelled extends Error { }
+
+function setCachedOutput(output: CachedOutput | null): void {
+    if (cachedOutput) tf.dispose(cachedOutput.predictions);
+    cachedOutput = output;
+}
+
+async function handleLoad(id: number, modelUrl: string, backends: BackendOptions): Promise<void> {
+    // Текущую задачу доводим на старой модели, освобождать ее посреди executeAsync нельзя
+    await currentRun?.catch(() => undefined);
+    try {
+        const t0 = performance.now();
+        // Старую модель освобождаем до загрузки новой, чтобы в памяти GPU не было двух сразу
+        setCachedOutput(null);
+        model?.dispose();
+        model = null;
+        ensembleModels.forEach(member => member.model.dispose());
+        ensembleModels.clear();
+        const onProgress = (fraction: number) => post({ type: 'loadProgress', id, fraction });
+        const { loaded, benchmark } = await loadOnBackend(modelUrl, backends.order, backends.benchmark, onProgress);
+        model = loaded.model;
+        metadata = loaded.metadata;
+        const loadTime = performance.now() - t0;
+
+        const source = loaded.fromCache ? 'из кэша' : 'из сети';
+        console.log(`Модель ${modelUrl} (${metadata.task}) загружена ${source} за ${loadTime.toFixed(0)}мс на ${tf.getBackend()}, тензоров: ${tf.memory().numTensors}`);
+        post({
+            type: 'loaded',
+            id,
+            metadata,
+            backend: tf.getBackend(),
+            loadTime,
+            fromCache: loaded.fromCache,
+            benchmark
+        });
+    } catch (error) {
+        post({ type: 'error', id, message: String(error) });
+    }
+}
+
+// Загрузки идут строго по очереди: параллельные смешали бы setBackend и одна из моделей
+// осталась бы неосвобожденной. Последней завершается последняя запрошенная - она и остается.
+// handleLoad не отклоняется, ошибки уходят клиенту сообщением
+function startLoad(id: number, modelUrl: string, backends: BackendOptions): void {
+    const previous = loading ?? Promise.resolve();
+    const task = previous.then(() => handleLoad(id, modelUrl, backends));
+    loading = task;
+    task.finally(() => {
+        if (loading === task) loading = null;
+        drainQueue();
+    });
+}
+
+// Рисуем кадр на OffscreenCanvas и забираем пиксели для tf.browser.fromPixels
+function bitmapToImageData(bitmap: ImageBitmap): ImageData {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('OffscreenCanvas 2D недоступен');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+}
+
+async function runJob(job: InferJob): Promise<InferenceResult> {
+    if (!model) {
+        throw new Error('Модель не загружена');
+    }
+
+    const checkpoint = (stage: InferenceStage): void => {
+        if (cancelled.has(job.id)) throw new JobCancelled();
+        post({ type: 'progress', id: job.id, stage });
+    };
+
+    if (!job.image) {
+        return runRefilterJob(job, checkpoint);
+    }
+    if (job.options.tta) {
+        return runEnsembleJob(job, job.image, model, job.options.tta, checkpoint);
+    }
+    if (job.options.tiling) {
+        return runTiledJob(job, job.image, model, job.options.tiling, checkpoint);
+    }
+
+    const totalStart = performance.now();
+
+    checkpoint('preprocess');
+    const preprocessStart = performance.now();
+    const imageData = bitmapToImageData(job.image);
+    job.image.close();
+    const { tensor, scale, padL, padT } = preprocessImage(imageData, metadata.imgsz);
+    const preprocessEnd = performance.now();
+
+    let predictions: tf.Tensor | tf.Tensor[] | null = null;
+    let kept = false;
+    try {
+        checkpoint('inference');
+        const inferenceStart = performance.now();
+        predictions = await model.executeAsync(tensor) as tf.Tensor | tf.Tensor[];
+        const inferenceEnd = performance.now();
+
+        checkpoint('postprocess');
+        const postprocessStart = performance.now();
+        const detections = await processSegmentation(
+            predictions,
+            imageData.width,
+            imageData.height,
+            scale,
+            padL,
+            padT,
+            { ...DEFAULT_POSTPROCESS_OPTIONS, ...job.options },
+            metadata
+        );
+
+        const result: InferenceResult = {
+            detections,
+            width: imageData.width,
+            height: imageData.height,
+            scale,
+            padL,
+            padT,
+            timings: { preprocess: 0, inference: 0, postprocess: 0, total: 0 }
+        };
+        // Геометрию масок считаем здесь же, чтобы не нагружать главный поток
+        if (job.options.enableMasks) {
+            attachMeasurements(result);
+        }
+        if (job.options.debug) {
+            result.debug = await collectDebugInfo(
+                predictions, scale, padL, padT, { ...DEFAULT_POSTPROCESS_OPTIONS, ...job.options }, metadata
+            );
+        }
+        const postprocessEnd = performance.now();
+
+        result.timings = {
+            preprocess: preprocessEnd - preprocessStart,
+            inference: inferenceEnd - inferenceStart,
+            postprocess: postprocessEnd - postprocessStart,
+            total: postprocessEnd - totalStart
+        };
+
+        if (job.options.keepOutput) {
+            setCachedOutput({ predictions, width: imageData.width, height: imageData.height, scale, padL, padT });
+            kept = true;
+        }
+        return result;
+    } finally {
+        tensor.dispose();
+        if (predictions && !kept) tf.dispose(predictions);
+    }
+}
+
+// Повторная постобработка сохраненного выхода: меняются только пороги, классы и NMS
+async function runRefilterJob(job: InferJob, checkpoint: (stage: InferenceStage) => void): Promise<InferenceResult> {
+    if (!cachedOutput) {
+        throw new Error('Нет сохраненного выхода модели для повторной фильтрации');
+    }
+    const { predictions, width, height, scale, padL, padT } = cachedOutput;
+
+    checkpoint('postprocess');
+    const start = performance.now();
+    const detections = await processSegmentation(
+        predictions, width, height, scale, padL, padT, { ...DEFAULT_POSTPROCESS_OPTIONS, ...job.options }, metadata
+    );
+    const result: InferenceResult = {
+        detections,
+        width,
+        height,
+        scale,
+        padL,
+        padT,
+        timings: { preprocess: 0, inference: 0, postprocess: 0, total: 0 }
+    };
+    if (job.options.enableMasks) {
+        attachMeasurements(result);
+    }
+    if (job.options.debug) {
+        result.debug = await collectDebugInfo(
+            predictions, scale, padL, padT, { ...DEFAULT_POSTPROCESS_OPTIONS, ...job.options }, metadata
+        );
+    }
+    const postprocess = performance.now() - start;
+    result.timings = { preprocess: 0, inference: 0, postprocess, total: postprocess };
+    return result;
+}
+
+// Прогон по тайлам: тайлы вырезаются из одного тензора изображения, времена этапов суммируются
+async function runTiledJob(
+    job: InferJob,
+    bitmap: ImageBitmap,
+    tiledModel: tf.GraphModel,
+    tiling: TilingOptions,
+    checkpoint: (stage: InferenceStage) => void
+): Promise<InferenceResult> {
+    const options = { ...DEFAULT_POSTPROCESS_OPTIONS, ...job.options };
+    const timings: InferenceTimings = { preprocess: 0, inference: 0, postprocess: 0, total: 0 };
+    const totalStart = performance.now();
+
+    checkpoint('preprocess');
+    const imageData = bitmapToImageData(bitmap);
+    bitmap.close();
+    const image = tf.browser.fromPixels(imageData);
+    timings.preprocess += performance.now() - totalStart;
+
+    try {
+        const merged = await detectTiled(imageData.width, imageData.height, tiling, async region => {
+            checkpoint('inference');
+            const preprocessStart = performance.now();
+            const crop = image.slice([region.y, region.x, 0], [region.height, region.width, 3]);
+            const { tensor, scale, padL, padT } = letterbox(crop, metadata.imgsz);
+            crop.dispose();
+            const inferenceStart = performance.now();
+
+            let predictions: tf.Tensor | tf.Tensor[] | null = null;
+            try {
+                predictions = await tiledModel.executeAsync(tensor) as tf.Tensor | tf.Tensor[];
+                timings.preprocess += inferenceStart - preprocessStart;
+                timings.inference += performance.now() - inferenceStart;
+                return await processSegmentation(
+                    predictions, region.width, region.height, scale, padL, padT, options, metadata
+                );
+            } finally {
+                tf.dispose(predictions ? [tensor, predictions] : tensor);
+            }
+        });
+
+        checkpoint('postprocess');
+        // У каждого тайла свой letterbox, поэтому для результата целиком он тождественный
+        const result: InferenceResult = {
+            detections: merged.slice(0, options.maxDetections),
+            width: imageData.width,
+            height: imageData.height,
+            scale: 1,
+            padL: 0,
+            padT: 0,
+            timings
+        };
+        if (job.options.enableMasks) {
+            attachMeasurements(result);
+        }
+        // Постобработка - все остальное: декодирование тайлов, их слияние и геометрия масок
+        timings.total = performance.now() - totalStart;
+        timings.postprocess = timings.total - timings.preprocess - timings.inference;
+        return result;
+    } finally {
+        image.dispose();
+    }
+}
+
+async function ensembleMember(url: string): Promise<LoadedMember> {
+    let member = ensembleModels.get(url);
+    if (!member) {
+        const loaded = await loadCachedModel(url);
+        // Слить детекции можно только у моделей, где индекс класса означает одно и то же
+        if (loaded.metadata.names.join() !== metadata.names.join()) {
+            loaded.model.dispose();
+            throw new Error(`Модель ${url} обучена на других классах (${loaded.metadata.names.join(', ')}) и не подходит для ансамбля`);
+        }
+        member = { model: loaded.model, metadata: loaded.metadata };
+        ensembleModels.set(url, member);
+    }
+    return member;
+}
+
+// TTA и ансамбль: каждая модель прогоняется на всех отражениях и масштабах,
+// результаты сливаются Weighted Boxes Fusion с усреднением масок
+async function runEnsembleJob(
+    job: InferJob,
+    bitmap: ImageBitmap,
+    mainModel: tf.GraphModel,
+    tta: EnsembleOptions,
+    checkpoint: (stage: InferenceStage) => void
+): Promise<InferenceResult> {
+    const options = { ...DEFAULT_POSTPROCESS_OPTIONS, ...job.options };
+    const totalStart = performance.now();
+
+    checkpoint('preprocess');
+    const imageData = bitmapToImageData(bitmap);
+    bitmap.close();
+    const image = tf.browser.fromPixels(imageData);
+    const inferenceStart = performance.now();
+
+    try {
+        const members: LoadedMember[] = [{ model: mainModel, metadata }];
+        for (const url of tta.models) {
+            members.push(await ensembleMember(url));
+        }
+
+        const sets: Detection[][] = [];
+        for (const member of members) {
+            for (const pass of ttaPasses(tta)) {
+                checkpoint('inference');
+                sets.push(await detectAugmented(member.model, member.metadata, image, pass, options));
+            }
+        }
+        // Прогоны уже включают декодирование, к постобработке относим слияние и геометрию масок
+        const inferenceEnd = performance.now();
+
+        checkpoint('postprocess');
+        const fused = weightedBoxFusion(sets, imageData.width, imageData.height, tta.iouThreshold);
+        // Как и у тайлов, letterbox у каждого прогона свой
+        const result: InferenceResult = {
+            detections: fused.slice(0, options.maxDetections),
+            width: imageData.width,
+            height: imageData.height,
+            scale: 1,
+            padL: 0,
+            padT: 0,
+            timings: { preprocess: 0, inference: 0, postprocess: 0, total: 0 }
+        };
+        if (job.options.enableMasks) {
+            attachMeasurements(result);
+        }
+        const end = performance.now();
+
+        result.timings = {
+            preprocess: inferenceStart - totalStart,
+            inference: inferenceEnd - inferenceStart,
+            postprocess: end - inferenceEnd,
+            total: end - totalStart
+        };
+        return result;
+    } finally {
+        image.dispose();
+    }
+}
+
+// Задачи выполняются строго по очереди, чтобы не делить GPU между запросами
+async function drainQueue(): Promise<void> {
+    if (running) return;
+    running = true;
+
+    while (queue.length > 0) {
+        if (loading) {
+            await loading;
+            continue;
+        }
+
+        const job = queue.shift()!;
+        currentJobId = job.id;
+        try {
+            const run = runJob(job);
+            currentRun = run;
+            const result = await run;
+            // Позволяет на пакетах убедиться, что тензоры не накапливаются
+            result.numTensors = tf.memory().numTensors;
+            post({ type: 'result', id: job.id, result });
+        } catch (error) {
+            if (error instanceof JobCancelled) {
+                post({ type: 'cancelled', id: job.id });
+            } else {
+                console.error('Ошибка в воркере:', error);
+                post({ type: 'error', id: job.id, message: String(error) });
+            }
+        } finally {
+            job.image?.close();
+            cancelled.delete(job.id);
+            currentJobId = null;
+            currentRun = null;
+        }
+    }
+
+    running = false;
+}
+
+function handleCancel(id: number): void {
+    const index = queue.findIndex(job => job.id === id);
+    if (index >= 0) {
+        // Задача еще ждет в очереди - просто убираем ее
+        const [job] = queue.splice(index, 1);
+        job.image?.close();
+        post({ type: 'cancelled', id });
+    } else if (currentJobId === id) {
+        // Текущая задача остановится на ближайшем этапе
+        cancelled.add(id);
+    }
+}
+
+scope.onmessage = (event: MessageEvent<WorkerRequest>) => {
+    const message = event.data;
+    switch (message.type) {
+        case 'load':
+            startLoad(message.id, message.modelUrl, message.backends);
+            break;
+        case 'infer':
+            queue.push({ id: message.id, image: message.image, options: message.options });
+            post({ type: 'progress', id: message.id, stage: 'queued' });
+            drainQueue();
+            break;
+        case 'refilter':
+            queue.push({ id: message.id, image: null, options: message.options });
+            post({ type: 'progress', id: message.id, stage: 'queued' });
+            drainQueue();
+            break;
+        case 'cancel':
+            handleCancel(message.id);
+            break;
+    }
+};
@@ -0,0 +1,56 @@
+import type { InferenceResult, ModelMetadata, PostprocessOptions, TilingOptions, TtaOptions } from '../core/browser';
+
+export type BackendName = 'webgpu' | 'webgl' | 'wasm' | 'cpu';
+
+// Порядок, в котором воркер пробует бэкенды: первый запустившийся и используется
+export const DEFAULT_BACKEND_ORDER: BackendName[] = ['webgpu', 'webgl', 'wasm', 'cpu'];
+
+export interface BackendOptions {
+    order: BackendName[];
+    // Прогнать модель на каждом бэкенде из order и оставить самый быстрый
+    benchmark: boolean;
+}
+
+// Время повторного прогона прогрева на бэкенде
+export interface BackendTiming {
+    backend: BackendName;
+    time: number;
+}
+
+// Этапы конвейера, о которых воркер сообщает через progress
+export type InferenceStage = 'queued' | 'preprocess' | 'inference' | 'postprocess';
+
+// TTA на основной модели и, при желании, на дополнительных моделях с теми же классами
+export interface EnsembleOptions extends TtaOptions {
+    models: string[]; // абсолютные URL model.json дополнительных моделей
+}
+
+// Не указанные параметры берутся из DEFAULT_POSTPROCESS_OPTIONS
+export interface InferOptions extends Partial<PostprocessOptions> {
+    threshold: number;
+    enableMasks: boolean;
+    tiling?: TilingOptions; // нарезка крупных изображений на тайлы, без нее - один letterbox
+    tta?: EnsembleOptions; // TTA и ансамбль; вместе с tiling не применяется
+    // Сохранить сырой выход модели, чтобы потом перефильтровать его запросом refilter.
+    // Хранится только последний; с tiling и tta не сохраняется.
+    keepOutput?: boolean;
+    // Приложить к результату DebugInfo: score якорей, кандидатов до NMS и прототипы масок.
+    // Только для обычного прогона и refilter; с tiling и tta игнорируется.
+    debug?: boolean;
+}
+
+// Сообщения от главного потока к воркеру
+export type WorkerRequest =
+    | { type: 'load'; id: number; modelUrl: string; backends: BackendOptions }
+    | { type: 'infer'; id: number; image: ImageBitmap; options: InferOptions }
+    | { type: 'refilter'; id: number; options: InferOptions } // постобработка сохраненного выхода без инференса
+    | { type: 'cancel'; id: number };
+
+// Сообщения от воркера к главному потоку
+export type WorkerResponse =
+    | { type: 'loadProgress'; id: number; fraction: number }
+    | { type: 'loaded'; id: number; metadata: ModelMetadata; backend: string; loadTime: number; fromCache: boolean; benchmark: BackendTiming[] }
+    | { type: 'progress'; id: number; stage: InferenceStage }
+    | { type: 'result'; id: number; result: InferenceResult }
+    | { type: 'cancelled'; id: number }
+    | { type: 'error'; id: number; message: string };
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { applyNMS, calculateIoU } from '../src/core';
+import type { Detection } from '../src/core';
+
+const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+const det = (score: number, x: number, cls: number = 0): Detection => ({ box: box(x, 0, 10, 10), score, class: cls });
+
+describe('calculateIoU', () => {
+    it('равен 1 для одинаковых боксов', () => {
+        expect(calculateIoU(box(5, 5, 10, 20), box(5, 5, 10, 20))).toBe(1);
+    });
+
+    it('равен 0 для непересекающихся и касающихся боксов', () => {
+        expect(calculateIoU(box(0, 0, 10, 10), box(20, 20, 5, 5))).toBe(0);
+        expect(calculateIoU(box(0, 0, 10, 10), box(10, 0, 10, 10))).toBe(0);
+    });
+
+    it('считает частичное пересечение', () => {
+        // Пересечение 5x10 = 50, объединение 100 + 100 - 50 = 150
+        expect(calculateIoU(box(0, 0, 10, 10), box(5, 0, 10, 10))).toBeCloseTo(1 / 3);
+    });
+
+    it('симметричен и учитывает вложенность', () => {
+        const outer = box(0, 0, 20, 20);
+        const inner = box(5, 5, 10, 10);
+        expect(calculateIoU(outer, inner)).toBeCloseTo(0.25);
+        expect(calculateIoU(inner, outer)).toBeCloseTo(0.25);
+    });
+});
+
+describe('applyNMS', () => {
+    it('возвращает пустой список без детекций', () => {
+        expect(applyNMS([])).toEqual([]);
+    });
+
+    it('оставляет самый уверенный из перекрывающихся боксов', () => {
+        const kept = applyNMS([det(0.6, 1), det(0.9, 0), det(0.7, 2)], 0.5);
+        expect(kept.map(d => d.score)).toEqual([0.9]);
+    });
+
+    it('не трогает боксы с IoU не выше порога и сортирует по score', () => {
+        // IoU соседей 1/3
+        const kept = applyNMS([det(0.5, 0), det(0.8, 5)], 0.45);
+        expect(kept.map(d => d.score)).toEqual([0.8, 0.5]);
+    });
+
+    it('не изменяет исходный массив', () => {
+        const input = [det(0.5, 0), det(0.8, 1)];
+        applyNMS(input);
+        expect(input.map(d => d.score)).toEqual([0.5, 0.8]);
+    });
+});
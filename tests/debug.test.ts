@@ -0,0 +1,72 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { anchorGrids, collectDebugInfo, explainNms, DEFAULT_METADATA, DEFAULT_POSTPROCESS_OPTIONS } from '../src/core';
+import type { ModelMetadata } from '../src/core';
+import { syntheticOutput, useCpuBackend, withoutLeaks } from './helpers';
+
+beforeAll(useCpuBackend);
+
+const TWO_CLASSES: ModelMetadata = { ...DEFAULT_METADATA, names: ['rim', 'hub'] };
+
+const candidate = (score: number, x: number, cls: number = 0) => ({
+    anchor: 0, box: { x, y: 0, width: 10, height: 10 }, score, class: cls
+});
+
+describe('anchorGrids', () => {
+    it('раскладывает 8400 якорей входа 640 на сетки 80, 40 и 20', () => {
+        const grids = anchorGrids([640, 640], 8400)!;
+        expect(grids.map(grid => [grid.width, grid.height, grid.offset])).toEqual([[80, 80, 0], [40, 40, 6400], [20, 20, 8000]]);
+        expect(anchorGrids([640, 640], 8000)).toBeNull();
+    });
+});
+
+describe('explainNms', () => {
+    it('указывает, кто подавил кандидата и с каким IoU', () => {
+        const result = explainNms([candidate(0.6, 5), candidate(0.9, 0), candidate(0.5, 100)], 0.3, 300);
+
+        expect(result.map(c => c.score)).toEqual([0.9, 0.6, 0.5]);
+        expect(result.map(c => c.kept)).toEqual([true, false, true]);
+        expect(result[1].suppressedBy).toBe(0);
+        expect(result[1].iou).toBeCloseTo(50 / 150);
+        expect(result[2].iou).toBe(0);
+    });
+
+    it('не смешивает классы без agnostic и отсекает сверх maxDetections', () => {
+        const other = [candidate(0.9, 0, 0), candidate(0.8, 1, 1)];
+        expect(explainNms(other, 0.5, 300).map(c => c.kept)).toEqual([true, true]);
+        expect(explainNms(other, 0.5, 300, true).map(c => c.kept)).toEqual([true, false]);
+
+        const [, second] = explainNms([candidate(0.9, 0), candidate(0.8, 100)], 0.5, 1);
+        expect(second.kept).toBe(false);
+        expect(second.suppressedBy).toBeUndefined();
+    });
+});
+
+describe('collectDebugInfo', () => {
+    it('собирает score якорей, кандидатов и прототипы без утечек', async () => {
+        const output = syntheticOutput([
+            { anchor: 6400, box: [320, 320, 100, 100], scores: [0.9, 0.1], coeffs: [1, 0] },
+            { anchor: 6401, box: [325, 320, 100, 100], scores: [0.8, 0], coeffs: [0, 1] },
+            { anchor: 10, box: [50, 50, 20, 20], scores: [0.1, 0.2] }
+        ], 2, 2);
+        // Прототипы каналами последними: [1, 4, 4, 2], второй прототип - константа 2
+        const protos = tf.tensor4d(Array.from({ length: 32 }, (_, i) => i % 2 === 0 ? i : 2), [1, 4, 4, 2]);
+
+        const info = await withoutLeaks(() => collectDebugInfo(
+            [output, protos], 1, 0, 0, { ...DEFAULT_POSTPROCESS_OPTIONS, threshold: 0.5, iouThreshold: 0.5 }, TWO_CLASSES
+        ));
+        tf.dispose([output, protos]);
+
+        expect(info.grids).toHaveLength(3);
+        expect(info.scores[6400 * 2]).toBeCloseTo(0.9);
+        expect(info.scores[10 * 2 + 1]).toBeCloseTo(0.2);
+        expect(info.totalCandidates).toBe(2);
+        expect(info.candidates.map(c => [c.anchor, c.kept, c.suppressedBy])).toEqual([[6400, true, undefined], [6401, false, 0]]);
+        expect(info.candidates[0].box).toEqual({ x: 270, y: 270, width: 100, height: 100 });
+
+        expect(info.prototypes).toMatchObject({ count: 2, width: 4, height: 4 });
+        expect(info.prototypes!.data[0]).toBe(0);
+        expect(info.prototypes!.data[2]).toBe(4);
+        expect(info.prototypes!.data[16]).toBe(2);
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildTrainingSet,
+    detectionFromPolygon,
+    hitTest,
+    maskArea,
+    paintMask,
+    resizeDetection,
+    translateDetection,
+    EditHistory
+} from '../src/core';
+import type { BinaryMask, BoundingBox, Detection, InferenceResult } from '../src/core';
+
+const box = (x: number, y: number, width: number, height: number): BoundingBox => ({ x, y, width, height });
+const det = (score: number, b: BoundingBox, cls: number = 0): Detection => ({ box: b, score, class: cls });
+const filled = (x: number, y: number, width: number, height: number): BinaryMask =>
+    ({ x, y, width, height, data: new Uint8Array(width * height).fill(1) });
+
+describe('hitTest', () => {
+    it('выбирает вложенный объект поверх большого', () => {
+        const detections = [det(0.9, box(0, 0, 100, 100)), det(0.8, box(40, 40, 20, 20))];
+
+        expect(hitTest(detections, 50, 50)).toBe(1);
+        expect(hitTest(detections, 10, 10)).toBe(0);
+        expect(hitTest(detections, 150, 10)).toBe(-1);
+    });
+
+    it('попадание в маску важнее попадания в бокс меньшего объекта', () => {
+        const big = { ...det(0.9, box(0, 0, 100, 100)), mask: filled(0, 0, 100, 100) };
+        const small = { ...det(0.8, box(40, 40, 20, 20)), mask: filled(40, 40, 5, 5) };
+
+        expect(hitTest([big, small], 55, 55)).toBe(0);
+        expect(hitTest([big, small], 42, 42)).toBe(1);
+    });
+});
+
+describe('translateDetection / resizeDetection', () => {
+    it('сдвигает бокс и маску на одинаковое целое число пикселей', () => {
+        const d = { ...det(0.9, box(10, 10, 5, 5)), mask: filled(10, 10, 5, 5) };
+        translateDetection(d, 2.4, -3.6);
+
+        expect(d.box).toEqual(box(12, 6, 5, 5));
+        expect([d.mask.x, d.mask.y]).toEqual([12, 6]);
+    });
+
+    it('обрезает маску по новому боксу и разворачивает перевернутый бокс', () => {
+        const d: Detection = { ...det(0.9, box(0, 0, 10, 10)), mask: filled(0, 0, 10, 10) };
+        resizeDetection(d, box(6, 10, -6, -6));
+
+        expect(d.box).toEqual(box(0, 4, 6, 6));
+        expect([d.mask!.x, d.mask!.y, d.mask!.width, d.mask!.height]).toEqual([0, 4, 6, 6]);
+        expect(maskArea(d.mask!)).toBe(36);
+    });
+});
+
+describe('paintMask', () => {
+    it('кисть расширяет маску и бокс за пределы объекта', () => {
+        const d: Detection = { ...det(0.9, box(10, 10, 10, 10)), mask: filled(10, 10, 10, 10) };
+        paintMask(d, 25, 15, 2, 1, 100, 100);
+
+        expect(d.box).toEqual(box(10, 10, 17, 10));
+        expect(d.mask!.width).toBe(17);
+        expect(maskArea(d.mask!)).toBeGreaterThan(100);
+        expect(d.mask!.data[5 * 17 + 15]).toBe(1); // пиксель (25, 15)
+    });
+
+    it('ластик стирает пиксели, не трогая бокс, и обрезается краем изображения', () => {
+        const d: Detection = { ...det(0.9, box(0, 0, 10, 10)), mask: filled(0, 0, 10, 10) };
+        paintMask(d, 0, 0, 3, 0, 10, 10);
+
+        expect(d.box).toEqual(box(0, 0, 10, 10));
+        expect(d.mask!.data[0]).toBe(0);
+        expect(maskArea(d.mask!)).toBeLessThan(100);
+        expect(maskArea(d.mask!)).toBeGreaterThan(90);
+    });
+});
+
+describe('detectionFromPolygon', () => {
+    it('строит маску и бокс по обведенному контуру', () => {
+        const found = detectionFromPolygon([{ x: 10, y: 10 }, { x: 30, y: 10 }, { x: 30, y: 20 }, { x: 10, y: 20 }], 2, 100, 100);
+
+        expect(found).not.toBeNull();
+        expect(found!.box).toEqual(box(10, 10, 20, 10));
+        expect(found!.class).toBe(2);
+        expect(found!.score).toBe(1);
+        expect(maskArea(found!.mask!)).toBeGreaterThan(150);
+    });
+});
+
+describe('EditHistory', () => {
+    it('отменяет и повторяет правки по снимкам', () => {
+        const history = new EditHistory();
+        const detections = [det(0.9, box(0, 0, 10, 10))];
+
+        history.record(detections);
+        detections[0].box.x = 50;
+        const previous = history.undo(detections)!;
+        expect(previous[0].box.x).toBe(0);
+        expect(history.canRedo).toBe(true);
+
+        const next = history.redo(previous)!;
+        expect(next[0].box.x).toBe(50);
+        expect(history.redo(next)).toBeNull();
+    });
+
+    it('новая правка сбрасывает redo, старые снимки вытесняются лимитом', () => {
+        const history = new EditHistory(2);
+        const detections: Detection[] = [];
+        history.record(detections);
+        history.record(detections);
+        history.record(detections);
+        history.undo(detections);
+        history.record(detections);
+
+        expect(history.canRedo).toBe(false);
+        expect(history.undo(detections)).not.toBeNull();
+        expect(history.undo(detections)).not.toBeNull();
+        expect(history.undo(detections)).toBeNull();
+    });
+});
+
+describe('buildTrainingSet', () => {
+    it('кладет изображение, разметку и data.yaml в раскладке Ultralytics', () => {
+        const result: InferenceResult = {
+            detections: [det(1, box(0, 0, 50, 50), 1)],
+            width: 100,
+            height: 100,
+            scale: 1,
+            padL: 0,
+            padT: 0,
+            timings: { preprocess: 0, inference: 0, postprocess: 0, total: 0 }
+        };
+        const file = buildTrainingSet([{ fileName: 'cars/rim.jpg', result, image: new Uint8Array([1, 2, 3]) }], ['rim', 'tire']);
+        const text = new TextDecoder().decode(file.data as Uint8Array);
+
+        expect(file.fileName).toBe('rim_dataset.zip');
+        expect(text).toContain('images/rim.jpg');
+        expect(text).toContain('labels/rim.txt');
+        expect(text).toContain('1 0.000000 0.000000 0.500000 0.000000');
+        expect(text).toContain('names:\n  0: "rim"\n  1: "tire"\n');
+    });
+});
@@ -0,0 +1,110 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+    detectAugmented,
+    flipDetection,
+    maskArea,
+    ttaPasses,
+    weightedBoxFusion,
+    DEFAULT_METADATA,
+    DEFAULT_POSTPROCESS_OPTIONS,
+    DEFAULT_TTA_OPTIONS
+} from '../src/core';
+import type { BinaryMask, BoundingBox, Detection } from '../src/core';
+import { syntheticOutput, useCpuBackend, withoutLeaks } from './helpers';
+
+beforeAll(useCpuBackend);
+
+const box = (x: number, y: number, width: number, height: number): BoundingBox => ({ x, y, width, height });
+const det = (score: number, b: BoundingBox, cls: number = 0): Detection => ({ box: b, score, class: cls });
+const filled = (x: number, y: number, width: number, height: number): BinaryMask =>
+    ({ x, y, width, height, data: new Uint8Array(width * height).fill(1) });
+
+describe('ttaPasses', () => {
+    it('перебирает масштабы с отражением и без', () => {
+        expect(ttaPasses({ ...DEFAULT_TTA_OPTIONS, scales: [1, 0.5] })).toEqual([
+            { scale: 1, flip: false },
+            { scale: 1, flip: true },
+            { scale: 0.5, flip: false },
+            { scale: 0.5, flip: true }
+        ]);
+        expect(ttaPasses({ ...DEFAULT_TTA_OPTIONS, flip: false, scales: [] })).toEqual([{ scale: 1, flip: false }]);
+    });
+});
+
+describe('flipDetection', () => {
+    it('отражает бокс и маску, повторное отражение возвращает исходную детекцию', () => {
+        const mask: BinaryMask = { x: 10, y: 5, width: 3, height: 1, data: new Uint8Array([1, 0, 0]) };
+        const original = { ...det(0.9, box(10, 5, 3, 1)), mask };
+        const flipped = flipDetection(original, 100);
+
+        expect(flipped.box).toEqual(box(87, 5, 3, 1));
+        expect(flipped.mask!.x).toBe(87);
+        expect([...flipped.mask!.data]).toEqual([0, 0, 1]);
+        expect(flipDetection(flipped, 100)).toEqual(original);
+    });
+});
+
+describe('weightedBoxFusion', () => {
+    it('усредняет координаты с весами по score', () => {
+        const [fused] = weightedBoxFusion([[det(0.9, box(0, 0, 100, 100))], [det(0.3, box(20, 0, 100, 100))]], 200, 200);
+
+        expect(fused.box.x).toBeCloseTo(5); // (0 * 0.9 + 20 * 0.3) / 1.2
+        expect(fused.box.width).toBeCloseTo(100);
+        expect(fused.score).toBeCloseTo(0.6);
+    });
+
+    it('понижает score объекта, найденного не во всех прогонах', () => {
+        const sets = [[det(0.8, box(0, 0, 50, 50))], [], [], []];
+        expect(weightedBoxFusion(sets, 100, 100)[0].score).toBeCloseTo(0.2);
+    });
+
+    it('не сливает разные классы и далекие боксы', () => {
+        const sets = [
+            [det(0.9, box(0, 0, 50, 50), 0), det(0.9, box(200, 0, 50, 50), 0)],
+            [det(0.9, box(0, 0, 50, 50), 1)]
+        ];
+        expect(weightedBoxFusion(sets, 300, 300)).toHaveLength(3);
+    });
+
+    it('оставляет в маске пиксели, за которые большинство по score', () => {
+        const sets = [
+            [{ ...det(0.9, box(0, 0, 10, 10)), mask: filled(0, 0, 10, 10) }],
+            [{ ...det(0.9, box(0, 0, 10, 10)), mask: filled(0, 0, 10, 10) }],
+            [{ ...det(0.9, box(0, 0, 10, 10)), mask: filled(0, 0, 5, 10) }]
+        ];
+        const [fused] = weightedBoxFusion(sets, 100, 100);
+
+        expect([fused.mask!.x, fused.mask!.y, fused.mask!.width, fused.mask!.height]).toEqual([0, 0, 10, 10]);
+        expect(maskArea(fused.mask!)).toBe(100);
+
+        const minority = weightedBoxFusion([sets[2], sets[2], sets[0]], 100, 100)[0];
+        expect(maskArea(minority.mask!)).toBe(50);
+    });
+});
+
+describe('detectAugmented', () => {
+    // Модель-заглушка всегда находит один бокс в центре входа, что бы ей ни подали
+    const stub = {
+        executeAsync: async () => syntheticOutput([{ anchor: 0, box: [200, 320, 40, 40], scores: [0.9] }], 1, 0)
+    } as unknown as tf.GraphModel;
+    const metadata = { ...DEFAULT_METADATA, task: 'detect' as const };
+    const options = { ...DEFAULT_POSTPROCESS_OPTIONS, enableMasks: false };
+
+    async function run(scale: number, flip: boolean): Promise<Detection> {
+        const image = tf.zeros([640, 640, 3]) as tf.Tensor3D;
+        const [found] = await withoutLeaks(() => detectAugmented(stub, metadata, image, { scale, flip }, options));
+        image.dispose();
+        return found;
+    }
+
+    it('возвращает бокс отраженного прогона в исходный кадр', async () => {
+        expect((await run(1, false)).box).toEqual(box(180, 300, 40, 40));
+        expect((await run(1, true)).box).toEqual(box(420, 300, 40, 40));
+    });
+
+    it('учитывает уменьшение внутри входа', async () => {
+        // Изображение 640 -> 320 в центре входа: поле 160, координаты вдвое больше
+        expect((await run(0.5, false)).box).toEqual(box(40, 280, 80, 80));
+    });
+});
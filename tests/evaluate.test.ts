@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { computeAp, evaluate } from '../src/core';
+import type { Detection, EvaluationSample, GroundTruthObject } from '../src/core';
+
+const box = (x: number, y: number) => ({ x, y, width: 10, height: 10 });
+const gt = (x: number, y: number, cls: number = 0): GroundTruthObject => ({ class: cls, box: box(x, y) });
+const pred = (x: number, y: number, score: number, cls: number = 0): Detection => ({ class: cls, box: box(x, y), score });
+
+const sample = (groundTruth: GroundTruthObject[], predictions: Detection[]): EvaluationSample => ({
+    fileName: 'rim.jpg', width: 640, height: 640, groundTruth, predictions
+});
+
+describe('computeAp', () => {
+    it('дает 0.995 при идеальных предсказаниях, как Ultralytics', () => {
+        // На 101 точке последний отрезок 0.99..1 идет к precision 0 в конце огибающей
+        expect(computeAp([1], [1])).toBeCloseTo(0.995, 10);
+    });
+
+    it('интегрирует 101 точку трапециями, а не непрерывную площадь', () => {
+        // Огибающая: 1 до recall 0.5, затем линейно до 0.5 при recall 1 и обрыв в 0.
+        // Непрерывная площадь 0.875; по сетке: 0.5 + 0.49 * (1 + 0.51) / 2 + 0.01 * 0.51 / 2 = 0.8725
+        expect(computeAp([0.5, 1], [1, 0.5])).toBeCloseTo(0.8725, 10);
+    });
+
+    it('берет огибающую precision справа', () => {
+        // Провал precision 0.5 на recall 0.25 перекрывается единицей на recall 0.5:
+        // 0.5 * 1 + 0.25 * (1 + 0.6) / 2 + 0.25 * 0.6 / 2 = 0.775
+        expect(computeAp([0.25, 0.5, 0.75], [0.5, 1, 0.6])).toBeCloseTo(0.775, 10);
+    });
+});
+
+describe('evaluate', () => {
+    it('считает AP@0.5 и mAP@0.5:0.95 и не учитывает класс без разметки', () => {
+        const report = evaluate([sample(
+            [gt(0, 0), gt(100, 100)],
+            [
+                pred(0, 0, 0.9), // точное попадание
+                pred(102, 100, 0.8), // IoU 80 / 120 = 0.667: верно на порогах 0.5..0.65
+                pred(200, 200, 0.7), // ложное срабатывание
+                pred(300, 300, 0.95, 1) // класса 1 нет в разметке
+            ]
+        )]);
+
+        // До IoU 0.65: recall 0.5, 1, 1 - AP 0.995.
+        // Выше: recall 0.5, 0.5, 0.5 при precision 1, 1/2, 1/3 - огибающая 1 до 0.5,
+        // в 0.5 падает до 1/3 и линейно уходит в 0: 0.49 + 0.01 * (1 + 1/3) / 2 + 0.5 * (1/3) / 2 = 0.58
+        expect(report.box.perClass).toHaveLength(1);
+        expect(report.box.perClass[0]).toMatchObject({ class: 0, instances: 2 });
+        expect(report.box.map50).toBeCloseTo(0.995, 10);
+        expect(report.box.map50_95).toBeCloseTo((4 * 0.995 + 6 * 0.58) / 10, 10);
+        expect(report.mask).toBeNull();
+
+        // Класс без разметки не входит в mAP, но остается ложным срабатыванием, самым уверенным
+        expect(report.falsePositives.map(fp => [fp.class, fp.score])).toEqual([[1, 0.95], [0, 0.7]]);
+        expect(report.falseNegatives).toHaveLength(0);
+    });
+
+    it('учитывает пропущенные объекты и класс без предсказаний', () => {
+        const report = evaluate([
+            sample([gt(0, 0), gt(100, 100), gt(200, 200), gt(50, 50, 1)], [pred(0, 0, 0.9), pred(101, 100, 0.1)]),
+            sample([gt(10, 10)], [])
+        ]);
+
+        // Класс 0: четыре объекта, верны 0.9 (IoU 1) и 0.1 (IoU 90 / 110 = 0.82).
+        // Пороги 0.5..0.8: recall 0.25, 0.5 при precision 1 - площадь 0.5 + 0.5 / 2 = 0.75.
+        // Пороги 0.85..0.95: recall 0.25, 0.25 при precision 1, 0.5 -
+        // 0.24 + 0.01 * (1 + 0.5) / 2 + 0.75 * 0.5 / 2 = 0.435
+        const [zero, one] = report.box.perClass;
+        expect(zero).toMatchObject({ class: 0, instances: 4 });
+        expect(zero.ap50).toBeCloseTo(0.75, 10);
+        expect(zero.ap50_95).toBeCloseTo((7 * 0.75 + 3 * 0.435) / 10, 10);
+
+        // Класс 1 размечен, но не найден: AP 0 тянет mAP вниз
+        expect(one).toMatchObject({ class: 1, instances: 1, ap50: 0, ap50_95: 0 });
+        expect(report.box.map50).toBeCloseTo(0.375, 10);
+        expect(report.instances).toBe(5);
+
+        // 0.1 ниже порога ошибок: в ошибки попадают только пропуски
+        expect(report.falsePositives).toHaveLength(0);
+        expect(report.falseNegatives.map(fn => [fn.class, fn.box.x])).toEqual([[0, 100], [0, 200], [1, 50], [0, 10]]);
+    });
+});
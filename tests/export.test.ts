@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { maskArea, maskToRle, rleToMask, signedArea, toCoco, toYoloSeg, traceContours } from '../src/core';
+import type { BinaryMask, Detection, InferenceResult } from '../src/core';
+
+// Маска из строк вида '.##.' со смещением (x, y) в изображении
+function maskFrom(rows: string[], x: number = 0, y: number = 0): BinaryMask {
+    const width = rows[0].length;
+    const data = Uint8Array.from(rows.join(''), c => (c === '#' ? 1 : 0));
+    return { x, y, width, height: rows.length, data };
+}
+
+// Диск радиуса r с дырой радиуса hole, как у обода со ступицей
+function disk(r: number, hole: number = 0): BinaryMask {
+    const size = 2 * r + 1;
+    const data = new Uint8Array(size * size);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const d = Math.hypot(x - r, y - r);
+            data[y * size + x] = d <= r && (hole === 0 || d > hole) ? 1 : 0;
+        }
+    }
+    return { x: 30, y: 40, width: size, height: size, data };
+}
+
+function resultWith(detections: Detection[], width: number, height: number): InferenceResult {
+    return {
+        detections, width, height, scale: 1, padL: 0, padT: 0,
+        timings: { preprocess: 0, inference: 0, postprocess: 0, total: 0 }
+    };
+}
+
+describe('RLE COCO', () => {
+    // Изображение 10x10, серии по столбцам [40, 3, 7, 1, 49]: столбец 4 - строки 0..2, столбец 5 - строка 0.
+    // Строка pycocotools: 40 -> "X1", 3 -> "3", 7 -> "7", 1 - 3 = -2 -> "N", 49 - 7 = 42 -> "Z1"
+    const counts = [40, 3, 7, 1, 49];
+
+    it('декодирует сжатую строку pycocotools и кодирует обратно в те же серии', () => {
+        const mask = rleToMask('X137NZ1', 10, 10)!;
+        expect(mask).toEqual(maskFrom(['##', '#.', '#.'], 4, 0));
+        expect(rleToMask(counts, 10, 10)).toEqual(mask);
+        expect(maskToRle(mask, 10, 10)).toEqual({ counts, size: [10, 10] });
+    });
+
+    it('начинает с нулевой серии, если маска занимает угол (0, 0)', () => {
+        const mask = maskFrom(['#'], 0, 0);
+        expect(maskToRle(mask, 2, 2).counts).toEqual([0, 1, 3]);
+        expect(rleToMask([0, 1, 3], 2, 2)).toEqual(mask);
+        expect(rleToMask([4], 2, 2)).toBeNull();
+    });
+});
+
+describe('traceContours', () => {
+    it('без упрощения площадь контура равна площади маски', () => {
+        const shape = maskFrom([
+            '###...',
+            '###...',
+            '######',
+            '######'
+        ], 5, 7);
+        const [polygon, ...rest] = traceContours(shape, 0);
+
+        expect(rest).toHaveLength(0);
+        expect(signedArea(polygon)).toBe(maskArea(shape));
+        expect(polygon).toHaveLength(6);
+        expect(Math.min(...polygon.map(p => p.x))).toBe(5);
+        expect(Math.max(...polygon.map(p => p.y))).toBe(11);
+    });
+
+    it('у диска площадь сохраняется и после упрощения, дыра отбрасывается', () => {
+        const solid = disk(20);
+        const [exact] = traceContours(solid, 0);
+        expect(signedArea(exact)).toBe(maskArea(solid));
+
+        const [simplified] = traceContours(solid);
+        expect(simplified.length).toBeLessThan(exact.length);
+        expect(signedArea(simplified) / maskArea(solid)).toBeCloseTo(1, 1);
+
+        const ring = traceContours(disk(20, 8), 0);
+        expect(ring).toHaveLength(1);
+        expect(signedArea(ring[0])).toBe(maskArea(solid));
+    });
+
+    it('разделяет компоненты, касающиеся по диагонали, самая большая первой', () => {
+        const polygons = traceContours(maskFrom(['#...', '.###', '.###']), 0);
+        expect(polygons.map(signedArea)).toEqual([6, 1]);
+    });
+});
+
+describe('экспорт', () => {
+    const square: Detection = {
+        box: { x: 50, y: 20, width: 10, height: 10 },
+        score: 0.9,
+        class: 1,
+        mask: { x: 50, y: 20, width: 10, height: 10, data: new Uint8Array(100).fill(1) }
+    };
+
+    it('нормирует полигон YOLO на размер изображения и обрезает выход за край', () => {
+        const outside: Detection = { box: { x: 180, y: 90, width: 40, height: 20 }, score: 0.5, class: 0 };
+        const lines = toYoloSeg(resultWith([square, outside], 200, 100)).split('\n');
+
+        expect(lines).toHaveLength(3);
+        expect(lines[2]).toBe('');
+
+        const [cls, ...coords] = lines[0].split(' ');
+        expect(cls).toBe('1');
+        const points = [];
+        for (let i = 0; i < coords.length; i += 2) points.push(`${coords[i]} ${coords[i + 1]}`);
+        expect(points.sort()).toEqual(['0.250000 0.200000', '0.250000 0.300000', '0.300000 0.200000', '0.300000 0.300000']);
+
+        // Бокс без маски: углы за пределами изображения прижимаются к 1
+        expect(lines[1]).toBe('0 0.900000 0.900000 1.000000 0.900000 1.000000 1.000000 0.900000 1.000000');
+        expect(toYoloSeg(resultWith([], 200, 100))).toBe('');
+    });
+
+    it('пишет COCO с категориями от 1 и маской в RLE', () => {
+        const dataset = toCoco([{ fileName: 'rim.jpg', result: resultWith([square], 200, 100) }], ['rim', 'hub'], 'rle');
+
+        expect(dataset.categories).toEqual([{ id: 1, name: 'rim' }, { id: 2, name: 'hub' }]);
+        const [annotation] = dataset.annotations;
+        expect(annotation).toMatchObject({ id: 1, image_id: 1, category_id: 2, bbox: [50, 20, 10, 10], area: 100 });
+
+        const rle = annotation.segmentation as { counts: number[]; size: [number, number] };
+        expect(rle.size).toEqual([100, 200]);
+        expect(rleToMask(rle.counts, 200, 100)).toEqual(square.mask);
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+    filterQuery,
+    loadFilterSettings,
+    parseFilterQuery,
+    saveFilterSettings,
+    toPostprocessOptions,
+    DEFAULT_FILTER_SETTINGS
+} from '../src/utils/filterSettings';
+import type { FilterSettings, SettingsStorage } from '../src/utils/filterSettings';
+
+// Хранилище в памяти вместо localStorage браузера
+function memoryStorage(): SettingsStorage {
+    const items = new Map<string, string>();
+    return {
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => { items.set(key, value); }
+    };
+}
+
+const CUSTOM: FilterSettings = {
+    ...DEFAULT_FILTER_SETTINGS,
+    threshold: 0.35,
+    agnosticNms: true,
+    classThresholds: { 'rim:alloy': 0.6 },
+    disabledClasses: ['hub']
+};
+
+describe('filterQuery / parseFilterQuery', () => {
+    it('переживают круг через адресную строку', () => {
+        const search = filterQuery(CUSTOM).toString();
+        expect(parseFilterQuery(new URLSearchParams(search))).toEqual(CUSTOM);
+    });
+
+    it('пишут в ссылку только отличия от умолчаний', () => {
+        expect(filterQuery(DEFAULT_FILTER_SETTINGS).toString()).toBe('');
+        expect(filterQuery({ ...DEFAULT_FILTER_SETTINGS, iouThreshold: 0.6 }).toString()).toBe('iou=0.6');
+    });
+
+    it('игнорируют мусор и ограничивают значения', () => {
+        const settings = parseFilterQuery(new URLSearchParams('conf=abc&iou=7&max_det=0&class_conf=rim:x'));
+
+        expect(settings.threshold).toBe(DEFAULT_FILTER_SETTINGS.threshold);
+        expect(settings.iouThreshold).toBe(1);
+        expect(settings.maxDetections).toBe(1);
+        expect(settings.classThresholds).toEqual({});
+    });
+});
+
+describe('loadFilterSettings', () => {
+    it('берет сохраненные настройки, а параметры ссылки кладет поверх', () => {
+        const storage = memoryStorage();
+        saveFilterSettings(storage, CUSTOM);
+
+        expect(loadFilterSettings(storage, '')).toEqual(CUSTOM);
+        expect(loadFilterSettings(storage, '?conf=0.8').threshold).toBe(0.8);
+        expect(loadFilterSettings(storage, '?conf=0.8').disabledClasses).toEqual(['hub']);
+    });
+
+    it('переживает испорченный JSON в хранилище', () => {
+        const storage = memoryStorage();
+        storage.setItem('yolo-filter-settings', '{oops');
+        expect(loadFilterSettings(storage, '')).toEqual(DEFAULT_FILTER_SETTINGS);
+    });
+});
+
+describe('toPostprocessOptions', () => {
+    it('переводит имена классов в индексы текущей модели', () => {
+        const options = toPostprocessOptions(
+            { ...CUSTOM, classThresholds: { tire: 0.2, missing: 0.9 } },
+            ['rim', 'hub', 'tire']
+        );
+
+        expect(options.classThresholds).toEqual({ 2: 0.2 });
+        expect(options.classes).toEqual([0, 2]);
+        expect(options.agnosticNms).toBe(true);
+    });
+
+    it('не передает список классов, если включены все', () => {
+        expect(toPostprocessOptions(DEFAULT_FILTER_SETTINGS, ['rim']).classes).toBeNull();
+    });
+});
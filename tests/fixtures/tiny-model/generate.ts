@@ -0,0 +1,143 @@
+// Генератор крошечной модели в формате tfjs graph-model для эталонных тестов:
+// те же выходы, что у YOLO11-seg ([1, 4 + nc + nm, якоря] и прототипы каналами последними),
+// но вместо сети - свертки 1x1 над средним и дисперсией цвета в ячейках сеток 8, 16 и 32.
+// Score высокий там, где в ячейке есть контраст (обод, спицы), фон и поля letterbox однородны.
+// Модель лежит в репозитории; пересоздается командой: npx tsx tests/fixtures/tiny-model/generate.ts
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const DIR = path.dirname(fileURLToPath(import.meta.url));
+const INPUT = 64;
+const STRIDES = [8, 16, 32];
+const PROTO_STRIDE = 4;
+const NUM_MASKS = 4;
+const BOX_SIZE = 24; // px входа; растет с контрастом ячейки
+
+interface Weight {
+    name: string;
+    shape: number[];
+    dtype: 'float32' | 'int32';
+    values: number[];
+}
+
+interface GraphNode {
+    name: string;
+    op: string;
+    input?: string[];
+    attr: Record<string, unknown>;
+}
+
+const nodes: GraphNode[] = [];
+const weights: Weight[] = [];
+
+const dim = (shape: number[]) => ({ dim: shape.map(size => ({ size: String(size) })) });
+const text = (value: string) => ({ s: Buffer.from(value).toString('base64') });
+const ints = (values: number[]) => ({ list: { i: values.map(String) } });
+const FLOAT = { type: 'DT_FLOAT' };
+
+function constant(name: string, shape: number[], values: number[], dtype: Weight['dtype'] = 'float32'): string {
+    const type = dtype === 'float32' ? 'DT_FLOAT' : 'DT_INT32';
+    nodes.push({ name, op: 'Const', attr: { value: { tensor: { dtype: type, tensorShape: dim(shape) } }, dtype: { type } } });
+    weights.push({ name, shape, dtype, values });
+    return name;
+}
+
+function op(name: string, type: string, input: string[], attr: Record<string, unknown> = {}): string {
+    nodes.push({ name, op: type, input, attr: { T: FLOAT, ...attr } });
+    return name;
+}
+
+const conv = (name: string, x: string, filter: string) => op(name, 'Conv2D', [x, filter], {
+    strides: ints([1, 1, 1, 1]), padding: text('VALID'), data_format: text('NHWC'), dilations: ints([1, 1, 1, 1])
+});
+const pool = (name: string, x: string, size: number) => op(name, 'AvgPool', [x], {
+    ksize: ints([1, size, size, 1]), strides: ints([1, size, size, 1]), padding: text('VALID'), data_format: text('NHWC')
+});
+const biasAdd = (name: string, x: string, bias: string) => op(name, 'BiasAdd', [x, bias], { data_format: text('NHWC') });
+const concat = (name: string, inputs: string[], axis: string) => op(name, 'ConcatV2', [...inputs, axis], {
+    N: { i: String(inputs.length) }, Tidx: { type: 'DT_INT32' }
+});
+
+// Фильтр 1x1 [1, 1, 6, out] из строк по входным признакам: r, g, b, дисперсии r, g, b
+function filter(name: string, rows: number[][]): string {
+    return constant(name, [1, 1, rows.length, rows[0].length], rows.flat());
+}
+
+// Признаки ячеек со стороной size: средний цвет и дисперсия каждого канала
+function cellFeatures(prefix: string, x: string, squared: string, size: number): string {
+    const mean = pool(`${prefix}/mean`, x, size);
+    const meanSquared = pool(`${prefix}/mean_sq`, squared, size);
+    const variance = op(`${prefix}/var`, 'Sub', [meanSquared, op(`${prefix}/mean2`, 'Mul', [mean, mean])]);
+    return concat(`${prefix}/features`, [mean, variance], AXIS_3);
+}
+
+const images = 'images';
+nodes.push({ name: images, op: 'Placeholder', attr: { dtype: FLOAT, shape: { shape: dim([1, INPUT, INPUT, 3]) } } });
+const AXIS_1 = constant('axis_1', [], [1], 'int32');
+const AXIS_3 = constant('axis_3', [], [3], 'int32');
+const squared = op('squared', 'Mul', [images, images]);
+
+// Головы общие для всех сеток: бокс растет с дисперсией, score - сигмоида от суммарной дисперсии
+const boxFilter = filter('head/box', [[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 40, 40], [0, 0, 40, 40], [0, 0, 40, 40]]);
+const scoreFilter = filter('head/score', [[0], [0], [0], [60], [60], [60]]);
+const scoreBias = constant('head/score_bias', [1], [-5]);
+const coeffFilter = filter('head/coeffs', [[0.5, 0, 0, 0], [0, 0.5, 0, 0], [0, 0, 0, 0], [2, 0, 0, 0], [0, 2, 0, 0], [0, 0, 0, 0]]);
+const coeffBias = constant('head/coeffs_bias', [NUM_MASKS], [1, 1, 1, 0.5]);
+
+const heads = STRIDES.map(stride => {
+    const prefix = `p${stride}`;
+    const cells = INPUT / stride;
+    const features = cellFeatures(prefix, images, squared, stride);
+
+    // Центр ячейки и базовый размер бокса - константа, свертка добавляет к размеру
+    const anchors: number[] = [];
+    for (let y = 0; y < cells; y++) {
+        for (let x = 0; x < cells; x++) anchors.push((x + 0.5) * stride, (y + 0.5) * stride, BOX_SIZE, BOX_SIZE);
+    }
+    const box = op(`${prefix}/box`, 'AddV2', [conv(`${prefix}/box_conv`, features, boxFilter), constant(`${prefix}/anchors`, [1, cells, cells, 4], anchors)]);
+    const score = op(`${prefix}/score`, 'Sigmoid', [biasAdd(`${prefix}/score_logit`, conv(`${prefix}/score_conv`, features, scoreFilter), scoreBias)]);
+    const coeffs = biasAdd(`${prefix}/coeffs`, conv(`${prefix}/coeffs_conv`, features, coeffFilter), coeffBias);
+
+    const head = concat(`${prefix}/head`, [box, score, coeffs], AXIS_3);
+    return op(`${prefix}/flat`, 'Reshape', [head, constant(`${prefix}/flat_shape`, [3], [1, cells * cells, 5 + NUM_MASKS], 'int32')], { Tshape: { type: 'DT_INT32' } });
+});
+
+const anchorsOut = concat('anchors', heads, AXIS_1);
+const output0 = op('output0', 'Transpose', [anchorsOut, constant('output0/perm', [3], [0, 2, 1], 'int32')], { Tperm: { type: 'DT_INT32' } });
+
+// Прототипы: темное, контрастное, константа и яркость на сетке 16x16
+const protoFeatures = cellFeatures(`p${PROTO_STRIDE}`, images, squared, PROTO_STRIDE);
+const protoFilter = filter('protos/filter', [[-10 / 3, 0, 0, 1 / 3], [-10 / 3, 0, 0, 1 / 3], [-10 / 3, 0, 0, 1 / 3], [0, 40, 0, 0], [0, 40, 0, 0], [0, 40, 0, 0]]);
+const protoBias = constant('protos/bias', [NUM_MASKS], [4, 0, -1, 0]);
+const output1 = biasAdd('output1', conv('protos/conv', protoFeatures, protoFilter), protoBias);
+
+nodes.push({ name: 'Identity', op: 'Identity', input: [output0], attr: { T: FLOAT } });
+nodes.push({ name: 'Identity_1', op: 'Identity', input: [output1], attr: { T: FLOAT } });
+
+const buffers = weights.map(w => Buffer.from(w.dtype === 'float32' ? new Float32Array(w.values).buffer : new Int32Array(w.values).buffer));
+writeFileSync(path.join(DIR, 'weights.bin'), Buffer.concat(buffers));
+writeFileSync(path.join(DIR, 'model.json'), JSON.stringify({
+    format: 'graph-model',
+    generatedBy: 'tests/fixtures/tiny-model/generate.ts',
+    convertedBy: null,
+    signature: { outputs: { 'Identity:0': { name: 'Identity:0' }, 'Identity_1:0': { name: 'Identity_1:0' } } },
+    modelTopology: { node: nodes, library: {}, versions: {} },
+    weightsManifest: [{ paths: ['weights.bin'], weights: weights.map(({ name, shape, dtype }) => ({ name, shape, dtype })) }]
+}, null, 1) + '\n');
+writeFileSync(path.join(DIR, 'metadata.yaml'), [
+    'description: Tiny synthetic YOLO-seg model for golden tests',
+    'stride: 32',
+    'task: segment',
+    'batch: 1',
+    'imgsz:',
+    `- ${INPUT}`,
+    `- ${INPUT}`,
+    'names:',
+    '  0: rim',
+    'args:',
+    '  nms: false',
+    'channels: 3',
+    ''
+].join('\n'));
+console.log(`Модель записана в ${DIR}: ${nodes.length} узлов, ${weights.length} весов`);
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { measureMask } from '../src/core';
+import type { BinaryMask } from '../src/core';
+
+interface EllipseShape {
+    a: number; // полуоси, px
+    b: number;
+    angle?: number; // градусы, в экранных координатах (y вниз)
+    hole?: { r: number; dx: number; dy: number }; // ступица относительно центра
+}
+
+// Растеризует эллипс по центрам пикселей в bbox со смещением (100, 50) в изображении
+function ellipseMask({ a, b, angle = 0, hole }: EllipseShape): BinaryMask {
+    const size = 2 * Math.ceil(a) + 4;
+    const c = size / 2;
+    const cos = Math.cos(angle * Math.PI / 180);
+    const sin = Math.sin(angle * Math.PI / 180);
+    const data = new Uint8Array(size * size);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const dx = x + 0.5 - c;
+            const dy = y + 0.5 - c;
+            const u = dx * cos + dy * sin;
+            const v = -dx * sin + dy * cos;
+            const inside = (u / a) ** 2 + (v / b) ** 2 <= 1;
+            const inHole = hole !== undefined && Math.hypot(dx - hole.dx, dy - hole.dy) <= hole.r;
+            data[y * size + x] = inside && !inHole ? 1 : 0;
+        }
+    }
+    return { x: 100, y: 50, width: size, height: size, data };
+}
+
+describe('measureMask', () => {
+    it('измеряет сплошной диск: площадь, диаметр, круглость', () => {
+        const mask = ellipseMask({ a: 40, b: 40 });
+        const m = measureMask(mask, 400, 300)!;
+
+        expect(m.area / (Math.PI * 40 ** 2)).toBeCloseTo(1, 2);
+        expect(m.areaFraction).toBeCloseTo(m.area / (400 * 300), 10);
+        expect(m.ellipse.majorAxis).toBeCloseTo(80, 0);
+        expect(m.ellipse.minorAxis).toBeCloseTo(80, 0);
+        expect(m.ellipse.cx).toBeCloseTo(100 + mask.width / 2, 5);
+        expect(m.ellipticity).toBeGreaterThan(0.99);
+        expect(m.perimeter / (2 * Math.PI * 40)).toBeCloseTo(1, 1);
+        expect(m.circularity).toBeGreaterThan(0.9);
+        expect(m.hubOffset.detected).toBe(false);
+        expect(m.hubOffset.distance).toBeLessThan(0.1);
+    });
+
+    it('находит смещенную ступицу по дыре и не вычитает ее из эллипса', () => {
+        const m = measureMask(ellipseMask({ a: 40, b: 40, hole: { r: 10, dx: 8, dy: 0 } }), 400, 300)!;
+
+        expect(m.area / (Math.PI * (40 ** 2 - 10 ** 2))).toBeCloseTo(1, 2);
+        // Эллипс строится по заполненной маске, поэтому диаметр тот же, что у сплошного диска
+        expect(m.ellipse.majorAxis).toBeCloseTo(80, 0);
+        expect(m.hubOffset.detected).toBe(true);
+        expect(m.hubOffset.dx).toBeCloseTo(8, 0);
+        expect(m.hubOffset.dy).toBeCloseTo(0, 0);
+        expect(m.hubOffset.relative).toBeCloseTo(8 / 40, 1);
+    });
+
+    it('оценивает оси и наклон эллипса', () => {
+        const m = measureMask(ellipseMask({ a: 60, b: 30, angle: 30 }), 400, 300)!;
+
+        expect(m.area / (Math.PI * 60 * 30)).toBeCloseTo(1, 2);
+        expect(m.ellipse.majorAxis).toBeCloseTo(120, 0);
+        expect(m.ellipse.minorAxis).toBeCloseTo(60, 0);
+        expect(m.ellipse.angle).toBeCloseTo(30, 0);
+        expect(m.ellipticity).toBeCloseTo(0.5, 2);
+        expect(m.circularity).toBeLessThan(0.9);
+    });
+
+    it('возвращает null для пустой маски', () => {
+        expect(measureMask({ x: 0, y: 0, width: 3, height: 3, data: new Uint8Array(9) }, 10, 10)).toBeNull();
+    });
+});
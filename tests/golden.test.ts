@@ -0,0 +1,78 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { maskArea } from '../src/core';
+import type { InferenceResult } from '../src/core';
+import { Detector, readImage } from '../src/node';
+import { withoutLeaks } from './helpers';
+
+// Сверка с эталонными результатами на изображениях из fixtures. Модель - крошечная синтетическая
+// из tests/fixtures/tiny-model: она лежит в репозитории целиком, и тесты идут при каждом npm test,
+// проверяя letterbox, декодирование, NMS и маски от графа tfjs до Detection[].
+// Эталоны обновляются командой: UPDATE_GOLDEN=1 npm test
+const MODEL = 'tests/fixtures/tiny-model/model.json';
+const FIXTURES = 'tests/fixtures/images';
+const GOLDEN = 'tests/fixtures/golden';
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+
+interface GoldenDetection {
+    class: number;
+    score: number;
+    box: [number, number, number, number];
+    maskArea: number;
+}
+
+function summarize(result: InferenceResult): GoldenDetection[] {
+    const round = (value: number, digits: number) => Number(value.toFixed(digits));
+    return result.detections.map(det => ({
+        class: det.class,
+        score: round(det.score, 4),
+        box: [round(det.box.x, 1), round(det.box.y, 1), round(det.box.width, 1), round(det.box.height, 1)],
+        maskArea: det.mask ? maskArea(det.mask) : 0
+    }));
+}
+
+const images = readdirSync(FIXTURES).filter(file => /\.(png|jpe?g)$/i.test(file)).sort();
+
+describe('эталонные результаты модели', () => {
+    let detector: Detector;
+
+    beforeAll(async () => {
+        detector = await Detector.load(MODEL);
+    });
+
+    afterAll(() => detector?.dispose());
+
+    it('находит изображения и эталоны для каждого', () => {
+        expect(images.length).toBeGreaterThan(0);
+        if (!UPDATE) {
+            expect(images.every(file => existsSync(path.join(GOLDEN, `${path.parse(file).name}.json`)))).toBe(true);
+        }
+    });
+
+    it.each(images)('%s', async (file) => {
+        const image = await readImage(path.join(FIXTURES, file));
+        const result = await withoutLeaks(() => detector.detect(image));
+        const actual = summarize(result);
+
+        const goldenFile = path.join(GOLDEN, `${path.parse(file).name}.json`);
+        if (UPDATE) {
+            mkdirSync(GOLDEN, { recursive: true });
+            writeFileSync(goldenFile, JSON.stringify(actual, null, 2) + '\n');
+            return;
+        }
+        if (!existsSync(goldenFile)) {
+            throw new Error(`Нет эталона ${goldenFile}, создайте его: UPDATE_GOLDEN=1 npm test`);
+        }
+
+        // Допуски покрывают разницу float между бэкендами, но не сдвиг letterbox на пиксель
+        const expected = JSON.parse(readFileSync(goldenFile, 'utf8')) as GoldenDetection[];
+        expect(actual).toHaveLength(expected.length);
+        expected.forEach((golden, i) => {
+            expect(actual[i].class).toBe(golden.class);
+            expect(actual[i].score).toBeCloseTo(golden.score, 2);
+            actual[i].box.forEach((value, k) => expect(Math.abs(value - golden.box[k])).toBeLessThan(1));
+            expect(Math.abs(actual[i].maskArea - golden.maskArea)).toBeLessThanOrEqual(Math.max(10, golden.maskArea * 0.01));
+        });
+    });
+});
@@ -0,0 +1,38 @@
+import * as tf from '@tensorflow/tfjs';
+
+// Все тесты считают на CPU-бэкенде: он детерминирован и есть везде
+export async function useCpuBackend(): Promise<void> {
+    await tf.setBackend('cpu');
+    await tf.ready();
+}
+
+// Выполняет шаг конвейера и проверяет, что после него не осталось лишних тензоров.
+// keep - тензоры результата, которые по контракту отдаются вызывающему.
+export async function withoutLeaks<T>(run: () => Promise<T> | T, keep: (result: T) => tf.Tensor[] = () => []): Promise<T> {
+    const before = tf.memory().numTensors;
+    const result = await run();
+    const owned = keep(result);
+    const leaked = tf.memory().numTensors - before - owned.length;
+    if (leaked !== 0) {
+        throw new Error(`Утечка тензоров: ${leaked}`);
+    }
+    return result;
+}
+
+// Синтетический выход YOLO-seg [1, 4 + nc + nm, anchors] из списка строк якорей
+export interface AnchorRow {
+    anchor: number;
+    box: [number, number, number, number]; // xc, yc, w, h в пикселях входа модели
+    scores: number[];
+    coeffs?: number[];
+}
+
+export function syntheticOutput(rows: AnchorRow[], numClasses: number, numMasks: number, anchors: number = 8400): tf.Tensor3D {
+    const channels = 4 + numClasses + numMasks;
+    const data = new Float32Array(channels * anchors);
+    for (const row of rows) {
+        const values = [...row.box, ...row.scores, ...(row.coeffs ?? new Array(numMasks).fill(0))];
+        values.forEach((value, c) => { data[c * anchors + row.anchor] = value; });
+    }
+    return tf.tensor3d(data, [1, channels, anchors]);
+}
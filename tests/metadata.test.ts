@@ -0,0 +1,37 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { hashText, metadataUrlFor, parseModelMetadata } from '../src/core';
+
+const YAML = readFileSync('public/model/metadata.yaml', 'utf8');
+
+describe('parseModelMetadata', () => {
+    it('читает metadata.yaml экспорта Ultralytics', () => {
+        const metadata = parseModelMetadata(YAML);
+
+        expect(metadata.task).toBe('segment');
+        expect(metadata.imgsz).toEqual([640, 640]);
+        expect(metadata.names).toEqual(['rim']);
+        expect(metadata.nms).toBe(false);
+    });
+
+    it('меняет хэш при новом экспорте', () => {
+        const reexported = YAML.replace(/^date: .*$/m, "date: '2026-01-01T00:00:00'");
+
+        expect(parseModelMetadata(YAML).hash).toBe(parseModelMetadata(YAML).hash);
+        expect(parseModelMetadata(reexported).hash).not.toBe(parseModelMetadata(YAML).hash);
+    });
+});
+
+describe('hashText', () => {
+    it('считает FNV-1a в виде 8 hex-символов', () => {
+        expect(hashText('')).toBe('811c9dc5');
+        expect(hashText('a')).toBe('e40c292c');
+    });
+});
+
+describe('metadataUrlFor', () => {
+    it('ищет metadata.yaml рядом с model.json', () => {
+        expect(metadataUrlFor('https://host/models/a/model.json')).toBe('https://host/models/a/metadata.yaml');
+        expect(metadataUrlFor('./model/model.json')).toBe('./model/metadata.yaml');
+    });
+});
@@ -0,0 +1,261 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { processSegmentation, DEFAULT_METADATA, DEFAULT_POSTPROCESS_OPTIONS, maskArea } from '../src/core';
+import type { Detection, ModelMetadata, PostprocessOptions } from '../src/core';
+import { syntheticOutput, useCpuBackend, withoutLeaks } from './helpers';
+import type { AnchorRow } from './helpers';
+
+beforeAll(useCpuBackend);
+
+const TWO_CLASSES: ModelMetadata = { ...DEFAULT_METADATA, names: ['rim', 'hub'] };
+const BOXES_ONLY: PostprocessOptions = { ...DEFAULT_POSTPROCESS_OPTIONS, enableMasks: false };
+
+interface Letterbox {
+    width: number;
+    height: number;
+    scale: number;
+    padL: number;
+    padT: number;
+}
+
+const SQUARE: Letterbox = { width: 640, height: 640, scale: 1, padL: 0, padT: 0 };
+
+// Прогоняет постобработку и проверяет, что она не оставила тензоров
+async function run(
+    output: tf.Tensor | tf.Tensor[],
+    options: PostprocessOptions = BOXES_ONLY,
+    metadata: ModelMetadata = TWO_CLASSES,
+    frame: Letterbox = SQUARE
+): Promise<Detection[]> {
+    const detections = await withoutLeaks(() => processSegmentation(
+        output, frame.width, frame.height, frame.scale, frame.padL, frame.padT, options, metadata
+    ));
+    tf.dispose(output);
+    return detections;
+}
+
+const row = (anchor: number, box: AnchorRow['box'], scores: number[]): AnchorRow => ({ anchor, box, scores });
+
+describe('processSegmentation: боксы', () => {
+    it('переводит бокс из letterbox в координаты исходного изображения', async () => {
+        const output = syntheticOutput([row(7, [320, 320, 100, 50], [0.9, 0])], 2, 0);
+        const frame = { width: 1280, height: 720, scale: 0.5, padL: 0, padT: 140 };
+        const [det] = await run(output, BOXES_ONLY, TWO_CLASSES, frame);
+
+        expect(det.box.x).toBeCloseTo(540);
+        expect(det.box.y).toBeCloseTo(310);
+        expect(det.box.width).toBeCloseTo(200);
+        expect(det.box.height).toBeCloseTo(100);
+        expect(det.score).toBeCloseTo(0.9);
+        expect(det.class).toBe(0);
+        expect(det.maskCoeffs).toBeUndefined();
+    });
+
+    it('берет класс с максимальным score и отбрасывает якоря ниже порога', async () => {
+        const output = syntheticOutput([
+            row(1, [100, 100, 20, 20], [0.2, 0.7]),
+            row(2, [300, 300, 20, 20], [0.4, 0.1])
+        ], 2, 0);
+        const detections = await run(output, { ...BOXES_ONLY, threshold: 0.5 });
+
+        expect(detections).toHaveLength(1);
+        expect(detections[0].class).toBe(1);
+        expect(detections[0].score).toBeCloseTo(0.7);
+    });
+
+    it('NMS подавляет только боксы одного класса', async () => {
+        const output = syntheticOutput([
+            row(1, [100, 100, 50, 50], [0.9, 0]),
+            row(2, [102, 100, 50, 50], [0.8, 0]),
+            row(3, [100, 102, 50, 50], [0, 0.7])
+        ], 2, 0);
+        const detections = await run(output);
+
+        expect(detections.map(d => [d.class, Number(d.score.toFixed(2))])).toEqual([[0, 0.9], [1, 0.7]]);
+    });
+
+    it('учитывает порог IoU', async () => {
+        // IoU двух боксов 1/3
+        const rows = [row(1, [100, 100, 20, 20], [0.9, 0]), row(2, [110, 100, 20, 20], [0.8, 0])];
+
+        expect(await run(syntheticOutput(rows, 2, 0), { ...BOXES_ONLY, iouThreshold: 0.3 })).toHaveLength(1);
+        expect(await run(syntheticOutput(rows, 2, 0), { ...BOXES_ONLY, iouThreshold: 0.5 })).toHaveLength(2);
+    });
+
+    it('ограничивает число детекций самыми уверенными', async () => {
+        const rows = [0.6, 0.9, 0.7, 0.95, 0.8].map((score, i) => row(i, [50 + i * 100, 50, 20, 20], [score, 0]));
+        const detections = await run(syntheticOutput(rows, 2, 0), { ...BOXES_ONLY, maxDetections: 3 });
+
+        expect(detections.map(d => Number(d.score.toFixed(2)))).toEqual([0.95, 0.9, 0.8]);
+    });
+
+    it('применяет свой порог для класса и отбрасывает исключенные классы', async () => {
+        const rows = () => syntheticOutput([
+            row(1, [100, 100, 20, 20], [0.4, 0]),
+            row(2, [300, 300, 20, 20], [0, 0.6])
+        ], 2, 0);
+
+        const perClass = await run(rows(), { ...BOXES_ONLY, threshold: 0.5, classThresholds: { 0: 0.3 } });
+        expect(perClass.map(d => d.class)).toEqual([1, 0]);
+
+        const onlyRim = await run(rows(), { ...BOXES_ONLY, threshold: 0.3, classes: [0] });
+        expect(onlyRim.map(d => d.class)).toEqual([0]);
+    });
+
+    it('agnostic NMS подавляет перекрытые боксы других классов', async () => {
+        const rows = () => syntheticOutput([
+            row(1, [100, 100, 50, 50], [0.9, 0]),
+            row(2, [100, 102, 50, 50], [0, 0.7])
+        ], 2, 0);
+
+        expect(await run(rows(), { ...BOXES_ONLY, agnosticNms: true })).toHaveLength(1);
+        expect(await run(rows(), { ...BOXES_ONLY, agnosticNms: false })).toHaveLength(2);
+    });
+
+    it('отклоняет выход, не совпадающий с числом классов', async () => {
+        const output = syntheticOutput([], 2, 0);
+        const metadata = { ...DEFAULT_METADATA, names: ['a', 'b', 'c'] };
+        await expect(processSegmentation(output, 640, 640, 1, 0, 0, BOXES_ONLY, metadata)).rejects.toThrow();
+        output.dispose();
+    });
+});
+
+describe('processSegmentation: end2end', () => {
+    it('читает строки x1, y1, x2, y2, score, class и применяет порог и лимит', async () => {
+        const rows = [
+            [10, 20, 110, 220, 0.9, 1],
+            [300, 300, 400, 400, 0.6, 0],
+            [500, 500, 600, 600, 0.3, 0],
+            [0, 0, 0, 0, 0, 0]
+        ];
+        const output = tf.tensor3d([rows]);
+        const metadata = { ...TWO_CLASSES, nms: true };
+        const frame = { width: 1280, height: 1280, scale: 0.5, padL: 0, padT: 0 };
+        const detections = await run(output, { ...BOXES_ONLY, threshold: 0.5, maxDetections: 1 }, metadata, frame);
+
+        expect(detections).toHaveLength(1);
+        expect(detections[0].class).toBe(1);
+        expect(detections[0].box).toEqual({ x: 20, y: 40, width: 200, height: 400 });
+    });
+
+    it('учитывает порог и исключение по классу строки', async () => {
+        const rows = [[10, 20, 110, 220, 0.9, 1], [300, 300, 400, 400, 0.4, 0]];
+        const metadata = { ...TWO_CLASSES, nms: true };
+        const options = { ...BOXES_ONLY, threshold: 0.5, classThresholds: { 0: 0.3 }, classes: [0] };
+        const detections = await run(tf.tensor3d([rows]), options, metadata);
+
+        expect(detections.map(d => d.class)).toEqual([0]);
+    });
+});
+
+describe('processSegmentation: маски', () => {
+    const NUM_MASKS = 32;
+    const PROTO = 160;
+
+    // Прототип 0: +10 там, где inside(x, y) в сетке 160x160, иначе -10; остальные прототипы нулевые
+    function protos(layout: 'nhwc' | 'nchw', inside: (x: number, y: number) => boolean): tf.Tensor4D {
+        const plane = new Float32Array(PROTO * PROTO);
+        for (let y = 0; y < PROTO; y++) {
+            for (let x = 0; x < PROTO; x++) plane[y * PROTO + x] = inside(x, y) ? 10 : -10;
+        }
+        const nchw = new Float32Array(NUM_MASKS * PROTO * PROTO);
+        nchw.set(plane, 0);
+        const tensor = tf.tensor4d(nchw, [1, NUM_MASKS, PROTO, PROTO]);
+        if (layout === 'nchw') return tensor;
+        const nhwc = tensor.transpose([0, 2, 3, 1]) as tf.Tensor4D;
+        tensor.dispose();
+        return nhwc;
+    }
+
+    const coeffs = [1, ...new Array(NUM_MASKS - 1).fill(0)];
+    const fullBox = (anchor: number): AnchorRow => ({ anchor, box: [320, 320, 640, 640], scores: [0.9], coeffs });
+    const RIM_ONLY: ModelMetadata = DEFAULT_METADATA;
+
+    it.each(['nhwc', 'nchw'] as const)('одинаково читает прототипы в раскладке %s', async (layout) => {
+        const output = syntheticOutput([fullBox(3)], 1, NUM_MASKS);
+        const [det] = await run([output, protos(layout, x => x < 80)], DEFAULT_POSTPROCESS_OPTIONS, RIM_ONLY);
+
+        expect(det.maskCoeffs).toHaveLength(NUM_MASKS);
+        const mask = det.mask!;
+        expect([mask.x, mask.y, mask.width, mask.height]).toEqual([0, 0, 640, 640]);
+        expect(maskArea(mask)).toBe(320 * 640);
+        expect(mask.data[320 * 640 + 319]).toBe(1);
+        expect(mask.data[320 * 640 + 320]).toBe(0);
+    });
+
+    it('снимает letterbox с маски', async () => {
+        // Изображение 640x320 в letterbox 640x640: поле по 160 px сверху и снизу
+        const output = syntheticOutput([fullBox(3)], 1, NUM_MASKS);
+        const frame = { width: 640, height: 320, scale: 1, padL: 0, padT: 160 };
+        // Верхняя половина входа (y < 320) в сетке прототипов - y < 80
+        const [det] = await run([output, protos('nhwc', (_, y) => y < 80)], DEFAULT_POSTPROCESS_OPTIONS, RIM_ONLY, frame);
+
+        const mask = det.mask!;
+        expect([mask.x, mask.y, mask.width, mask.height]).toEqual([0, 0, 640, 320]);
+        expect(maskArea(mask)).toBe(640 * 160);
+        expect(mask.data[159 * 640]).toBe(1);
+        expect(mask.data[160 * 640]).toBe(0);
+    });
+
+    it('обрезает маску по боксу', async () => {
+        const output = syntheticOutput([{ anchor: 3, box: [100, 200, 40, 60], scores: [0.9], coeffs }], 1, NUM_MASKS);
+        const [det] = await run([output, protos('nhwc', () => true)], DEFAULT_POSTPROCESS_OPTIONS, RIM_ONLY);
+
+        const mask = det.mask!;
+        expect([mask.x, mask.y, mask.width, mask.height]).toEqual([80, 170, 40, 60]);
+        expect(maskArea(mask)).toBe(40 * 60);
+    });
+
+    it('учитывает порог маски', async () => {
+        // Логит 0 -> вероятность ровно 0.5: при пороге 0.4 пиксель в маске, при 0.5 - нет
+        const output = () => syntheticOutput([{ anchor: 3, box: [320, 320, 64, 64], scores: [0.9], coeffs: new Array(NUM_MASKS).fill(0) }], 1, NUM_MASKS);
+        const zero = () => tf.zeros([1, PROTO, PROTO, NUM_MASKS]);
+
+        const [low] = await run([output(), zero()], { ...DEFAULT_POSTPROCESS_OPTIONS, maskThreshold: 0.4 }, RIM_ONLY);
+        const [high] = await run([output(), zero()], { ...DEFAULT_POSTPROCESS_OPTIONS, maskThreshold: 0.5 }, RIM_ONLY);
+        expect(maskArea(low.mask!)).toBe(64 * 64);
+        expect(maskArea(high.mask!)).toBe(0);
+    });
+
+    it('не декодирует маски в режиме детекции', async () => {
+        const output = syntheticOutput([fullBox(3)], 1, NUM_MASKS);
+        const [det] = await run([output, protos('nhwc', () => true)], BOXES_ONLY, RIM_ONLY);
+
+        expect(det.maskCoeffs).toHaveLength(NUM_MASKS);
+        expect(det.mask).toBeUndefined();
+    });
+});
+
+describe('processSegmentation: задача модели', () => {
+    const DETECT: ModelMetadata = { ...DEFAULT_METADATA, task: 'detect' };
+
+    it('detect-модель с одним выходом не идет по пути масок', async () => {
+        const output = syntheticOutput([row(3, [320, 320, 64, 64], [0.9])], 1, 0);
+        const [det] = await run(output, DEFAULT_POSTPROCESS_OPTIONS, DETECT);
+
+        expect(det.score).toBeCloseTo(0.9);
+        expect(det.maskCoeffs).toBeUndefined();
+        expect(det.mask).toBeUndefined();
+    });
+
+    it('отклоняет лишние каналы у detect-модели', async () => {
+        const output = syntheticOutput([], 1, 32);
+        await expect(processSegmentation(output, 640, 640, 1, 0, 0, BOXES_ONLY, DETECT)).rejects.toThrow();
+        output.dispose();
+    });
+
+    it('отклоняет неподдерживаемые задачи', async () => {
+        const output = syntheticOutput([], 1, 0);
+        const pose = { ...DEFAULT_METADATA, task: 'pose' as const };
+        await expect(processSegmentation(output, 640, 640, 1, 0, 0, BOXES_ONLY, pose)).rejects.toThrow();
+        output.dispose();
+    });
+
+    it('находит боксы и прототипы независимо от порядка выходов', async () => {
+        const coeffs = new Array(32).fill(0);
+        const output = syntheticOutput([{ anchor: 3, box: [320, 320, 64, 64], scores: [0.9], coeffs }], 1, 32);
+        const [det] = await run([tf.ones([1, 160, 160, 32]), output], DEFAULT_POSTPROCESS_OPTIONS, DEFAULT_METADATA);
+
+        expect(det.mask?.width).toBe(64);
+    });
+});
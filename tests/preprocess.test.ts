@@ -0,0 +1,76 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { letterbox, preprocessRgb } from '../src/core';
+import { useCpuBackend, withoutLeaks } from './helpers';
+
+beforeAll(useCpuBackend);
+
+describe('letterbox', () => {
+    it('вписывает широкое изображение и центрирует его по вертикали', async () => {
+        const image = tf.fill([720, 1280, 3], 255, 'int32') as tf.Tensor3D;
+        const result = await withoutLeaks(() => letterbox(image, [640, 640]), r => [r.tensor]);
+        image.dispose();
+
+        expect(result.scale).toBe(0.5);
+        expect(result.padL).toBe(0);
+        expect(result.padT).toBe(140); // (640 - 360) / 2
+        expect(result.tensor.shape).toEqual([1, 640, 640, 3]);
+
+        const data = await result.tensor.data();
+        const at = (y: number, x: number) => data[(y * 640 + x) * 3];
+        expect(at(139, 320)).toBeCloseTo(114 / 255); // поле letterbox
+        expect(at(140, 320)).toBeCloseTo(1);
+        expect(at(499, 320)).toBeCloseTo(1);
+        expect(at(500, 320)).toBeCloseTo(114 / 255);
+        result.tensor.dispose();
+    });
+
+    it('для высокого изображения отдает нечетный остаток полю справа', async () => {
+        const image = tf.zeros([640, 317, 3]) as tf.Tensor3D;
+        const result = await withoutLeaks(() => letterbox(image, [640, 640]), r => [r.tensor]);
+        image.dispose();
+
+        // 640 - 317 = 323 -> 161 слева, 162 справа
+        expect(result.scale).toBe(1);
+        expect(result.padL).toBe(161);
+        expect(result.padT).toBe(0);
+        result.tensor.dispose();
+    });
+
+    it('поддерживает неквадратный вход модели', async () => {
+        const image = tf.zeros([100, 100, 3]) as tf.Tensor3D;
+        const result = await withoutLeaks(() => letterbox(image, [320, 640]), r => [r.tensor]);
+        image.dispose();
+
+        expect(result.scale).toBe(3.2);
+        expect(result.padL).toBe(160);
+        expect(result.padT).toBe(0);
+        expect(result.tensor.shape).toEqual([1, 320, 640, 3]);
+        result.tensor.dispose();
+    });
+});
+
+describe('preprocessRgb', () => {
+    it('отбрасывает альфа-канал RGBA', async () => {
+        const rgba = new Uint8Array(4 * 4 * 4);
+        for (let i = 0; i < 16; i++) rgba.set([255, 0, 51, 7], i * 4);
+
+        const result = await withoutLeaks(() => preprocessRgb(rgba, 4, 4, [4, 4]), r => [r.tensor]);
+        expect(result.tensor.shape).toEqual([1, 4, 4, 3]);
+        const pixel = Array.from((await result.tensor.data()).slice(0, 3));
+        expect(pixel[0]).toBeCloseTo(1);
+        expect(pixel[1]).toBeCloseTo(0);
+        expect(pixel[2]).toBeCloseTo(0.2);
+        result.tensor.dispose();
+    });
+
+    it('принимает Uint8ClampedArray из ImageData', async () => {
+        const result = await withoutLeaks(() => preprocessRgb(new Uint8ClampedArray(2 * 3 * 3), 2, 3, [8, 8]), r => [r.tensor]);
+        expect(result.tensor.shape).toEqual([1, 8, 8, 3]);
+        result.tensor.dispose();
+    });
+
+    it('отклоняет буфер неверного размера', () => {
+        expect(() => preprocessRgb(new Uint8Array(10), 2, 2)).toThrow();
+    });
+});
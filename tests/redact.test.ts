@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { redactionMatte } from '../src/core';
+import type { BinaryMask, BoundingBox, Detection } from '../src/core';
+
+const box = (x: number, y: number, width: number, height: number): BoundingBox => ({ x, y, width, height });
+const filled = (x: number, y: number, width: number, height: number): BinaryMask =>
+    ({ x, y, width, height, data: new Uint8Array(width * height).fill(1) });
+
+const W = 40;
+const H = 20;
+const at = (matte: Uint8ClampedArray, x: number, y: number) => matte[y * W + x];
+
+describe('redactionMatte', () => {
+    const rim: Detection = { box: box(10, 5, 10, 10), score: 0.9, class: 0, mask: filled(10, 5, 10, 10) };
+
+    it('закрывает все, кроме масок, или только маски', () => {
+        const background = redactionMatte([rim], W, H, 'background');
+        expect(at(background, 15, 10)).toBe(0);
+        expect(at(background, 0, 0)).toBe(255);
+        expect(at(background, 20, 10)).toBe(255);
+
+        const objects = redactionMatte([rim], W, H, 'objects');
+        expect(at(objects, 15, 10)).toBe(255);
+        expect(at(objects, 0, 0)).toBe(0);
+    });
+
+    it('растушевывает край маски, не трогая дальние пиксели', () => {
+        // Маска - правая половина кадра, край проходит по x = 20
+        const half: Detection = { box: box(20, 0, 20, 20), score: 0.9, class: 0, mask: filled(20, 0, 20, 20) };
+        const matte = redactionMatte([half], W, H, 'background', 6);
+
+        expect(at(matte, 20, 10)).toBeGreaterThan(0);
+        expect(at(matte, 20, 10)).toBeLessThan(255);
+        expect(at(matte, 19, 10)).toBeLessThan(255);
+        expect(at(matte, 2, 10)).toBe(255);
+        expect(at(matte, 35, 10)).toBe(0);
+    });
+
+    it('без маски закрывает эллипс, вписанный в бокс', () => {
+        const matte = redactionMatte([{ box: box(10, 0, 20, 20), score: 0.9, class: 0 }], W, H, 'objects');
+
+        expect(at(matte, 20, 10)).toBe(255);
+        expect(at(matte, 10, 0)).toBe(0); // угол бокса вне эллипса
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { findModel, parseModelManifest } from '../src/core';
+
+describe('parseModelManifest', () => {
+    it('заполняет id и имя по умолчанию и проверяет default', () => {
+        const manifest = parseModelManifest({
+            default: 'missing',
+            models: [{ url: './a/model.json' }, { id: 'b', name: 'Модель B', url: './b/model.json' }]
+        });
+
+        expect(manifest.default).toBe('./a/model.json');
+        expect(manifest.models[0]).toEqual({ id: './a/model.json', name: './a/model.json', url: './a/model.json', description: undefined });
+        expect(manifest.models[1].name).toBe('Модель B');
+    });
+
+    it('отклоняет пустой список, модели без url и повторы id', () => {
+        expect(() => parseModelManifest({ models: [] })).toThrow();
+        expect(() => parseModelManifest({ models: [{ id: 'a' }] })).toThrow();
+        expect(() => parseModelManifest({ models: [{ id: 'a', url: 'x' }, { id: 'a', url: 'y' }] })).toThrow();
+    });
+});
+
+describe('findModel', () => {
+    const manifest = parseModelManifest({
+        default: 'b',
+        models: [{ id: 'a', url: 'a.json' }, { id: 'b', url: 'b.json' }]
+    });
+
+    it('ищет по id, а неизвестный id заменяет моделью по умолчанию', () => {
+        expect(findModel(manifest, 'a').url).toBe('a.json');
+        expect(findModel(manifest, 'zzz').url).toBe('b.json');
+        expect(findModel(manifest, null).url).toBe('b.json');
+    });
+});
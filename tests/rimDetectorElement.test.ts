@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+// В Node нет DOM: элементу хватает атрибутов, shadow root с canvas и событий.
+// RimDetector с воркером подменяется заглушкой, у которой load управляет тест
+vi.hoisted(() => {
+    class FakeElement extends EventTarget {
+        private attributes = new Map<string, string>();
+        isConnected = true;
+
+        attachShadow() {
+            return { innerHTML: '', querySelector: () => ({ getContext: () => null }) };
+        }
+
+        getAttribute(name: string): string | null {
+            return this.attributes.get(name) ?? null;
+        }
+
+        setAttribute(name: string, value: string): void {
+            this.attributes.set(name, value);
+        }
+
+        hasAttribute(name: string): boolean {
+            return this.attributes.has(name);
+        }
+    }
+    (globalThis as Record<string, unknown>).HTMLElement = FakeElement;
+});
+
+vi.mock('../src/embed/rimDetector', () => ({
+    DEFAULT_MODEL_URL: './model/model.json',
+    parseBackendOptions: () => ({ order: ['cpu'] }),
+    RimDetector: class extends EventTarget {
+        load = vi.fn();
+        isReady = false;
+        metadata = { names: ['rim'] };
+        inferOptions = (options: unknown) => options;
+        infer = () => ({ id: 1, promise: Promise.resolve(null) });
+        cancel() {}
+    }
+}));
+
+const { RimDetectorElement } = await import('../src/embed/rimDetectorElement');
+
+describe('RimDetectorElement', () => {
+    beforeEach(() => {
+        vi.stubGlobal('createImageBitmap', async () => ({ width: 1, height: 1, close() {} }));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('после неудачной загрузки модели следующий detect загружает ее заново', async () => {
+        const element = new RimDetectorElement();
+        const load = element.detector.load as Mock;
+        load.mockRejectedValueOnce(new Error('Сеть недоступна')).mockResolvedValue({ backend: 'cpu' });
+
+        await expect(element.detect(new Blob())).rejects.toThrow('Сеть недоступна');
+        await expect(element.detect(new Blob())).resolves.toEqual([]);
+        expect(load).toHaveBeenCalledTimes(2);
+
+        // Загруженная модель не перезагружается на каждый кадр
+        await element.detect(new Blob());
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,184 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { PNG } from 'pngjs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_METADATA } from '../src/core';
+import type { InferenceResult, PostprocessOptions } from '../src/core';
+import { createPredictServer } from '../src/node/server';
+import type { PredictDetector, ServerOptions } from '../src/node/server';
+import { ConcurrencyLimiter, QueueFullError } from '../src/node/limiter';
+import { multipartBoundary, parseMultipart } from '../src/node/multipart';
+import type { RoboflowResponse, UltralyticsResponse } from '../src/node/predictions';
+
+// Квадратная маска 4x4 в углу (2, 2) кадра 8x6
+function stubResult(width: number, height: number): InferenceResult {
+    return {
+        detections: [{
+            box: { x: 2, y: 2, width: 4, height: 4 },
+            score: 0.9,
+            class: 0,
+            mask: { x: 2, y: 2, width: 4, height: 4, data: new Uint8Array(16).fill(1) }
+        }],
+        width,
+        height,
+        scale: 1,
+        padL: 0,
+        padT: 0,
+        timings: { preprocess: 1, inference: 2, postprocess: 3, total: 6 }
+    };
+}
+
+// Заглушка вместо модели: запоминает параметры, по желанию ждет release
+function stubDetector(): PredictDetector & { calls: Partial<PostprocessOptions>[]; hold(): () => void } {
+    let gate: Promise<void> | null = null;
+    const calls: Partial<PostprocessOptions>[] = [];
+    return {
+        metadata: DEFAULT_METADATA,
+        calls,
+        hold() {
+            let release!: () => void;
+            gate = new Promise(resolve => { release = resolve; });
+            return release;
+        },
+        async detect(image, options = {}) {
+            calls.push(options);
+            if (gate) await gate;
+            return stubResult(image.width, image.height);
+        }
+    };
+}
+
+function pngBytes(width: number, height: number): Buffer {
+    return PNG.sync.write(new PNG({ width, height }));
+}
+
+let server: Server | null = null;
+
+async function start(detector: PredictDetector, options: Partial<ServerOptions> = {}): Promise<string> {
+    server = createPredictServer(detector, options);
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+    server = null;
+});
+
+describe('multipart', () => {
+    it('разбирает файл и текстовые поля', () => {
+        const contentType = 'multipart/form-data; boundary=----b1';
+        const body = Buffer.concat([
+            Buffer.from('------b1\r\nContent-Disposition: form-data; name="conf"\r\n\r\n0.4\r\n'),
+            Buffer.from('------b1\r\nContent-Disposition: form-data; name="file"; filename="rim.png"\r\nContent-Type: image/png\r\n\r\n'),
+            Buffer.from([1, 2, 13, 10, 3]),
+            Buffer.from('\r\n------b1--\r\n')
+        ]);
+
+        const parts = parseMultipart(body, multipartBoundary(contentType)!);
+        expect(parts.map(part => part.name)).toEqual(['conf', 'file']);
+        expect(parts[0].data.toString()).toBe('0.4');
+        expect(parts[1].filename).toBe('rim.png');
+        expect(parts[1].contentType).toBe('image/png');
+        expect([...parts[1].data]).toEqual([1, 2, 13, 10, 3]);
+        expect(multipartBoundary('application/json')).toBeNull();
+    });
+});
+
+describe('ConcurrencyLimiter', () => {
+    it('держит не больше concurrency задач и отклоняет сверх очереди', async () => {
+        const limiter = new ConcurrencyLimiter(1, 1);
+        let release!: () => void;
+        const first = limiter.run(() => new Promise<number>(resolve => { release = () => resolve(1); }));
+        const second = limiter.run(async () => 2);
+
+        expect(limiter.active).toBe(1);
+        expect(limiter.waiting).toBe(1);
+        await expect(limiter.run(async () => 3)).rejects.toBeInstanceOf(QueueFullError);
+
+        release();
+        expect(await first).toBe(1);
+        expect(await second).toBe(2);
+        expect(limiter.active).toBe(0);
+    });
+});
+
+describe('сервер /predict', () => {
+    it('отвечает в формате Ultralytics на multipart с параметрами', async () => {
+        const detector = stubDetector();
+        const base = await start(detector);
+        const form = new FormData();
+        form.append('file', new Blob([pngBytes(8, 6)], { type: 'image/png' }), 'rim.png');
+        form.append('iou', '0.5');
+
+        const response = await fetch(`${base}/predict?conf=0.4&max_det=10`, { method: 'POST', body: form });
+        expect(response.status).toBe(200);
+        const body = await response.json() as UltralyticsResponse;
+
+        expect(detector.calls[0]).toMatchObject({ threshold: 0.4, iouThreshold: 0.5, maxDetections: 10, enableMasks: true });
+        expect(body.images[0].shape).toEqual([6, 8]);
+        const [result] = body.images[0].results;
+        expect(result).toMatchObject({ name: DEFAULT_METADATA.names[0], class: 0, confidence: 0.9, box: { x1: 2, y1: 2, x2: 6, y2: 6 } });
+        expect(Math.min(...result.segments!.x)).toBe(2);
+        expect(Math.max(...result.segments!.y)).toBe(6);
+    });
+
+    it('принимает base64 в JSON и отдает формат Roboflow с RLE', async () => {
+        const base = await start(stubDetector());
+        const image = `data:image/png;base64,${pngBytes(8, 6).toString('base64')}`;
+
+        const response = await fetch(`${base}/predict?format=roboflow&mask_format=rle`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ image })
+        });
+        const body = await response.json() as RoboflowResponse;
+
+        expect(body.image).toEqual({ width: 8, height: 6 });
+        const [prediction] = body.predictions;
+        expect(prediction).toMatchObject({ x: 4, y: 4, width: 4, height: 4, class: DEFAULT_METADATA.names[0], class_id: 0 });
+        expect(prediction.points).toBeUndefined();
+        expect(prediction.rle_mask!.size).toEqual([6, 8]);
+        expect(prediction.rle_mask!.counts.reduce((sum, run) => sum + run, 0)).toBe(48);
+    });
+
+    it('отклоняет неверные параметры, изображения и адреса', async () => {
+        const base = await start(stubDetector());
+        const post = (query: string, body: Buffer | string, type: string) =>
+            fetch(`${base}/predict${query}`, { method: 'POST', headers: { 'Content-Type': type }, body });
+
+        expect((await post('?conf=2', pngBytes(4, 4), 'image/png')).status).toBe(400);
+        expect((await post('?mask_format=svg', pngBytes(4, 4), 'image/png')).status).toBe(400);
+        expect((await post('', 'не картинка', 'image/png')).status).toBe(400);
+        expect((await fetch(`${base}/predict`)).status).toBe(405);
+        expect((await fetch(`${base}/nowhere`)).status).toBe(404);
+    });
+
+    it('отвечает 503, когда очередь заполнена, и 413 на слишком большое тело', async () => {
+        const detector = stubDetector();
+        const base = await start(detector, { concurrency: 1, maxQueue: 0, maxBodySize: 1024 });
+        const release = detector.hold();
+
+        const post = (bytes: Buffer) => fetch(`${base}/predict`, { method: 'POST', headers: { 'Content-Type': 'image/png' }, body: bytes });
+        const first = post(pngBytes(4, 4));
+        // Ждем, пока первый запрос займет единственный слот
+        while (detector.calls.length === 0) await new Promise(resolve => setTimeout(resolve, 5));
+
+        const busy = await post(pngBytes(4, 4));
+        expect(busy.status).toBe(503);
+        const health = await fetch(`${base}/health`).then(response => response.json()) as { active: number };
+        expect(health.active).toBe(1);
+
+        release();
+        expect((await first).status).toBe(200);
+        expect((await post(Buffer.alloc(2048))).status).toBe(413);
+    });
+
+    it('описывает модель в /model', async () => {
+        const base = await start(stubDetector(), { modelPath: 'public/model/model.json' });
+        const body = await fetch(`${base}/model`).then(response => response.json()) as { path: string; task: string; names: Record<string, string> };
+        expect(body.path).toBe('public/model/model.json');
+        expect(body.names['0']).toBe(DEFAULT_METADATA.names[0]);
+        expect(body.task).toBe(DEFAULT_METADATA.task);
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { computeTiles, detectTiled, maskArea, mergeTileDetections, unionMasks, DEFAULT_TILING_OPTIONS } from '../src/core';
+import type { BinaryMask, BoundingBox, Detection } from '../src/core';
+
+const box = (x: number, y: number, width: number, height: number): BoundingBox => ({ x, y, width, height });
+const det = (score: number, b: BoundingBox, cls: number = 0): Detection => ({ box: b, score, class: cls });
+const filled = (x: number, y: number, width: number, height: number): BinaryMask =>
+    ({ x, y, width, height, data: new Uint8Array(width * height).fill(1) });
+
+describe('computeTiles', () => {
+    it('прижимает последний тайл к краю изображения', () => {
+        const tiles = computeTiles(1000, 500, 400, 0.25);
+
+        expect(tiles.map(t => t.x)).toEqual([0, 300, 600, 0, 300, 600]);
+        expect(tiles.map(t => t.y)).toEqual([0, 0, 0, 100, 100, 100]);
+        expect(tiles.every(t => t.width === 400 && t.height === 400)).toBe(true);
+    });
+
+    it('не режет изображение меньше тайла', () => {
+        expect(computeTiles(300, 200, 640, 0.2)).toEqual([box(0, 0, 300, 200)]);
+    });
+
+    it('урезает тайл по стороне, которая меньше его', () => {
+        const tiles = computeTiles(1500, 300, 640, 0.2);
+
+        expect(tiles.map(t => t.x)).toEqual([0, 512, 860]);
+        expect(tiles.every(t => t.height === 300)).toBe(true);
+    });
+});
+
+describe('mergeTileDetections', () => {
+    const nms = { ...DEFAULT_TILING_OPTIONS, merge: 'nms' as const };
+
+    it('сливает половинки объекта со стыка тайлов в один бокс', () => {
+        const merged = mergeTileDetections([det(0.8, box(80, 10, 30, 40)), det(0.9, box(60, 10, 40, 40))]);
+
+        expect(merged).toHaveLength(1);
+        expect(merged[0].score).toBe(0.9);
+        expect(merged[0].box).toEqual(box(60, 10, 50, 40));
+    });
+
+    it('в режиме nms оставляет лучшую детекцию без изменений', () => {
+        const best = det(0.9, box(60, 10, 40, 40));
+        expect(mergeTileDetections([det(0.8, box(80, 10, 30, 40)), best], nms)).toEqual([best]);
+    });
+
+    it('IOS находит обрезок внутри целого объекта, а IoU - нет', () => {
+        const detections = [det(0.9, box(0, 0, 100, 100)), det(0.7, box(0, 0, 30, 100))];
+
+        expect(mergeTileDetections(detections, { ...nms, matchMetric: 'ios' })).toHaveLength(1);
+        expect(mergeTileDetections(detections, { ...nms, matchMetric: 'iou' })).toHaveLength(2);
+    });
+
+    it('не сливает разные классы', () => {
+        const detections = [det(0.9, box(0, 0, 50, 50), 0), det(0.8, box(0, 0, 50, 50), 1)];
+        expect(mergeTileDetections(detections)).toHaveLength(2);
+    });
+
+    it('объединяет маски слитых детекций', () => {
+        const a = { ...det(0.9, box(0, 0, 20, 10)), mask: filled(0, 0, 20, 10) };
+        const b = { ...det(0.8, box(10, 0, 20, 10)), mask: filled(10, 0, 20, 10) };
+        const [merged] = mergeTileDetections([a, b]);
+
+        expect([merged.mask!.x, merged.mask!.width, merged.mask!.height]).toEqual([0, 30, 10]);
+        expect(maskArea(merged.mask!)).toBe(300);
+    });
+});
+
+describe('unionMasks', () => {
+    it('не закрашивает пустые углы общего bbox', () => {
+        const union = unionMasks(filled(0, 0, 2, 2), filled(3, 3, 2, 2));
+
+        expect([union.x, union.y, union.width, union.height]).toEqual([0, 0, 5, 5]);
+        expect(maskArea(union)).toBe(8);
+        expect(union.data[4]).toBe(0);
+    });
+});
+
+describe('detectTiled', () => {
+    it('переводит детекции тайлов в координаты изображения и сливает дубликаты', async () => {
+        const regions: BoundingBox[] = [];
+        // Объект на 500..560 по x: попадает в оба тайла и в полный прогон
+        const detections = await detectTiled(1000, 400, { ...DEFAULT_TILING_OPTIONS, tileSize: 600, overlap: 0.2 }, async region => {
+            regions.push(region);
+            const x = 500 - region.x;
+            return x >= 0 && x + 60 <= region.width ? [det(0.5 + regions.length / 10, box(x, 100, 60, 60))] : [];
+        });
+
+        expect(regions).toEqual([box(0, 0, 600, 400), box(400, 0, 600, 400), box(0, 0, 1000, 400)]);
+        expect(detections).toHaveLength(1);
+        expect(detections[0].box).toEqual(box(500, 100, 60, 60));
+        expect(detections[0].score).toBeCloseTo(0.8);
+    });
+
+    it('без полного прогона обходится тайлами', async () => {
+        let calls = 0;
+        await detectTiled(1000, 400, { ...DEFAULT_TILING_OPTIONS, includeFull: false, tileSize: 600 }, async () => {
+            calls++;
+            return [];
+        });
+        expect(calls).toBe(2);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectTracker } from '../src/core';
+import type { Detection } from '../src/core';
+
+const det = (x: number, score: number = 0.9, cls: number = 0): Detection => ({
+    box: { x, y: 50, width: 40, height: 40 }, score, class: cls
+});
+
+// Прогоняет кадры и возвращает trackId детекций каждого кадра
+function run(tracker: ObjectTracker, frames: Detection[][]): (number | undefined)[][] {
+    return frames.map(frame => tracker.update(frame).map(d => d.trackId));
+}
+
+describe('ObjectTracker', () => {
+    it('сохраняет ID движущегося объекта между кадрами и различает соседей', () => {
+        const tracker = new ObjectTracker();
+        const frames = Array.from({ length: 6 }, (_, i) => [det(10 + i * 3), det(200 - i * 3)]);
+
+        const ids = run(tracker, frames);
+
+        // ID появляется после minHits = 3 сопоставлений
+        expect(ids.slice(0, 2)).toEqual([[undefined, undefined], [undefined, undefined]]);
+        expect(ids.slice(2)).toEqual([[1, 2], [1, 2], [1, 2], [1, 2]]);
+    });
+
+    it('держит трек maxAge кадров без детекций, потом он умирает', () => {
+        const seen = [[det(10)], [det(10)], [det(10)]];
+
+        const survivor = new ObjectTracker({ maxAge: 2 });
+        expect(run(survivor, [...seen, [], [], [det(10)]]).at(-1)).toEqual([1]);
+
+        const dead = new ObjectTracker({ maxAge: 2 });
+        run(dead, [...seen, [], [], []]);
+        expect(dead.getStats().activeTracks).toBe(0);
+        // Вернувшийся объект - уже новый трек, и ID он получит только после minHits
+        expect(run(dead, [[det(10)], [det(10)], [det(10)]])).toEqual([[undefined], [undefined], [2]]);
+    });
+
+    it('рождает треки только из уверенных детекций, неподтвержденный трек умирает при первом пропуске', () => {
+        const tracker = new ObjectTracker({ highScoreThreshold: 0.6 });
+        run(tracker, [[det(10, 0.4)], [det(10, 0.4)], [det(10, 0.4)]]);
+        expect(tracker.getStats()).toEqual({ activeTracks: 0, uniqueTracks: 0 });
+
+        // Трек 1 теряется на втором кадре, дальше объект ведет трек 2
+        const ids = run(tracker, [[det(10)], [], [det(10)], [det(10)], [det(10)]]);
+        expect(ids.at(-1)).toEqual([2]);
+    });
+
+    it('слабая детекция продлевает живой трек', () => {
+        const tracker = new ObjectTracker();
+        const ids = run(tracker, [[det(10)], [det(10)], [det(10)], [det(10, 0.3)], [det(10, 0.3)]]);
+        expect(ids.slice(2)).toEqual([[1], [1], [1]]);
+    });
+
+    it('считает уникальные подтвержденные треки за все время', () => {
+        const tracker = new ObjectTracker({ maxAge: 1 });
+        run(tracker, [[det(10), det(200)], [det(10), det(200)], [det(10), det(200)]]);
+        expect(tracker.getStats()).toEqual({ activeTracks: 2, uniqueTracks: 2 });
+
+        // Первый уходит, появляется третий; мелькнувший на кадр объект не считается
+        run(tracker, [[det(200), det(400)], [det(200), det(400)], [det(200), det(400), det(600)], [det(200), det(400)], [det(200), det(400)]]);
+        expect(tracker.getStats()).toEqual({ activeTracks: 2, uniqueTracks: 3 });
+
+        tracker.reset();
+        expect(tracker.getStats()).toEqual({ activeTracks: 0, uniqueTracks: 0 });
+    });
+});
@@ -9,6 +9,10 @@ export default defineConfig({
             "Cross-Origin-Embedder-Policy": "require-corp",
         },
     },
+    worker: {
+        // Модульный воркер инференса, как и основной бандл
+        format: "es",
+    },
     build: {
         target: "esnext",
         assetsDir: './',
@@ -0,0 +1,16 @@
+import { defineConfig, mergeConfig } from "vite";
+import baseConfig from "./vite.config";
+
+// Сборка встраиваемого <rim-detector> для других приложений: ES-модуль с воркером рядом.
+// Модель в бандл не входит - ее URL задается атрибутом model или в RimDetector.load().
+export default mergeConfig(baseConfig, defineConfig({
+    publicDir: false,
+    build: {
+        outDir: "dist-embed",
+        lib: {
+            entry: "src/embed/index.ts",
+            formats: ["es"],
+            fileName: "rim-detector",
+        },
+    },
+}));
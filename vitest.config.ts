@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        environment: "node",
+        include: ["tests/**/*.test.ts"],
+        // Модель на CPU-бэкенде tfjs прогревается долго
+        testTimeout: 60000,
+    },
+});